@@ -1,6 +1,17 @@
-import { useEffect } from 'react'
 import { useGameStore } from './store/gameStore'
-import { useGameTick } from './hooks/useGameTick'
+import { useUIStore } from './store/uiStore'
+import { useGameTick, useOfflineProgress } from './hooks/useGameTick'
+import { useTabSync } from './hooks/useTabSync'
+import { OfflineReportModal } from './components/OfflineReportModal'
+import { EventModal } from './components/EventModal'
+import { DebugPanel } from './components/DebugPanel'
+import { PrestigeShop } from './components/PrestigeShop'
+import { PrestigePanel } from './components/PrestigePanel'
+import { AchievementsPanel } from './components/AchievementsPanel'
+import { StatisticsPanel } from './components/StatisticsPanel'
+import { Sparkline } from './components/Sparkline'
+import { DatasetHistoryChart } from './components/DatasetHistoryChart'
+import { getAllPrestigeUpgrades } from './data/contentLoader'
 import { formatNumber } from './utils/format'
 
 function App() {
@@ -8,35 +19,56 @@ function App() {
     dc,
     lifetimeDC,
     prestigeLevel,
+    prestigePoints,
+    prestigeUpgrades,
+    statistics,
+    history,
     datasets,
     staff,
     activeIncidents,
     currentEvent,
     lastTickTime,
-    offlineProgressApplied,
+    offlineReport,
+    enginePerformance,
+    isPaused,
+    speed,
     tick,
+    pause,
+    resume,
+    stepTicks,
+    setSpeed,
+    prestige,
+    purchasePrestigeUpgrade,
+    resolveEvent,
     getGlobalSLA,
+    getDatasetDCRate,
     getTotalDCRate,
+    getPayrollRate,
+    getNetDCRate,
+    getPrestigeStatus,
+    getAchievementProgress,
     applyOfflineProgress,
+    catchUp,
+    dismissOfflineReport,
   } = useGameStore()
+  const { selectedDatasetId, setSelectedDataset } = useUIStore()
 
-  // Apply offline progress on mount
-  useEffect(() => {
-    if (!offlineProgressApplied) {
-      const now = Date.now()
-      const secondsElapsed = Math.floor((now - lastTickTime) / 1000)
+  // Only one open tab runs the game; the others mirror it
+  const { role: tabRole, takeOver } = useTabSync()
 
-      // Only apply if player was gone for at least 10 seconds
-      if (secondsElapsed >= 10) {
-        applyOfflineProgress(secondsElapsed)
-      }
-    }
-  }, [lastTickTime, offlineProgressApplied, applyOfflineProgress])
+  // Apply offline progress on mount (the report is shown until dismissed).
+  // Runs after useTabSync's effect has checked the lease, so a tab that
+  // opens as a follower doesn't apply (and save) it a second time.
+  useOfflineProgress(lastTickTime, applyOfflineProgress)
 
   // Start game loop
   const tickPerformance = useGameTick({
-    isPaused: currentEvent !== null, // Pause during events
+    // Pause during events, when paused by the player, and in follower tabs
+    isPaused: isPaused || currentEvent !== null || tabRole !== 'leader',
+    speed,
     onTick: tick,
+    tickDurationMs: enginePerformance?.tickDurationMs, // Fast-forward budget
+    onCatchUp: catchUp, // Throttled tabs that wake up very late
     onSlowTick: (duration) => {
       console.warn(`[App] Slow tick detected: ${duration.toFixed(2)}ms`)
     },
@@ -44,10 +76,34 @@ function App() {
 
   const globalSLA = getGlobalSLA()
   const dcRate = getTotalDCRate()
+  const payrollRate = getPayrollRate()
+  const netRate = getNetDCRate()
+  const haltedDatasets = datasets.filter(d => getDatasetDCRate(d.id).halted).length
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-100 p-8">
+      {offlineReport && (
+        <OfflineReportModal report={offlineReport} onDismiss={dismissOfflineReport} />
+      )}
+      {/* Events pause the game until the player decides (after the offline report) */}
+      {currentEvent && !offlineReport && tabRole === 'leader' && (
+        <EventModal event={currentEvent} onChoose={resolveEvent} />
+      )}
       <div className="max-w-6xl mx-auto">
+        {tabRole === 'follower' && (
+          <div className="mb-4 p-3 bg-yellow-900/30 border border-yellow-600 rounded flex items-center justify-between gap-4">
+            <p className="text-yellow-400 text-sm">
+              Data Empire is running in another tab. This tab is a read-only view.
+            </p>
+            <button
+              type="button"
+              onClick={takeOver}
+              className="px-3 py-1 rounded bg-yellow-600 hover:bg-yellow-500 text-white text-sm font-semibold"
+            >
+              Play Here
+            </button>
+          </div>
+        )}
         <header className="mb-8">
           <h1 className="text-4xl font-bold text-blue-400 mb-2">
             Data Empire
@@ -72,6 +128,25 @@ function App() {
                   +{dcRate.toFixed(2)} DC/s
                 </span>
               </div>
+              {payrollRate > 0 && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Salaries:</span>
+                    <span className="font-mono text-red-300">
+                      -{payrollRate.toFixed(2)} DC/s
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-slate-400">Net:</span>
+                    <span
+                      className={`font-mono ${netRate >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                    >
+                      {netRate >= 0 ? '+' : ''}
+                      {netRate.toFixed(2)} DC/s
+                    </span>
+                  </div>
+                </>
+              )}
               <div className="flex justify-between">
                 <span className="text-slate-400">Global SLA:</span>
                 <span
@@ -97,6 +172,34 @@ function App() {
                 </div>
               )}
             </div>
+            {history.minutes.length >= 2 && (
+              <div className="mt-4 space-y-1 text-xs text-slate-400">
+                <div className="flex items-center justify-between">
+                  <span>SLA ({history.minutes.length}m)</span>
+                  <Sparkline
+                    values={history.minutes.map(s => s.globalSLA)}
+                    label="Global SLA history"
+                    className="text-green-400"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>DC/s</span>
+                  <Sparkline
+                    values={history.minutes.map(s => s.dcRate)}
+                    label="DC/s history"
+                    className="text-green-300"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>DC</span>
+                  <Sparkline
+                    values={history.minutes.map(s => s.dc)}
+                    label="DC history"
+                    className="text-blue-400"
+                  />
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Status Card */}
@@ -121,6 +224,14 @@ function App() {
                   {activeIncidents.length}
                 </span>
               </div>
+              {haltedDatasets > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-slate-400">DC Halted:</span>
+                  <span className="text-red-400">
+                    {haltedDatasets} dataset{haltedDatasets === 1 ? '' : 's'}
+                  </span>
+                </div>
+              )}
               {currentEvent && (
                 <div className="mt-2 p-2 bg-yellow-900/30 border border-yellow-600 rounded">
                   <p className="text-yellow-400 text-xs">⚠️ Event Active (Game Paused)</p>
@@ -147,6 +258,36 @@ function App() {
                   {tickPerformance.averageDurationMs.toFixed(1)}ms
                 </span>
               </div>
+              {enginePerformance && (
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Engine Time:</span>
+                  <span className="font-mono text-slate-200">
+                    {enginePerformance.tickDurationMs.toFixed(1)}ms
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-slate-400">Timer Drift:</span>
+                <span
+                  className={`font-mono ${
+                    tickPerformance.maxDriftMs < 100 ? 'text-green-400' : 'text-yellow-400'
+                  }`}
+                >
+                  {Math.max(0, tickPerformance.driftMs).toFixed(0)}ms
+                </span>
+              </div>
+              {tickPerformance.skippedTicks > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Skipped (Speed):</span>
+                  <span className="text-yellow-400">{tickPerformance.skippedTicks} ticks</span>
+                </div>
+              )}
+              {tickPerformance.catchUpTicks > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-slate-400">Caught Up:</span>
+                  <span className="text-slate-200">{tickPerformance.catchUpTicks} ticks</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-slate-400">Total Ticks:</span>
                 <span className="text-slate-200">{tickPerformance.totalTicks}</span>
@@ -165,6 +306,51 @@ function App() {
           </div>
         </div>
 
+        <div className="mt-4">
+          <PrestigePanel status={getPrestigeStatus()} onPrestige={prestige} />
+        </div>
+
+        <div className="mt-4">
+          <AchievementsPanel achievements={getAchievementProgress()} />
+        </div>
+
+        <div className="mt-4">
+          <StatisticsPanel statistics={statistics} />
+        </div>
+
+        <div className="mt-4">
+          <DatasetHistoryChart
+            history={history}
+            datasets={datasets}
+            selectedDatasetId={selectedDatasetId}
+            onSelectDataset={setSelectedDataset}
+          />
+        </div>
+
+        {(prestigeLevel > 0 || prestigePoints > 0) && (
+          <div className="mt-4">
+            <PrestigeShop
+              upgrades={getAllPrestigeUpgrades()}
+              levels={prestigeUpgrades}
+              points={prestigePoints}
+              onPurchase={purchasePrestigeUpgrade}
+            />
+          </div>
+        )}
+
+        {import.meta.env.DEV && tabRole === 'leader' && (
+          <div className="mt-4">
+            <DebugPanel
+              isPaused={isPaused}
+              speed={speed}
+              onPause={pause}
+              onResume={resume}
+              onStep={stepTicks}
+              onSpeedChange={setSpeed}
+            />
+          </div>
+        )}
+
         <div className="mt-8 bg-slate-800 rounded-lg p-6 shadow-lg">
           <h3 className="text-lg font-semibold mb-3">Phase 3: State Management Complete</h3>
           <ul className="space-y-2 text-sm text-slate-300">
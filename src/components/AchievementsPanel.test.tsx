@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { AchievementsPanel } from './AchievementsPanel'
+import { calculateAchievementProgress, createAchievementTracking } from '@/game/achievements'
+
+const renderPanel = (unlocked: string[]) => {
+  const achievements = calculateAchievementProgress(
+    {
+      lifetimeDC: 0,
+      prestigeLevel: 0,
+      unlockedTechnologies: [],
+      tracking: { ...createAchievementTracking(), incidentsResolved: 25 },
+    },
+    unlocked
+  )
+  render(<AchievementsPanel achievements={achievements} />)
+}
+
+describe('AchievementsPanel', () => {
+  it('shows progress bars for partially completed achievements', () => {
+    renderPanel([])
+
+    const bar = screen.getByRole('progressbar', { name: 'Incident Commander' })
+    expect(bar.getAttribute('aria-valuenow')).toBe('50')
+    expect(screen.getByText('25 / 50')).toBeTruthy()
+  })
+
+  it('marks unlocked achievements without a progress bar', () => {
+    renderPanel(['first-responder'])
+
+    expect(screen.getByText(/First Responder/).textContent).toContain('✓')
+    expect(screen.queryByRole('progressbar', { name: 'First Responder' })).toBeNull()
+    expect(screen.getByText(`1/${screen.getAllByRole('listitem').length}`)).toBeTruthy()
+  })
+})
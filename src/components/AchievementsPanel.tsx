@@ -0,0 +1,59 @@
+/**
+ * AchievementsPanel
+ * Unlocked achievements and progress towards the rest
+ */
+
+import type { AchievementProgress } from '@/types'
+import { formatNumber } from '@/utils/format'
+
+export interface AchievementsPanelProps {
+  achievements: AchievementProgress[]
+}
+
+export function AchievementsPanel({ achievements }: AchievementsPanelProps) {
+  const unlockedCount = achievements.filter(a => a.unlocked).length
+
+  return (
+    <section aria-label="Achievements" className="bg-slate-800 rounded-lg p-6 shadow-lg">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-semibold">Achievements</h2>
+        <span className="text-sm text-slate-400 font-mono">
+          {unlockedCount}/{achievements.length}
+        </span>
+      </div>
+
+      <ul className="space-y-3 text-sm">
+        {achievements.map(({ achievement, current, target, progress, unlocked }) => (
+          <li key={achievement.id}>
+            <div className="flex justify-between gap-4">
+              <div>
+                <p className={unlocked ? 'text-green-400 font-semibold' : 'text-slate-200'}>
+                  {unlocked ? '✓ ' : ''}
+                  {achievement.name}
+                </p>
+                <p className="text-slate-400">{achievement.description}</p>
+              </div>
+              {!unlocked && (
+                <span className="font-mono text-slate-400 whitespace-nowrap">
+                  {formatNumber(current)} / {formatNumber(target)}
+                </span>
+              )}
+            </div>
+            {!unlocked && (
+              <div
+                role="progressbar"
+                aria-label={achievement.name}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progress * 100)}
+                className="mt-1 h-2 rounded bg-slate-700"
+              >
+                <div className="h-2 rounded bg-blue-500" style={{ width: `${progress * 100}%` }} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { DatasetHistoryChart } from './DatasetHistoryChart'
+import { createHistory } from '@/game/history'
+import { getAllDatasets } from '@/data/contentLoader'
+import type { HistorySample } from '@/types'
+
+const datasets = getAllDatasets().slice(0, 2)
+
+const createSample = (time: number, T: number): HistorySample => ({
+  time,
+  globalSLA: 95,
+  dcRate: 1,
+  dc: 100,
+  datasets: { [datasets[0].id]: { T, A: 90, C: 80 } },
+})
+
+const history = {
+  ...createHistory(),
+  minutes: [createSample(1000, 95), createSample(2000, 96.5)],
+  hours: [createSample(1000, 91)],
+}
+
+const latestValue = (label: string) =>
+  screen.getByText(`${label}:`).parentElement?.lastChild?.textContent
+
+describe('DatasetHistoryChart', () => {
+  it('charts the first dataset by default', () => {
+    render(
+      <DatasetHistoryChart
+        history={history}
+        datasets={datasets}
+        selectedDatasetId={null}
+        onSelectDataset={vi.fn()}
+      />
+    )
+
+    expect(latestValue('Timeliness')).toBe('96.5%')
+    expect(latestValue('Completeness')).toBe('80.0%')
+    expect(screen.getByRole('img', { name: 'Timeliness' }).querySelector('polyline')).toBeTruthy()
+  })
+
+  it('switches to hour buckets', async () => {
+    render(
+      <DatasetHistoryChart
+        history={history}
+        datasets={datasets}
+        selectedDatasetId={null}
+        onSelectDataset={vi.fn()}
+      />
+    )
+
+    await userEvent.click(screen.getByRole('button', { name: 'Last 72h' }))
+
+    expect(latestValue('Timeliness')).toBe('91.0%')
+  })
+
+  it('selects another dataset', async () => {
+    const onSelectDataset = vi.fn()
+    render(
+      <DatasetHistoryChart
+        history={history}
+        datasets={datasets}
+        selectedDatasetId={datasets[1].id}
+        onSelectDataset={onSelectDataset}
+      />
+    )
+
+    expect(latestValue('Timeliness')).toBe('-')
+
+    await userEvent.selectOptions(screen.getByRole('combobox', { name: 'Dataset' }), datasets[0].id)
+
+    expect(onSelectDataset).toHaveBeenCalledWith(datasets[0].id)
+  })
+})
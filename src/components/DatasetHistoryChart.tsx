@@ -0,0 +1,100 @@
+/**
+ * DatasetHistoryChart
+ * A dataset's T/A/C metrics over the last hour or the last few days
+ */
+
+import { useState } from 'react'
+import type { Dataset, History, HistoryResolution, Metrics } from '@/types'
+import { getDatasetSeries } from '@/game/history'
+import { HISTORY } from '@/game/balance'
+import { Sparkline } from './Sparkline'
+
+export interface DatasetHistoryChartProps {
+  history: History
+  datasets: Dataset[]
+  /** Dataset to chart (defaults to the first dataset) */
+  selectedDatasetId: string | null
+  onSelectDataset: (id: string) => void
+}
+
+const RESOLUTIONS: { resolution: HistoryResolution; label: string }[] = [
+  { resolution: 'minutes', label: `Last ${HISTORY.MAX_MINUTE_SAMPLES}m` },
+  { resolution: 'hours', label: `Last ${HISTORY.MAX_HOUR_SAMPLES}h` },
+]
+
+const METRICS: { metric: keyof Metrics; label: string; className: string }[] = [
+  { metric: 'T', label: 'Timeliness', className: 'text-blue-400' },
+  { metric: 'A', label: 'Accuracy', className: 'text-green-400' },
+  { metric: 'C', label: 'Completeness', className: 'text-purple-400' },
+]
+
+export function DatasetHistoryChart({
+  history,
+  datasets,
+  selectedDatasetId,
+  onSelectDataset,
+}: DatasetHistoryChartProps) {
+  const [resolution, setResolution] = useState<HistoryResolution>('minutes')
+  const dataset = datasets.find(d => d.id === selectedDatasetId) ?? datasets[0]
+  const samples = history[resolution]
+
+  return (
+    <section aria-label="Dataset History" className="bg-slate-800 rounded-lg p-6 shadow-lg">
+      <div className="flex items-baseline justify-between mb-4 gap-4">
+        <h2 className="text-xl font-semibold">Dataset History</h2>
+        <div className="flex gap-2 text-sm">
+          <select
+            aria-label="Dataset"
+            value={dataset?.id ?? ''}
+            onChange={e => onSelectDataset(e.target.value)}
+            className="px-2 py-1 rounded bg-slate-700 text-slate-200"
+          >
+            {datasets.map(d => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+          {RESOLUTIONS.map(option => (
+            <button
+              key={option.resolution}
+              type="button"
+              aria-pressed={option.resolution === resolution}
+              onClick={() => setResolution(option.resolution)}
+              className={`px-3 py-1 rounded ${
+                option.resolution === resolution
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        {METRICS.map(({ metric, label, className }) => {
+          const values = dataset ? getDatasetSeries(samples, dataset.id, metric) : []
+          return (
+            <div key={metric} className="flex items-center justify-between gap-4">
+              <span className="text-slate-400 w-32">{label}:</span>
+              <Sparkline
+                values={values}
+                label={label}
+                width={480}
+                height={48}
+                min={0}
+                max={100}
+                className={className}
+              />
+              <span className="font-mono text-slate-200 w-16 text-right">
+                {values.length > 0 ? `${values[values.length - 1].toFixed(1)}%` : '-'}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
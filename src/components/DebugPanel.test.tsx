@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { DebugPanel, type DebugPanelProps } from './DebugPanel'
+
+const renderPanel = (overrides: Partial<DebugPanelProps> = {}) => {
+  const props: DebugPanelProps = {
+    isPaused: false,
+    speed: 1,
+    onPause: vi.fn(),
+    onResume: vi.fn(),
+    onStep: vi.fn(),
+    onSpeedChange: vi.fn(),
+    ...overrides,
+  }
+  render(<DebugPanel {...props} />)
+  return props
+}
+
+describe('DebugPanel', () => {
+  it('pauses and resumes', async () => {
+    const running = renderPanel()
+    await userEvent.click(screen.getByRole('button', { name: 'Pause' }))
+    expect(running.onPause).toHaveBeenCalledOnce()
+  })
+
+  it('offers resume while paused', async () => {
+    const paused = renderPanel({ isPaused: true })
+    await userEvent.click(screen.getByRole('button', { name: 'Resume' }))
+    expect(paused.onResume).toHaveBeenCalledOnce()
+  })
+
+  it('steps ticks', async () => {
+    const props = renderPanel()
+    await userEvent.click(screen.getByRole('button', { name: 'Step 10' }))
+    expect(props.onStep).toHaveBeenCalledWith(10)
+  })
+
+  it('highlights and changes the speed', async () => {
+    const props = renderPanel({ speed: 10 })
+
+    expect(screen.getByRole('button', { name: '10x' }).getAttribute('aria-pressed')).toBe('true')
+    expect(screen.getByRole('button', { name: '1x' }).getAttribute('aria-pressed')).toBe('false')
+
+    await userEvent.click(screen.getByRole('button', { name: '100x' }))
+    expect(props.onSpeedChange).toHaveBeenCalledWith(100)
+  })
+})
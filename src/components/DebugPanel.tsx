@@ -0,0 +1,74 @@
+/**
+ * DebugPanel
+ * Time controls for debugging and balance review: pause, step, fast-forward
+ */
+
+import { GAME_SPEEDS } from '@/game/balance'
+import type { GameSpeed } from '@/store/gameStore'
+
+export interface DebugPanelProps {
+  isPaused: boolean
+  speed: GameSpeed
+  onPause: () => void
+  onResume: () => void
+  onStep: (count: number) => void
+  onSpeedChange: (speed: GameSpeed) => void
+}
+
+/**
+ * Tick counts offered by the step buttons
+ */
+const STEP_COUNTS = [1, 10, 60]
+
+export function DebugPanel({
+  isPaused,
+  speed,
+  onPause,
+  onResume,
+  onStep,
+  onSpeedChange,
+}: DebugPanelProps) {
+  return (
+    <section aria-label="Debug controls" className="bg-slate-800 rounded-lg p-4 shadow-lg">
+      <h2 className="text-sm font-semibold text-slate-300 mb-3">Debug: Time Controls</h2>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={isPaused ? onResume : onPause}
+          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-white font-semibold"
+        >
+          {isPaused ? 'Resume' : 'Pause'}
+        </button>
+
+        {STEP_COUNTS.map(count => (
+          <button
+            key={count}
+            type="button"
+            onClick={() => onStep(count)}
+            className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200"
+          >
+            Step {count}
+          </button>
+        ))}
+
+        <span className="ml-2 text-slate-400">Speed:</span>
+        {GAME_SPEEDS.map(option => (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={option === speed}
+            onClick={() => onSpeedChange(option)}
+            className={`px-3 py-1 rounded font-mono ${
+              option === speed
+                ? 'bg-purple-600 text-white'
+                : 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+            }`}
+          >
+            {option}x
+          </button>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { EventModal } from './EventModal'
+import { getEventById } from '@/data/contentLoader'
+import { useGameStore } from '@/store/gameStore'
+import type { Event } from '@/types'
+
+describe('EventModal', () => {
+  let event: Event
+
+  beforeEach(() => {
+    event = getEventById('audit-scheduled')!
+  })
+
+  it('shows the event and the effects of each choice', () => {
+    render(<EventModal event={event} onChoose={() => {}} />)
+
+    expect(screen.getByRole('dialog', { name: 'Regulatory Audit Scheduled' })).toBeTruthy()
+    expect(screen.getByText('-2.0K DC, T +5, A +10, C +15')).toBeTruthy()
+    expect(screen.getByText('No effect')).toBeTruthy()
+  })
+
+  it('reports the chosen option', async () => {
+    const onChoose = vi.fn()
+    render(<EventModal event={event} onChoose={onChoose} />)
+
+    await userEvent.click(screen.getByRole('button', { name: /Take the Risk/ }))
+
+    expect(onChoose).toHaveBeenCalledWith('risk-it')
+  })
+
+  it('resolves the store event so the game can continue', async () => {
+    useGameStore.getState().reset()
+    useGameStore.setState({ currentEvent: event, dc: 5000 })
+    render(
+      <EventModal
+        event={event}
+        onChoose={choiceId => useGameStore.getState().resolveEvent(choiceId)}
+      />
+    )
+
+    await userEvent.click(screen.getByRole('button', { name: /Invest in Preparation/ }))
+
+    expect(useGameStore.getState().currentEvent).toBeNull()
+    expect(useGameStore.getState().dc).toBe(3000)
+  })
+})
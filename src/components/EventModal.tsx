@@ -0,0 +1,61 @@
+/**
+ * EventModal
+ * Asks the player to decide on the active event (the game is paused meanwhile)
+ */
+
+import type { Event, EventEffects } from '@/types'
+import { formatNumber } from '@/utils/format'
+
+export interface EventModalProps {
+  event: Event
+  onChoose: (choiceId: string) => void
+}
+
+/**
+ * Short summary of a choice's effects, e.g. "-2K DC, T +5, A +10"
+ */
+function describeEffects(effects: EventEffects): string {
+  const parts: string[] = []
+  if (effects.dc_change) {
+    const sign = effects.dc_change > 0 ? '+' : '-'
+    parts.push(`${sign}${formatNumber(Math.abs(effects.dc_change))} DC`)
+  }
+  Object.entries(effects.metric_changes ?? {}).forEach(([metric, change]) => {
+    if (change) {
+      parts.push(`${metric} ${change > 0 ? '+' : ''}${change}`)
+    }
+  })
+  return parts.length > 0 ? parts.join(', ') : 'No effect'
+}
+
+export function EventModal({ event, onChoose }: EventModalProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="event-title"
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-slate-800 rounded-lg p-6 shadow-lg"
+      >
+        <h2 id="event-title" className="text-xl font-semibold mb-1">
+          {event.title}
+        </h2>
+        <p className="text-slate-400 text-sm mb-4">{event.message}</p>
+
+        <div className="space-y-2">
+          {event.choices.map(choice => (
+            <button
+              key={choice.id}
+              type="button"
+              onClick={() => onChoose(choice.id)}
+              className="w-full py-2 px-3 rounded bg-blue-600 hover:bg-blue-500 text-white text-left"
+            >
+              <span className="block font-semibold">{choice.label}</span>
+              <span className="block text-xs text-blue-100">{describeEffects(choice.effects)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
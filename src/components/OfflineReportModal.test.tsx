@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { OfflineReportModal } from './OfflineReportModal'
+import type { OfflineReport } from '@/types'
+
+const createReport = (overrides: Partial<OfflineReport> = {}): OfflineReport => ({
+  secondsAway: 3900,
+  secondsSimulated: 3900,
+  capped: false,
+  dcEarned: 1500,
+  dcSpent: 300,
+  datasets: [{ datasetId: 'a', name: 'Customer Transactions', startSLA: 98, endSLA: 91.5 }],
+  incidentsStarted: [],
+  incidentsResolved: [],
+  pendingEvents: [],
+  staffQuit: [],
+  createdAt: 0,
+  ...overrides,
+})
+
+describe('OfflineReportModal', () => {
+  it('shows time away, DC and dataset SLA changes', () => {
+    render(<OfflineReportModal report={createReport()} onDismiss={() => {}} />)
+
+    expect(screen.getByRole('dialog', { name: 'While You Were Away' })).toBeTruthy()
+    expect(screen.getByText(/1h 5m/)).toBeTruthy()
+    expect(screen.getByText('+1.5K DC')).toBeTruthy()
+    expect(screen.getByText('-300 DC')).toBeTruthy()
+    expect(screen.getByText('98.0% → 91.5%')).toBeTruthy()
+  })
+
+  it('warns when offline progress was capped', () => {
+    render(
+      <OfflineReportModal
+        report={createReport({ secondsAway: 100000, secondsSimulated: 86400, capped: true })}
+        onDismiss={() => {}}
+      />
+    )
+
+    expect(screen.getByText(/Only the first 24h 0m were simulated/)).toBeTruthy()
+  })
+
+  it('lists events waiting for a decision', () => {
+    const report = createReport({
+      pendingEvents: [
+        {
+          id: 'budget-approval',
+          title: 'Budget Approval',
+          message: '',
+          type: 'bonus',
+          choices: [],
+        },
+      ],
+    })
+    render(<OfflineReportModal report={report} onDismiss={() => {}} />)
+
+    expect(screen.getByText(/1 event needs your decision/)).toBeTruthy()
+    expect(screen.getByText('Budget Approval')).toBeTruthy()
+  })
+
+  it('calls onDismiss when continued', async () => {
+    const onDismiss = vi.fn()
+    render(<OfflineReportModal report={createReport()} onDismiss={onDismiss} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Continue' }))
+    expect(onDismiss).toHaveBeenCalledOnce()
+  })
+})
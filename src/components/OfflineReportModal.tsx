@@ -0,0 +1,129 @@
+/**
+ * OfflineReportModal
+ * "While you were away" summary shown after offline progress is applied
+ */
+
+import type { OfflineReport } from '@/types'
+import { formatDuration, formatNumber, formatPercent } from '@/utils/format'
+
+export interface OfflineReportModalProps {
+  report: OfflineReport
+  onDismiss: () => void
+}
+
+/**
+ * Text colour for an SLA change
+ */
+function slaChangeClass(startSLA: number, endSLA: number): string {
+  if (endSLA > startSLA) return 'text-green-400'
+  if (endSLA < startSLA) return 'text-red-400'
+  return 'text-slate-300'
+}
+
+export function OfflineReportModal({ report, onDismiss }: OfflineReportModalProps) {
+  const netDC = report.dcEarned - report.dcSpent
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="offline-report-title"
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-slate-800 rounded-lg p-6 shadow-lg"
+      >
+        <h2 id="offline-report-title" className="text-xl font-semibold mb-1">
+          While You Were Away
+        </h2>
+        <p className="text-slate-400 text-sm mb-4">
+          You were gone for {formatDuration(report.secondsAway)}.
+        </p>
+
+        {report.capped && (
+          <div className="mb-4 p-2 bg-yellow-900/30 border border-yellow-600 rounded">
+            <p className="text-yellow-400 text-xs">
+              Only the first {formatDuration(report.secondsSimulated)} were simulated (offline
+              progress is capped).
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2 text-sm mb-4">
+          <div className="flex justify-between">
+            <span className="text-slate-400">DC Earned:</span>
+            <span className="font-mono text-green-400">+{formatNumber(report.dcEarned)} DC</span>
+          </div>
+          {report.dcSpent > 0 && (
+            <div className="flex justify-between">
+              <span className="text-slate-400">Salaries Paid:</span>
+              <span className="font-mono text-red-300">-{formatNumber(report.dcSpent)} DC</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-slate-400">Net:</span>
+            <span className={`font-mono ${netDC >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {netDC >= 0 ? '+' : '-'}
+              {formatNumber(Math.abs(netDC))} DC
+            </span>
+          </div>
+        </div>
+
+        {report.datasets.length > 0 && (
+          <div className="mb-4">
+            <h3 className="text-sm font-semibold text-slate-300 mb-2">Dataset SLA</h3>
+            <ul className="space-y-1 text-sm">
+              {report.datasets.map(dataset => (
+                <li key={dataset.datasetId} className="flex justify-between">
+                  <span className="text-slate-400">{dataset.name}</span>
+                  <span className={`font-mono ${slaChangeClass(dataset.startSLA, dataset.endSLA)}`}>
+                    {formatPercent(dataset.startSLA)} → {formatPercent(dataset.endSLA)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-2 text-sm mb-4">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Incidents:</span>
+            <span
+              className={report.incidentsStarted.length > 0 ? 'text-red-400' : 'text-green-400'}
+            >
+              {report.incidentsStarted.length} occurred, {report.incidentsResolved.length} resolved
+            </span>
+          </div>
+          {report.staffQuit.length > 0 && (
+            <div className="flex justify-between">
+              <span className="text-slate-400">Staff Quit:</span>
+              <span className="text-red-400">
+                {report.staffQuit.map(member => member.name).join(', ')}
+              </span>
+            </div>
+          )}
+        </div>
+
+        {report.pendingEvents.length > 0 && (
+          <div className="mb-4 p-2 bg-blue-900/30 border border-blue-600 rounded">
+            <p className="text-blue-300 text-xs mb-1">
+              {report.pendingEvents.length} event
+              {report.pendingEvents.length === 1 ? ' needs' : 's need'} your decision:
+            </p>
+            <ul className="text-blue-200 text-xs list-disc list-inside">
+              {report.pendingEvents.map((event, index) => (
+                <li key={`${event.id}-${index}`}>{event.title}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="w-full py-2 rounded bg-blue-600 hover:bg-blue-500 text-white font-semibold"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  )
+}
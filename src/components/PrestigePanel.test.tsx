@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PrestigePanel } from './PrestigePanel'
+import { calculatePrestigeStatus } from '@/game/prestige'
+import { getAllDatasets } from '@/data/contentLoader'
+
+const datasets = getAllDatasets().map(d => ({ ...d, currentSLA: 100 }))
+
+const prestigeButton = () => screen.getByRole('button', { name: 'Prestige' }) as HTMLButtonElement
+
+describe('PrestigePanel', () => {
+  it('shows progress for each requirement', () => {
+    const status = calculatePrestigeStatus({
+      datasets: datasets.slice(0, 5),
+      lifetimeDC: 1000000,
+      prestigeLevel: 0,
+      slaBonus: 0,
+    })
+    render(<PrestigePanel status={status} onPrestige={vi.fn()} />)
+
+    expect(
+      screen.getByRole('progressbar', { name: 'Datasets' }).getAttribute('aria-valuenow')
+    ).toBe('50')
+    expect(
+      screen.getByRole('progressbar', { name: 'Lifetime DC' }).getAttribute('aria-valuenow')
+    ).toBe('50')
+    expect(prestigeButton().disabled).toBe(true)
+  })
+
+  it('previews the gain and what resets', () => {
+    const status = calculatePrestigeStatus({
+      datasets,
+      lifetimeDC: 2000000,
+      prestigeLevel: 0,
+      slaBonus: 0,
+    })
+    render(<PrestigePanel status={status} onPrestige={vi.fn()} />)
+
+    expect(screen.getByText('+10 PP, level 1')).toBeTruthy()
+    expect(screen.getByText(/Technologies/).textContent).toContain('Prestige points')
+    expect(screen.getByText(/Staff/).textContent).toContain('Datasets')
+  })
+
+  it('prestiges when every requirement is met', async () => {
+    const onPrestige = vi.fn()
+    const status = calculatePrestigeStatus({
+      datasets,
+      lifetimeDC: 2000000,
+      prestigeLevel: 0,
+      slaBonus: 0,
+    })
+    render(<PrestigePanel status={status} onPrestige={onPrestige} />)
+
+    await userEvent.click(prestigeButton())
+
+    expect(onPrestige).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * PrestigePanel
+ * Progress towards the next prestige and a preview of the reset
+ */
+
+import type { CarryOverField, PrestigeRequirementProgress, PrestigeStatus } from '@/types'
+import { formatNumber, formatPercent } from '@/utils/format'
+
+export interface PrestigePanelProps {
+  status: PrestigeStatus
+  onPrestige: () => void
+}
+
+const CARRY_OVER_LABELS: Record<CarryOverField, string> = {
+  unlockedTechnologies: 'Technologies',
+  purchasedPipelines: 'Global pipelines',
+  staff: 'Staff',
+}
+
+const formatRequirement = (requirement: PrestigeRequirementProgress, value: number) =>
+  requirement.id === 'globalSLA' ? formatPercent(value) : formatNumber(value)
+
+export function PrestigePanel({ status, onPrestige }: PrestigePanelProps) {
+  return (
+    <section aria-label="Prestige" className="bg-slate-800 rounded-lg p-6 shadow-lg">
+      <h2 className="text-xl font-semibold mb-4">Prestige</h2>
+
+      <ul className="space-y-3 text-sm">
+        {status.requirements.map(requirement => (
+          <li key={requirement.id}>
+            <div className="flex justify-between">
+              <span className="text-slate-400">{requirement.label}:</span>
+              <span
+                className={`font-mono ${requirement.met ? 'text-green-400' : 'text-slate-200'}`}
+              >
+                {formatRequirement(requirement, requirement.current)} /{' '}
+                {formatRequirement(requirement, requirement.required)}
+              </span>
+            </div>
+            <div
+              role="progressbar"
+              aria-label={requirement.label}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(requirement.progress * 100)}
+              className="mt-1 h-2 rounded bg-slate-700"
+            >
+              <div
+                className={`h-2 rounded ${requirement.met ? 'bg-green-500' : 'bg-purple-500'}`}
+                style={{ width: `${requirement.progress * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-4 space-y-1 text-sm">
+        <p className="text-slate-400">
+          Gain:{' '}
+          <span className="font-mono text-purple-400">
+            +{status.gain.prestigePoints} PP, level {status.gain.prestigeLevel}
+          </span>
+        </p>
+        <p className="text-slate-400">
+          Keeps:{' '}
+          <span className="text-slate-200">
+            {[
+              'Prestige points',
+              'Prestige upgrades',
+              ...status.keeps.map(f => CARRY_OVER_LABELS[f]),
+            ].join(', ')}
+          </span>
+        </p>
+        <p className="text-slate-400">
+          Resets:{' '}
+          <span className="text-slate-200">
+            {['DC', 'Datasets', ...status.resets.map(f => CARRY_OVER_LABELS[f])].join(', ')}
+          </span>
+        </p>
+      </div>
+
+      <button
+        type="button"
+        disabled={!status.canPrestige}
+        onClick={onPrestige}
+        className="mt-4 w-full px-3 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white font-semibold disabled:bg-slate-700 disabled:text-slate-500"
+      >
+        Prestige
+      </button>
+    </section>
+  )
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PrestigeShop, type PrestigeShopProps } from './PrestigeShop'
+import { getAllPrestigeUpgrades } from '@/data/contentLoader'
+
+const renderShop = (overrides: Partial<PrestigeShopProps> = {}) => {
+  const props: PrestigeShopProps = {
+    upgrades: getAllPrestigeUpgrades(),
+    levels: {},
+    points: 0,
+    onPurchase: vi.fn(),
+    ...overrides,
+  }
+  render(<PrestigeShop {...props} />)
+  return props
+}
+
+const buyButton = (name: string) =>
+  screen.getByRole('button', { name: `Buy ${name}` }) as HTMLButtonElement
+
+describe('PrestigeShop', () => {
+  it('buys affordable upgrades', async () => {
+    const props = renderShop({ points: 1 })
+
+    await userEvent.click(buyButton('Seed Funding'))
+
+    expect(props.onPurchase).toHaveBeenCalledWith('seed-funding')
+  })
+
+  it('disables upgrades the player cannot afford', () => {
+    renderShop({ points: 1 })
+
+    expect(buyButton('Seed Funding').disabled).toBe(false)
+    expect(buyButton('Legacy Integrations').disabled).toBe(true)
+  })
+
+  it('shows levels and maxed upgrades', () => {
+    renderShop({ points: 100, levels: { 'legacy-integrations': 5 } })
+
+    expect(screen.getByText('5/5')).toBeTruthy()
+    expect(buyButton('Legacy Integrations').disabled).toBe(true)
+    expect(buyButton('Legacy Integrations').textContent).toBe('Max')
+  })
+})
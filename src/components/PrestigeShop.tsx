@@ -0,0 +1,60 @@
+/**
+ * PrestigeShop
+ * Permanent upgrades bought with prestige points
+ */
+
+import type { PrestigeUpgrade } from '@/types'
+import { calculateUpgradeCost, type PrestigeUpgradeLevels } from '@/game/prestige'
+
+export interface PrestigeShopProps {
+  upgrades: PrestigeUpgrade[]
+  /** Purchased levels, keyed by upgrade ID */
+  levels: PrestigeUpgradeLevels
+  /** Unspent prestige points */
+  points: number
+  onPurchase: (upgradeId: string) => void
+}
+
+export function PrestigeShop({ upgrades, levels, points, onPurchase }: PrestigeShopProps) {
+  return (
+    <section aria-label="Prestige shop" className="bg-slate-800 rounded-lg p-6 shadow-lg">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-semibold">Prestige Shop</h2>
+        <span className="text-sm text-slate-400">
+          Prestige Points: <span className="font-mono text-purple-400">{points}</span>
+        </span>
+      </div>
+
+      <ul className="space-y-3 text-sm">
+        {upgrades.map(upgrade => {
+          const level = levels[upgrade.id] ?? 0
+          const maxed = level >= upgrade.max_level
+          const cost = calculateUpgradeCost(upgrade, level)
+
+          return (
+            <li key={upgrade.id} className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-slate-200 font-semibold">
+                  {upgrade.name}{' '}
+                  <span className="font-mono text-slate-400">
+                    {level}/{upgrade.max_level}
+                  </span>
+                </p>
+                <p className="text-slate-400">{upgrade.description}</p>
+              </div>
+              <button
+                type="button"
+                aria-label={`Buy ${upgrade.name}`}
+                disabled={maxed || points < cost}
+                onClick={() => onPurchase(upgrade.id)}
+                className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-500 text-white font-mono disabled:bg-slate-700 disabled:text-slate-500"
+              >
+                {maxed ? 'Max' : `${cost} PP`}
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { Sparkline } from './Sparkline'
+
+const polyline = () => screen.getByRole('img', { name: 'Global SLA' }).querySelector('polyline')
+
+describe('Sparkline', () => {
+  it('scales values to the chart', () => {
+    render(<Sparkline values={[0, 50, 100]} label="Global SLA" width={100} height={20} />)
+
+    expect(polyline()?.getAttribute('points')).toBe('0.0,20.0 50.0,10.0 100.0,0.0')
+  })
+
+  it('uses a fixed range when given', () => {
+    render(
+      <Sparkline values={[50, 50]} label="Global SLA" width={100} height={20} min={0} max={100} />
+    )
+
+    expect(polyline()?.getAttribute('points')).toBe('0.0,10.0 100.0,10.0')
+  })
+
+  it('draws no line with fewer than two values', () => {
+    render(<Sparkline values={[42]} label="Global SLA" />)
+
+    expect(polyline()).toBeNull()
+  })
+})
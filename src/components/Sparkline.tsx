@@ -0,0 +1,61 @@
+/**
+ * Sparkline
+ * Small inline line chart of a series, oldest value first
+ */
+
+export interface SparklineProps {
+  values: number[]
+  /** Accessible name of the chart */
+  label: string
+  width?: number
+  height?: number
+  /** Fixed range (defaults to the range of the values) */
+  min?: number
+  max?: number
+  className?: string
+}
+
+/**
+ * Scale values into SVG polyline points
+ * A flat series is drawn through the middle of the chart
+ */
+function toPoints(values: number[], width: number, height: number, min: number, max: number) {
+  const range = max - min
+  const step = width / (values.length - 1)
+  return values
+    .map((value, index) => {
+      const y = range > 0 ? height - ((value - min) / range) * height : height / 2
+      return `${(index * step).toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+}
+
+export function Sparkline({
+  values,
+  label,
+  width = 120,
+  height = 32,
+  min = Math.min(...values),
+  max = Math.max(...values),
+  className = 'text-blue-400',
+}: SparklineProps) {
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+    >
+      {values.length >= 2 && (
+        <polyline
+          points={toPoints(values, width, height, min, max)}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+        />
+      )}
+    </svg>
+  )
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { StatisticsPanel } from './StatisticsPanel'
+import { createGameStatistics, createStatistics } from '@/game/statistics'
+
+const statistics = {
+  ...createGameStatistics(),
+  run: {
+    ...createStatistics(),
+    ticksPlayed: 90,
+    incidentsSpawned: { 'data-delay': 2 },
+    incidentsResolved: { 'data-delay': 1 },
+    resolutionSeconds: 45,
+    timedResolutions: 1,
+    dcEarnedByDataset: { 'customer-transactions': 1500 },
+  },
+  lifetime: { ...createStatistics(), ticksPlayed: 7200 },
+}
+
+const rowValue = (label: string) => screen.getByText(`${label}:`).nextElementSibling?.textContent
+
+describe('StatisticsPanel', () => {
+  it('shows the current run by default', () => {
+    render(<StatisticsPanel statistics={statistics} />)
+
+    expect(rowValue('Time Played')).toBe('1m 30s')
+    expect(rowValue('Mean Time to Resolve')).toBe('45s')
+    expect(rowValue('data-delay')).toBe('1 / 2')
+    expect(rowValue('Customer Transactions')).toBe('1.5K')
+  })
+
+  it('switches to lifetime statistics', async () => {
+    render(<StatisticsPanel statistics={statistics} />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Lifetime' }))
+
+    expect(rowValue('Time Played')).toBe('2h 0m')
+    expect(rowValue('Mean Time to Resolve')).toBe('-')
+    expect(screen.getAllByText('None yet')).toHaveLength(2)
+  })
+})
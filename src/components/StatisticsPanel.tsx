@@ -0,0 +1,134 @@
+/**
+ * StatisticsPanel
+ * Stats screen: the current run or all runs combined
+ */
+
+import { useState } from 'react'
+import type { GameStatistics, Statistics } from '@/types'
+import { calculateMeanTimeToResolve } from '@/game/statistics'
+import { getDatasetById } from '@/data/contentLoader'
+import { formatDuration, formatNumber } from '@/utils/format'
+
+export interface StatisticsPanelProps {
+  statistics: GameStatistics
+}
+
+type StatisticsScope = keyof GameStatistics
+
+const SCOPES: { scope: StatisticsScope; label: string }[] = [
+  { scope: 'run', label: 'This Run' },
+  { scope: 'lifetime', label: 'Lifetime' },
+]
+
+const sum = (counts: Record<string, number | undefined>) =>
+  Object.values(counts).reduce<number>((total, count) => total + (count ?? 0), 0)
+
+function StatRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-slate-400">{label}:</span>
+      <span className="font-mono text-slate-200">{value}</span>
+    </div>
+  )
+}
+
+function StatGroup({ title, rows }: { title: string; rows: [string, string][] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-slate-300 mb-2">{title}</h3>
+      <div className="space-y-1 text-sm">
+        {rows.length > 0 ? (
+          rows.map(([label, value]) => <StatRow key={label} label={label} value={value} />)
+        ) : (
+          <p className="text-slate-500">None yet</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function StatisticsGroups({ stats }: { stats: Statistics }) {
+  const meanTimeToResolve = calculateMeanTimeToResolve(stats)
+  const incidentTypes = Object.keys(
+    stats.incidentsSpawned
+  ) as (keyof Statistics['incidentsSpawned'])[]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <StatGroup
+        title="General"
+        rows={[
+          ['Ticks Played', formatNumber(stats.ticksPlayed)],
+          ['Time Played', formatDuration(stats.ticksPlayed)],
+          ['Peak DC/s', formatNumber(stats.peakDCPerSecond)],
+          [
+            'Mean Time to Resolve',
+            meanTimeToResolve === null ? '-' : formatDuration(meanTimeToResolve),
+          ],
+        ]}
+      />
+      <StatGroup
+        title="Incidents (resolved / spawned)"
+        rows={incidentTypes.map(type => [
+          type,
+          `${stats.incidentsResolved[type] ?? 0} / ${stats.incidentsSpawned[type] ?? 0}`,
+        ])}
+      />
+      <StatGroup
+        title="DC Earned"
+        rows={Object.entries(stats.dcEarnedByDataset).map(([datasetId, dc]) => [
+          getDatasetById(datasetId)?.name ?? datasetId,
+          formatNumber(dc),
+        ])}
+      />
+      <StatGroup
+        title={`DC Spent (${formatNumber(sum(stats.dcSpent))})`}
+        rows={[
+          ['Pipelines', formatNumber(stats.dcSpent.pipelines)],
+          ['Staff', formatNumber(stats.dcSpent.staff)],
+          ['Technologies', formatNumber(stats.dcSpent.technologies)],
+          ['Events', formatNumber(stats.dcSpent.events)],
+        ]}
+      />
+      <StatGroup
+        title="Dataset Status Time"
+        rows={[
+          ['OK', formatDuration(stats.statusSeconds.ok)],
+          ['Warning', formatDuration(stats.statusSeconds.warning)],
+          ['Failing', formatDuration(stats.statusSeconds.failing)],
+        ]}
+      />
+    </div>
+  )
+}
+
+export function StatisticsPanel({ statistics }: StatisticsPanelProps) {
+  const [scope, setScope] = useState<StatisticsScope>('run')
+
+  return (
+    <section aria-label="Statistics" className="bg-slate-800 rounded-lg p-6 shadow-lg">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-xl font-semibold">Statistics</h2>
+        <div className="flex gap-2 text-sm">
+          {SCOPES.map(option => (
+            <button
+              key={option.scope}
+              type="button"
+              aria-pressed={option.scope === scope}
+              onClick={() => setScope(option.scope)}
+              className={`px-3 py-1 rounded ${
+                option.scope === scope
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <StatisticsGroups stats={statistics[scope]} />
+    </section>
+  )
+}
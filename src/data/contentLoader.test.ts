@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getAvailableDatasets,
+  getAvailablePipelines,
+  getAvailableStaff,
+  getTechnologyById,
+  getTechnologyUnlockCascade,
+  getUnlockingTechnologies,
+  isUnlockedByTechnology,
+} from './contentLoader'
+
+describe('isUnlockedByTechnology', () => {
+  it('allows content no technology lists', () => {
+    expect(isUnlockedByTechnology('pipelines', 'data-validation', [])).toBe(true)
+  })
+
+  it('requires one of the listing technologies', () => {
+    expect(getUnlockingTechnologies('staff_roles', 'site-reliability-engineer')).toEqual(['ai-ops'])
+    expect(isUnlockedByTechnology('staff_roles', 'site-reliability-engineer', [])).toBe(false)
+    expect(isUnlockedByTechnology('staff_roles', 'site-reliability-engineer', ['ai-ops'])).toBe(
+      true
+    )
+  })
+})
+
+describe('tech-gated availability', () => {
+  it('surfaces tech-unlocked datasets through getAvailableDatasets', () => {
+    const before = getAvailableDatasets(1e9, [], []).map(d => d.id)
+    const after = getAvailableDatasets(1e9, ['regulatory-compliance'], []).map(d => d.id)
+
+    expect(before).not.toContain('financial-reporting')
+    expect(after).toContain('financial-reporting')
+  })
+
+  it('makes ai-ops pipelines and roles purchasable', () => {
+    expect(getAvailablePipelines([]).map(p => p.id)).not.toContain('automated-remediation')
+    expect(getAvailablePipelines(['ai-ops']).map(p => p.id)).toContain('automated-remediation')
+    expect(getAvailableStaff(['ai-ops']).map(s => s.id)).toContain('site-reliability-engineer')
+  })
+})
+
+describe('getTechnologyUnlockCascade', () => {
+  it('lists content newly made available by a technology', () => {
+    const tech = getTechnologyById('ai-ops')!
+    const cascade = getTechnologyUnlockCascade(tech, ['ml-infrastructure', 'metadata-management'])
+
+    expect(cascade.datasets).toEqual([])
+    expect(cascade.pipelines.map(p => p.id)).toEqual(['automated-remediation', 'cost-optimization'])
+    expect(cascade.staff.map(s => s.id)).toEqual(['site-reliability-engineer'])
+  })
+
+  it('includes tech-gated datasets', () => {
+    const tech = getTechnologyById('regulatory-compliance')!
+    const cascade = getTechnologyUnlockCascade(tech, [])
+
+    expect(cascade.datasets.map(d => d.id)).toEqual(['financial-reporting'])
+    expect(cascade.pipelines.map(p => p.id)).toEqual(['data-masking'])
+    expect(cascade.staff.map(s => s.id)).toEqual(['data-governance-lead'])
+  })
+
+  it('skips content that was already available', () => {
+    const tech = getTechnologyById('iot-integration')!
+    expect(getTechnologyUnlockCascade(tech, []).datasets.map(d => d.id)).toEqual([
+      'supply-chain-iot',
+    ])
+    expect(getTechnologyUnlockCascade(tech, ['iot-integration']).datasets).toEqual([])
+  })
+})
@@ -3,14 +3,16 @@
  * Loads game content from JSON files and provides initialization
  */
 
-import type { Dataset, Pipeline, Staff, Technology, Event } from '@/types'
-import type { Incident } from '@/types'
+import type { Dataset, Pipeline, Staff, Technology, TechnologyUnlocks, Event } from '@/types'
+import type { Achievement, IncidentTemplate, PrestigeUpgrade } from '@/types'
 import datasetsData from './datasets.json'
 import pipelinesData from './pipelines.json'
 import staffData from './staff.json'
 import technologiesData from './technologies.json'
 import eventsData from './events.json'
 import incidentsData from './incidents.json'
+import prestigeUpgradesData from './prestigeUpgrades.json'
+import achievementsData from './achievements.json'
 
 /**
  * Get all available datasets
@@ -91,22 +93,45 @@ export function getEventById(id: string): Event | undefined {
 
 /**
  * Get all incident templates
+ * Instantiated into incidents by the engine when spawned
  */
-export function getAllIncidentTemplates(): Incident[] {
-  return (incidentsData.incidents as any[]).map(i => ({
-    ...i,
-    id: '', // Will be generated when spawned
-    dataset_id: '', // Will be set when spawned
-    resolution_progress: 0,
-    started_at: 0,
-  })) as Incident[]
+export function getAllIncidentTemplates(): IncidentTemplate[] {
+  return incidentsData.incidents as IncidentTemplate[]
 }
 
 /**
  * Get incident template by ID
  */
-export function getIncidentTemplateById(id: string) {
-  return incidentsData.incidents.find(i => i.id === id)
+export function getIncidentTemplateById(id: string): IncidentTemplate | undefined {
+  return (incidentsData.incidents as IncidentTemplate[]).find(i => i.id === id)
+}
+
+/**
+ * Get all prestige shop upgrades
+ */
+export function getAllPrestigeUpgrades(): PrestigeUpgrade[] {
+  return prestigeUpgradesData.upgrades as PrestigeUpgrade[]
+}
+
+/**
+ * Get prestige upgrade by ID
+ */
+export function getPrestigeUpgradeById(id: string): PrestigeUpgrade | undefined {
+  return (prestigeUpgradesData.upgrades as PrestigeUpgrade[]).find(u => u.id === id)
+}
+
+/**
+ * Get all achievements
+ */
+export function getAllAchievements(): Achievement[] {
+  return achievementsData.achievements as Achievement[]
+}
+
+/**
+ * Get achievement by ID
+ */
+export function getAchievementById(id: string): Achievement | undefined {
+  return (achievementsData.achievements as Achievement[]).find(a => a.id === id)
 }
 
 /**
@@ -120,6 +145,34 @@ export function getStarterDataset(): Dataset {
   return dataset
 }
 
+/**
+ * Content kinds a technology can unlock
+ */
+export type UnlockableContent = keyof Omit<TechnologyUnlocks, 'global_bonuses'>
+
+/**
+ * Get IDs of technologies whose unlocks list a piece of content
+ */
+export function getUnlockingTechnologies(kind: UnlockableContent, contentId: string): string[] {
+  return getAllTechnologies()
+    .filter(tech => tech.unlocks[kind].includes(contentId))
+    .map(tech => tech.id)
+}
+
+/**
+ * Check if the tech tree allows a piece of content
+ * Content not listed in any technology's unlocks is always allowed,
+ * otherwise at least one of the listing technologies must be unlocked
+ */
+export function isUnlockedByTechnology(
+  kind: UnlockableContent,
+  contentId: string,
+  unlockedTechnologies: string[]
+): boolean {
+  const unlockingTechs = getUnlockingTechnologies(kind, contentId)
+  return unlockingTechs.length === 0 || unlockingTechs.some(id => unlockedTechnologies.includes(id))
+}
+
 /**
  * Check if a dataset can be unlocked based on requirements
  */
@@ -128,6 +181,10 @@ export function canUnlockDataset(
   currentDC: number,
   unlockedTechnologies: string[]
 ): boolean {
+  if (!isUnlockedByTechnology('datasets', dataset.id, unlockedTechnologies)) {
+    return false
+  }
+
   if (!dataset.unlock_requirement) {
     return true // No requirements
   }
@@ -173,6 +230,9 @@ export function getAvailableDatasets(
  */
 export function getAvailablePipelines(unlockedTechnologies: string[]): Pipeline[] {
   return getAllPipelines().filter(pipeline => {
+    if (!isUnlockedByTechnology('pipelines', pipeline.id, unlockedTechnologies)) {
+      return false
+    }
     if (!pipeline.requires_tech) {
       return true // No tech requirement
     }
@@ -185,6 +245,9 @@ export function getAvailablePipelines(unlockedTechnologies: string[]): Pipeline[
  */
 export function getAvailableStaff(unlockedTechnologies: string[]): Staff[] {
   return getAllStaff().filter(staff => {
+    if (!isUnlockedByTechnology('staff_roles', staff.id, unlockedTechnologies)) {
+      return false
+    }
     if (!staff.requires_tech) {
       return true // No tech requirement
     }
@@ -206,3 +269,59 @@ export function getAvailableTechnologies(unlockedTechnologies: string[]): Techno
     return tech.requires.every(reqId => unlockedTechnologies.includes(reqId))
   })
 }
+
+/**
+ * Content newly made available by unlocking a technology
+ */
+export interface TechnologyUnlockCascade {
+  /** Datasets that can now be unlocked (subject to their DC threshold) */
+  datasets: Dataset[]
+  /** Pipelines that can now be purchased */
+  pipelines: Pipeline[]
+  /** Staff roles that can now be hired */
+  staff: Staff[]
+}
+
+/**
+ * Get content that becomes available when a technology is unlocked
+ * Only includes content listed in the tech's unlocks that wasn't already
+ * available and whose other tech requirements are met
+ *
+ * @param tech Technology being unlocked
+ * @param previouslyUnlocked Technology IDs unlocked before this one
+ */
+export function getTechnologyUnlockCascade(
+  tech: Technology,
+  previouslyUnlocked: string[]
+): TechnologyUnlockCascade {
+  const after = [...previouslyUnlocked, tech.id]
+
+  // Datasets only check tech gates here - the DC threshold is applied by getAvailableDatasets
+  const isDatasetReachable = (dataset: Dataset, techs: string[]) => {
+    const techRequired = dataset.unlock_requirement?.tech_required
+    return (
+      isUnlockedByTechnology('datasets', dataset.id, techs) &&
+      (!techRequired || techs.includes(techRequired))
+    )
+  }
+  const datasets = tech.unlocks.datasets
+    .map(id => getDatasetById(id))
+    .filter((d): d is Dataset => d !== undefined)
+    .filter(d => isDatasetReachable(d, after) && !isDatasetReachable(d, previouslyUnlocked))
+
+  const availablePipelineIds = new Set(getAvailablePipelines(after).map(p => p.id))
+  const previousPipelineIds = new Set(getAvailablePipelines(previouslyUnlocked).map(p => p.id))
+  const pipelines = tech.unlocks.pipelines
+    .filter(id => availablePipelineIds.has(id) && !previousPipelineIds.has(id))
+    .map(id => getPipelineById(id))
+    .filter((p): p is Pipeline => p !== undefined)
+
+  const availableStaffIds = new Set(getAvailableStaff(after).map(s => s.id))
+  const previousStaffIds = new Set(getAvailableStaff(previouslyUnlocked).map(s => s.id))
+  const staff = tech.unlocks.staff_roles
+    .filter(id => availableStaffIds.has(id) && !previousStaffIds.has(id))
+    .map(id => getStaffById(id))
+    .filter((s): s is Staff => s !== undefined)
+
+  return { datasets, pipelines, staff }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyAchievementBonuses,
+  calculateAchievementProgress,
+  createAchievementTracking,
+  evaluateAchievements,
+  updateAchievementTracking,
+  updateOfflineAchievementTracking,
+  type AchievementContext,
+} from './achievements'
+import { calculateTechnologyBonuses } from './modifiers'
+import { processTick } from './engine'
+import { getAllAchievements, getStarterDataset } from '@/data/contentLoader'
+import type { DomainEvent, Incident } from '@/types'
+
+const createContext = (overrides: Partial<AchievementContext> = {}): AchievementContext => ({
+  lifetimeDC: 0,
+  prestigeLevel: 0,
+  unlockedTechnologies: [],
+  tracking: createAchievementTracking(),
+  ...overrides,
+})
+
+const resolved = (count: number): DomainEvent[] =>
+  Array.from({ length: count }, (_, i) => ({
+    type: 'IncidentResolved',
+    incident: { id: `incident-${i}` } as Incident,
+  }))
+
+describe('achievements content', () => {
+  it('has unique IDs', () => {
+    const ids = getAllAchievements().map(a => a.id)
+    expect(new Set(ids).size).toBe(ids.length)
+  })
+
+  it('covers tier 5 technologies, prestige and SLA streaks', () => {
+    const types = getAllAchievements().map(a => a.condition.type)
+    expect(types).toEqual(
+      expect.arrayContaining([
+        'global_sla_held',
+        'incidents_resolved',
+        'technology_tier_unlocked',
+        'prestige_level',
+      ])
+    )
+  })
+})
+
+describe('updateOfflineAchievementTracking', () => {
+  it('counts resolved incidents and keeps SLA streaks', () => {
+    const tracking = updateOfflineAchievementTracking(
+      { incidentsResolved: 2, slaStreakSeconds: { 95: 30, 99: 0 } },
+      5
+    )
+
+    expect(tracking).toEqual({ incidentsResolved: 7, slaStreakSeconds: { 95: 30, 99: 0 } })
+  })
+})
+
+describe('updateAchievementTracking', () => {
+  it('counts resolved incidents', () => {
+    const tracking = updateAchievementTracking(createAchievementTracking(), resolved(3), 50, 1)
+    expect(tracking.incidentsResolved).toBe(3)
+  })
+
+  it('extends SLA streaks above each threshold', () => {
+    let tracking = createAchievementTracking()
+    tracking = updateAchievementTracking(tracking, [], 99.5, 1)
+    tracking = updateAchievementTracking(tracking, [], 97, 1)
+
+    expect(tracking.slaStreakSeconds).toEqual({ 95: 2, 99: 0 })
+  })
+
+  it('restarts streaks when SLA dips', () => {
+    let tracking = updateAchievementTracking(createAchievementTracking(), [], 99, 60)
+    tracking = updateAchievementTracking(tracking, [], 90, 1)
+
+    expect(tracking.slaStreakSeconds).toEqual({ 95: 0, 99: 0 })
+  })
+})
+
+describe('evaluateAchievements', () => {
+  it('unlocks achievements whose conditions are met', () => {
+    const context = createContext({
+      prestigeLevel: 3,
+      unlockedTechnologies: ['data-lake', 'ai-ops'],
+      tracking: { incidentsResolved: 10, slaStreakSeconds: { 99: 600 } },
+    })
+
+    expect(evaluateAchievements(context, []).map(a => a.id)).toEqual([
+      'five-nines',
+      'first-responder',
+      'bleeding-edge',
+      'serial-founder',
+    ])
+  })
+
+  it('skips achievements already unlocked', () => {
+    const context = createContext({ lifetimeDC: 1000000 })
+
+    expect(evaluateAchievements(context, [])).toHaveLength(1)
+    expect(evaluateAchievements(context, ['millionaire'])).toEqual([])
+  })
+
+  it('needs every technology of the tier', () => {
+    const context = createContext({ unlockedTechnologies: ['data-lake'] })
+    expect(evaluateAchievements(context, [])).toEqual([])
+  })
+})
+
+describe('calculateAchievementProgress', () => {
+  it('reports partial progress', () => {
+    const progress = calculateAchievementProgress(
+      createContext({ unlockedTechnologies: ['data-lake'], lifetimeDC: 250000 }),
+      []
+    )
+    const byId = new Map(progress.map(p => [p.achievement.id, p]))
+
+    expect(byId.get('bleeding-edge')).toMatchObject({ current: 1, target: 2, progress: 0.5 })
+    expect(byId.get('millionaire')?.progress).toBe(0.25)
+  })
+
+  it('shows unlocked achievements as complete', () => {
+    const progress = calculateAchievementProgress(createContext(), ['serial-founder'])
+    expect(progress.find(p => p.achievement.id === 'serial-founder')).toMatchObject({
+      unlocked: true,
+      progress: 1,
+    })
+  })
+})
+
+describe('applyAchievementBonuses', () => {
+  it('stacks rewards on top of global bonuses', () => {
+    const bonuses = applyAchievementBonuses(calculateTechnologyBonuses([]), [
+      'five-nines',
+      'serial-founder',
+      'millionaire',
+      'unknown-achievement',
+    ])
+
+    expect(bonuses.slaBonus).toBe(3)
+    expect(bonuses.dcMultiplier).toBeCloseTo(1.02)
+    expect(bonuses.decayMultiplier).toBe(1)
+  })
+
+  it('applies in the engine', () => {
+    const state = {
+      datasets: [{ ...getStarterDataset(), current_metrics: { T: 50, A: 50, C: 50 } }],
+      staff: [],
+      activeIncidents: [],
+      currentEvent: null,
+      dc: 0,
+      lifetimeDC: 0,
+      prestigeLevel: 0,
+      rngSeed: 1,
+    }
+    const base = processTick(state)
+    const rewarded = processTick({ ...state, achievements: ['serial-founder'] })
+
+    expect(rewarded.updatedDatasets[0].currentSLA).toBeCloseTo(
+      base.updatedDatasets[0].currentSLA + 2
+    )
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * Achievements - Long-term goals with small permanent rewards
+ *
+ * Conditions are read from game state (prestige level, technologies,
+ * lifetime DC) and from AchievementTracking counters, which the store
+ * advances after each tick from its domain events and global SLA.
+ * Unlocked achievements and their counters are kept across prestige, and
+ * their rewards stack with technology bonuses like another technology would.
+ */
+
+import type {
+  Achievement,
+  AchievementProgress,
+  AchievementTracking,
+  DomainEvent,
+  TechnologyBonuses,
+} from '@/types'
+import { combineGlobalBonuses } from './modifiers'
+import { getAchievementById, getAllAchievements, getAllTechnologies } from '@/data/contentLoader'
+
+/**
+ * Game state achievement conditions are checked against
+ */
+export interface AchievementContext {
+  lifetimeDC: number
+  prestigeLevel: number
+  unlockedTechnologies: string[]
+  tracking: AchievementTracking
+}
+
+/**
+ * Create empty achievement tracking
+ */
+export function createAchievementTracking(): AchievementTracking {
+  return {
+    incidentsResolved: 0,
+    slaStreakSeconds: {},
+  }
+}
+
+/**
+ * Advance achievement counters after a tick
+ * SLA streaks are kept for every global_sla_held threshold in the content and
+ * restart as soon as global SLA dips below the threshold
+ *
+ * @param tracking Current counters
+ * @param events Domain events from the tick
+ * @param globalSLA Global SLA after the tick (bonuses included)
+ * @param seconds Game time the tick covered
+ * @returns Updated counters
+ */
+export function updateAchievementTracking(
+  tracking: AchievementTracking,
+  events: DomainEvent[],
+  globalSLA: number,
+  seconds: number
+): AchievementTracking {
+  const thresholds = new Set(
+    getAllAchievements().flatMap(({ condition }) =>
+      condition.type === 'global_sla_held' ? [condition.min_sla] : []
+    )
+  )
+  const slaStreakSeconds: Record<string, number> = {}
+  thresholds.forEach(threshold => {
+    slaStreakSeconds[threshold] =
+      globalSLA >= threshold ? (tracking.slaStreakSeconds[threshold] ?? 0) + seconds : 0
+  })
+
+  return {
+    incidentsResolved:
+      tracking.incidentsResolved + events.filter(e => e.type === 'IncidentResolved').length,
+    slaStreakSeconds,
+  }
+}
+
+/**
+ * Advance achievement counters after offline progress
+ * Offline SLA isn't simulated tick by tick, so SLA streaks are left as they were
+ *
+ * @param tracking Current counters
+ * @param incidentsResolved Number of incidents resolved while offline
+ * @returns Updated counters
+ */
+export function updateOfflineAchievementTracking(
+  tracking: AchievementTracking,
+  incidentsResolved: number
+): AchievementTracking {
+  return {
+    ...tracking,
+    incidentsResolved: tracking.incidentsResolved + incidentsResolved,
+  }
+}
+
+/**
+ * Calculate progress towards an achievement's condition
+ *
+ * @param achievement Achievement to check
+ * @param context Current game state and counters
+ * @returns Current value and target
+ */
+export function calculateConditionProgress(
+  achievement: Achievement,
+  context: AchievementContext
+): { current: number; target: number } {
+  const { condition } = achievement
+
+  switch (condition.type) {
+    case 'global_sla_held':
+      return {
+        current: context.tracking.slaStreakSeconds[condition.min_sla] ?? 0,
+        target: condition.seconds,
+      }
+    case 'incidents_resolved':
+      return { current: context.tracking.incidentsResolved, target: condition.count }
+    case 'technology_tier_unlocked': {
+      const tier = getAllTechnologies().filter(tech => tech.tier === condition.tier)
+      return {
+        current: tier.filter(tech => context.unlockedTechnologies.includes(tech.id)).length,
+        target: tier.length,
+      }
+    }
+    case 'prestige_level':
+      return { current: context.prestigeLevel, target: condition.level }
+    case 'lifetime_dc':
+      return { current: context.lifetimeDC, target: condition.amount }
+  }
+}
+
+/**
+ * Calculate progress towards every achievement
+ *
+ * @param context Current game state and counters
+ * @param unlocked IDs of unlocked achievements
+ * @returns Progress in content order
+ */
+export function calculateAchievementProgress(
+  context: AchievementContext,
+  unlocked: string[]
+): AchievementProgress[] {
+  return getAllAchievements().map(achievement => {
+    const { current, target } = calculateConditionProgress(achievement, context)
+    const isUnlocked = unlocked.includes(achievement.id)
+
+    return {
+      achievement,
+      current,
+      target,
+      progress: isUnlocked || target <= 0 ? 1 : Math.min(1, Math.max(0, current / target)),
+      unlocked: isUnlocked,
+    }
+  })
+}
+
+/**
+ * Find achievements whose conditions are met but aren't unlocked yet
+ *
+ * @param context Current game state and counters
+ * @param unlocked IDs of unlocked achievements
+ * @returns Newly completed achievements
+ */
+export function evaluateAchievements(
+  context: AchievementContext,
+  unlocked: string[]
+): Achievement[] {
+  return getAllAchievements().filter(achievement => {
+    if (unlocked.includes(achievement.id)) return false
+    const { current, target } = calculateConditionProgress(achievement, context)
+    return current >= target
+  })
+}
+
+/**
+ * Add achievement rewards to global bonuses
+ * Rewards stack with technologies: DC multipliers multiply, SLA bonuses add,
+ * reductions combine
+ *
+ * @param globalBonuses Technology (and prestige) bonuses
+ * @param unlocked IDs of unlocked achievements (unknown IDs are skipped)
+ * @returns Global bonuses including achievement rewards
+ */
+export function applyAchievementBonuses(
+  globalBonuses: TechnologyBonuses,
+  unlocked: string[]
+): TechnologyBonuses {
+  const rewards = combineGlobalBonuses(
+    unlocked.flatMap(id => {
+      const reward = getAchievementById(id)?.reward
+      return reward ? [reward] : []
+    })
+  )
+
+  return {
+    dcMultiplier: globalBonuses.dcMultiplier * rewards.dcMultiplier,
+    slaBonus: globalBonuses.slaBonus + rewards.slaBonus,
+    decayMultiplier: globalBonuses.decayMultiplier * rewards.decayMultiplier,
+    incidentMultiplier: globalBonuses.incidentMultiplier * rewards.incidentMultiplier,
+  }
+}
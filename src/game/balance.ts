@@ -6,11 +6,15 @@
  * All formulas reference these constants for easy rebalancing
  */
 
+import type { CarryOverPolicy } from '@/types'
+
 /**
  * TICK TIMING
  */
 export const TICK_INTERVAL_MS = 1000 // 1 second per tick
 export const MAX_TICK_DURATION_MS = 100 // Performance target: ticks should complete in <100ms
+export const MAX_CATCH_UP_TICKS = 60 // Missed ticks replayed after a late wake-up; longer gaps run offline
+export const GAME_SPEEDS = [1, 2, 10, 100] as const // Fast-forward multipliers (debug/balance review)
 
 /**
  * METRIC DECAY
@@ -67,6 +71,13 @@ export const INCIDENT = {
     high: 2.0,
   },
 
+  // DC generation multiplier for datasets with a halts_dc_generation incident
+  // (0 = fully halted, 0.25 = partial output)
+  HALTED_DC_MULTIPLIER: 0,
+
+  // Template weight multiplier per mitigating pipeline/technology (0.5 = half as likely)
+  MITIGATION_MULTIPLIER: 0.5,
+
   // Resolution times (in ticks/seconds)
   RESOLUTION_TIME: {
     MINOR: 30, // 30 seconds
@@ -119,6 +130,19 @@ export const STAFF = {
   SALARY_MAX: 1000, // Senior/expert level
 }
 
+/**
+ * PAYROLL & INSOLVENCY
+ * Salaries are charged every tick; DC may go negative (debt)
+ */
+export const PAYROLL = {
+  // Staff effectiveness while salaries are unpaid (0.5 = half strength)
+  UNPAID_EFFECTIVENESS: 0.5,
+
+  // Ticks of continuous debt before the most expensive staff member quits
+  // (the countdown restarts after each resignation)
+  GRACE_PERIOD_TICKS: 60, // 1 minute
+}
+
 /**
  * PIPELINE EFFECTS
  */
@@ -161,13 +185,54 @@ export const TECHNOLOGY = {
  * PRESTIGE SYSTEM
  */
 export const PRESTIGE = {
-  // Requirements
+  // Requirements (for the first prestige)
   MIN_DATASETS: 10,
   MIN_GLOBAL_SLA: 95, // 95% average
   MIN_LIFETIME_DC: 2000000, // 2 million DC
 
+  // Requirement scaling per prestige level already reached
+  // (datasets don't scale: MIN_DATASETS is already the whole catalogue)
+  SLA_PER_LEVEL: 1, // +1% required global SLA per level
+  MAX_REQUIRED_SLA: 99,
+  LIFETIME_DC_GROWTH: 2, // Each level needs twice the lifetime DC
+
   // Bonuses
   SLA_BONUS_PER_LEVEL: 5, // +5% global SLA per prestige level
+
+  // Prestige points earned per reset: floor(sqrt(lifetimeDC / CURRENCY_DIVISOR))
+  CURRENCY_DIVISOR: 20000, // 2M lifetime DC = 10 points, 8M = 20 points
+
+  // What survives a prestige reset ('keep') and what starts over ('reset')
+  // DC, datasets, incidents and events always reset; prestige points and
+  // upgrades are always kept
+  CARRY_OVER: {
+    unlockedTechnologies: 'keep',
+    purchasedPipelines: 'reset',
+    staff: 'reset',
+  } as CarryOverPolicy,
+}
+
+/**
+ * MILESTONES
+ */
+export const MILESTONES = {
+  // Lifetime DC thresholds (MilestoneReached fires when a tick crosses one)
+  LIFETIME_DC: [1000, 10000, 100000, 1000000, 10000000, 100000000],
+}
+
+/**
+ * HISTORY (time-series for sparklines and charts)
+ */
+export const HISTORY = {
+  // One minute sample every 60 ticks
+  SAMPLE_INTERVAL_TICKS: 60,
+
+  // Ring buffer sizes (oldest samples are dropped)
+  MAX_MINUTE_SAMPLES: 60, // Last hour at minute resolution (must be >= MINUTES_PER_HOUR)
+  MAX_HOUR_SAMPLES: 72, // Last 3 days at hour resolution
+
+  // Minute samples averaged into each hour bucket
+  MINUTES_PER_HOUR: 60,
 }
 
 /**
@@ -191,14 +256,21 @@ export const EVENTS = {
  * OFFLINE PROGRESS
  */
 export const OFFLINE = {
+  // Minimum time away before offline progress (and the report) kicks in
+  MIN_AWAY_TIME: 10, // 10 seconds
+
   // Maximum offline time to simulate (in seconds)
   MAX_SIMULATION_TIME: 86400, // 24 hours
 
   // Offline efficiency (DC generation reduced when offline)
   EFFICIENCY_MULTIPLIER: 0.5, // 50% DC generation while offline
+  MAX_EFFICIENCY_MULTIPLIER: 1.0, // Cap with prestige upgrades
 
   // Tick batch size for offline simulation
   BATCH_SIZE: 60, // Simulate 60 seconds at a time
+
+  // Maximum choice events queued for the player to answer on return
+  MAX_QUEUED_EVENTS: 3,
 }
 
 /**
@@ -216,12 +288,41 @@ export const UI = {
  * PERSISTENCE
  */
 export const SAVE = {
-  // Auto-save interval (in ticks)
-  AUTO_SAVE_INTERVAL: 10, // Save every 10 seconds
+  // Auto-backup interval (in ticks) - the live save is written on every change
+  AUTO_SAVE_INTERVAL: 300, // Back up every 5 minutes
 
-  // Save version (increment when making breaking changes)
-  VERSION: 1,
+  // Rolling backups kept (oldest are deleted first)
+  MAX_BACKUPS: 10,
+
+  // Save version (increment when making breaking changes and register a
+  // migration in store/migrations.ts)
+  VERSION: 6,
 
   // LocalStorage key
   STORAGE_KEY: 'data-empire-save',
+
+  // Save slot index (localStorage) and payload database (IndexedDB)
+  SLOT_INDEX_KEY: 'data-empire-slots',
+  SLOT_DATABASE: 'data-empire-slots',
+
+  // Slot payloads larger than this (in characters) go to IndexedDB
+  LOCAL_SLOT_MAX_SIZE: 64 * 1024,
+}
+
+/**
+ * MULTI-TAB COORDINATION
+ * Only the tab holding the lease ticks and saves; other tabs mirror it
+ */
+export const TAB_SYNC = {
+  // BroadcastChannel used to mirror state to follower tabs
+  CHANNEL: 'data-empire-sync',
+
+  // LocalStorage key of the leader lease
+  LEASE_KEY: 'data-empire-leader',
+
+  // Lease lifetime - a closed or frozen leader is replaced after this
+  LEASE_DURATION_MS: 5000,
+
+  // How often tabs renew or check the lease
+  HEARTBEAT_MS: 1000,
 }
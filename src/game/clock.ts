@@ -0,0 +1,36 @@
+/**
+ * Clock - Injectable time source for the engine
+ * Lets tests and replays run with fixed timestamps instead of the wall clock
+ */
+
+/**
+ * Time source used by the engine
+ */
+export interface Clock {
+  /** Wall-clock time in ms since epoch (used for timestamps) */
+  now: () => number
+  /** High-resolution time in ms (used for performance metrics) */
+  performanceNow: () => number
+}
+
+/**
+ * Real time (Date.now / performance.now)
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  performanceNow: () => performance.now(),
+}
+
+/**
+ * Clock frozen at a fixed time
+ * Performance metrics read as 0, so tick results are fully reproducible
+ *
+ * @param now Timestamp to report
+ * @returns Fixed clock
+ */
+export function createFixedClock(now: number): Clock {
+  return {
+    now: () => now,
+    performanceNow: () => 0,
+  }
+}
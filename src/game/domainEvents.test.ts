@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { collectDomainEvents, type TickChanges } from './domainEvents'
+import { getAllEvents, getStarterDataset } from '@/data/contentLoader'
+import type { Dataset, Incident } from '@/types'
+
+describe('collectDomainEvents', () => {
+  let dataset: Dataset
+  let incident: Incident
+  let changes: TickChanges
+
+  beforeEach(() => {
+    dataset = { ...getStarterDataset(), currentSLA: 100, status: 'ok' }
+    incident = {
+      id: 'incident-1',
+      type: 'hardware-outage',
+      title: 'Test Incident',
+      description: 'Test',
+      dataset_id: dataset.id,
+      metric_impact: { T: -5, A: 0, C: 0 },
+      base_resolution_time: 60,
+      resolution_progress: 0.5,
+      started_at: 0,
+      halts_dc_generation: false,
+    }
+    changes = {
+      previousDatasets: [dataset],
+      datasets: [dataset],
+      previousIncidents: [],
+      incidents: [],
+      newIncidents: [],
+      newEvent: null,
+      previousLifetimeDC: 0,
+      lifetimeDC: 0,
+    }
+  })
+
+  it('returns nothing for a quiet tick', () => {
+    expect(collectDomainEvents(changes)).toEqual([])
+  })
+
+  it('reports started and resolved incidents', () => {
+    const started = { ...incident, id: 'incident-2' }
+
+    const events = collectDomainEvents({
+      ...changes,
+      previousIncidents: [incident],
+      newIncidents: [started],
+    })
+
+    expect(events).toEqual([
+      { type: 'IncidentResolved', incident },
+      { type: 'IncidentStarted', incident: started },
+    ])
+  })
+
+  it('reports status changes and SLA breaches', () => {
+    const failing: Dataset = { ...dataset, currentSLA: 40, status: 'failing' }
+
+    const events = collectDomainEvents({ ...changes, datasets: [failing] })
+
+    expect(events).toEqual([
+      { type: 'DatasetStatusChanged', datasetId: dataset.id, from: 'ok', to: 'failing' },
+      { type: 'SLABreached', datasetId: dataset.id, sla: 40, target: expect.any(Number) },
+    ])
+  })
+
+  it('only reports a breach when the SLA crosses its target', () => {
+    const before: Dataset = { ...dataset, currentSLA: 40, status: 'failing' }
+    const after: Dataset = { ...dataset, currentSLA: 30, status: 'failing' }
+
+    expect(
+      collectDomainEvents({ ...changes, previousDatasets: [before], datasets: [after] })
+    ).toEqual([])
+  })
+
+  it('reports triggered events', () => {
+    const event = getAllEvents()[0]
+
+    expect(collectDomainEvents({ ...changes, newEvent: event })).toEqual([
+      { type: 'EventTriggered', event },
+    ])
+  })
+
+  it('reports every lifetime DC milestone crossed', () => {
+    const events = collectDomainEvents({ ...changes, previousLifetimeDC: 999, lifetimeDC: 10000 })
+
+    expect(events).toEqual([
+      { type: 'MilestoneReached', metric: 'lifetimeDC', threshold: 1000 },
+      { type: 'MilestoneReached', metric: 'lifetimeDC', threshold: 10000 },
+    ])
+    expect(collectDomainEvents({ ...changes, previousLifetimeDC: 1000, lifetimeDC: 2000 })).toEqual(
+      []
+    )
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Domain Events
+ * Works out what happened during a tick by comparing state before and after
+ */
+
+import type { Dataset, DomainEvent, Event, Incident } from '@/types'
+import { calculateSLA } from './formulas'
+import { MILESTONES } from './balance'
+
+/**
+ * State before and after a tick
+ */
+export interface TickChanges {
+  previousDatasets: Dataset[]
+  datasets: Dataset[]
+  /** Incidents active at the start of the tick */
+  previousIncidents: Incident[]
+  /** Incidents still active after resolution progress */
+  incidents: Incident[]
+  newIncidents: Incident[]
+  newEvent: Event | null
+  previousLifetimeDC: number
+  lifetimeDC: number
+}
+
+/**
+ * Collect the domain events for a tick
+ * Events are ordered: resolutions, dataset changes, new incidents, the new
+ * event, then milestones
+ *
+ * @param changes State before and after the tick
+ * @returns Domain events (empty if nothing happened)
+ */
+export function collectDomainEvents(changes: TickChanges): DomainEvent[] {
+  const events: DomainEvent[] = []
+
+  // Incidents that were active and no longer are
+  const remaining = new Set(changes.incidents.map(incident => incident.id))
+  changes.previousIncidents
+    .filter(incident => !remaining.has(incident.id))
+    .forEach(incident => events.push({ type: 'IncidentResolved', incident }))
+
+  // Dataset status changes and SLA breaches (datasets unlocked mid-tick are skipped)
+  const previousDatasets = new Map(changes.previousDatasets.map(dataset => [dataset.id, dataset]))
+  changes.datasets.forEach(dataset => {
+    const previous = previousDatasets.get(dataset.id)
+    if (!previous) return
+
+    if (previous.status !== dataset.status) {
+      events.push({
+        type: 'DatasetStatusChanged',
+        datasetId: dataset.id,
+        from: previous.status,
+        to: dataset.status,
+      })
+    }
+
+    const target = calculateSLA(dataset.sla_targets)
+    if (previous.currentSLA >= target && dataset.currentSLA < target) {
+      events.push({ type: 'SLABreached', datasetId: dataset.id, sla: dataset.currentSLA, target })
+    }
+  })
+
+  changes.newIncidents.forEach(incident => events.push({ type: 'IncidentStarted', incident }))
+
+  if (changes.newEvent) {
+    events.push({ type: 'EventTriggered', event: changes.newEvent })
+  }
+
+  MILESTONES.LIFETIME_DC.filter(
+    threshold => changes.previousLifetimeDC < threshold && changes.lifetimeDC >= threshold
+  ).forEach(threshold => events.push({ type: 'MilestoneReached', metric: 'lifetimeDC', threshold }))
+
+  return events
+}
@@ -5,16 +5,35 @@
  * This is the "heart" of the game loop that runs every second
  */
 
-import type { Dataset, Staff, Incident, Event } from '@/types'
+import type { Dataset, Staff, Incident, Event, EventHistory, DomainEvent } from '@/types'
 import {
   applyMetricDecay,
-  calculateSLA,
-  calculateTotalDC,
+  calculateEffectiveSLA,
+  calculateDCByDataset,
   calculateDatasetStatus,
   calculateIncidentChance,
+  calculateGlobalSLA,
   applyStaffBonuses,
 } from './formulas'
-import { BASE_DECAY_RATE, INCIDENT } from './balance'
+import { INCIDENT } from './balance'
+import {
+  calculateDatasetModifiers,
+  calculateTechnologyBonuses,
+  type DatasetModifierBreakdown,
+} from './modifiers'
+import { createEventHistory, rollForEvent } from './events'
+import { getEffectiveStaff, processPayroll } from './payroll'
+import { selectIncidentTemplate, createIncidentFromTemplate } from './incidents'
+import { resolveRng, type EngineDependencies } from './random'
+import { collectDomainEvents } from './domainEvents'
+import {
+  applyPrestigeBonuses,
+  calculatePrestigeBonuses,
+  type PrestigeUpgradeLevels,
+} from './prestige'
+import { applyAchievementBonuses } from './achievements'
+import { systemClock } from './clock'
+import { getAllEvents, getAllIncidentTemplates } from '@/data/contentLoader'
 
 /**
  * Result of processing a game tick
@@ -22,14 +41,30 @@ import { BASE_DECAY_RATE, INCIDENT } from './balance'
 export interface TickResult {
   /** DC generated this tick */
   dcGenerated: number
+  /** DC generated this tick, keyed by dataset ID */
+  dcByDataset: Record<string, number>
+  /** Salaries charged this tick */
+  salaryCost: number
+  /** Staff still employed after payroll */
+  updatedStaff: Staff[]
+  /** Staff who quit this tick because they weren't paid */
+  staffQuit: Staff[]
+  /** Consecutive ticks spent in debt after this tick (0 = solvent) */
+  unpaidTicks: number
   /** New incidents spawned this tick */
   newIncidents: Incident[]
   /** New event triggered (if any) */
   newEvent: Event | null
+  /** Event scheduler history after this tick */
+  updatedEventHistory: EventHistory
   /** Updated datasets after all processing */
   updatedDatasets: Dataset[]
   /** Updated incidents after resolution progress */
   updatedIncidents: Incident[]
+  /** Random generator state after this tick (the next tick's rngSeed) */
+  rngSeed: number
+  /** What happened this tick, in order (see game/domainEvents.ts) */
+  events: DomainEvent[]
   /** Performance metrics */
   performance: {
     tickDurationMs: number
@@ -39,6 +74,26 @@ export interface TickResult {
   }
 }
 
+/**
+ * Game state read by processTick
+ */
+export interface TickState {
+  datasets: Dataset[]
+  staff: Staff[]
+  activeIncidents: Incident[]
+  currentEvent: Event | null
+  dc: number
+  lifetimeDC: number
+  prestigeLevel: number
+  prestigeUpgrades?: PrestigeUpgradeLevels
+  /** IDs of unlocked achievements (their rewards apply globally) */
+  achievements?: string[]
+  unlockedTechnologies?: string[]
+  eventHistory?: EventHistory
+  unpaidTicks?: number
+  rngSeed?: number
+}
+
 /**
  * Process a single game tick
  * This is called every second by the game loop
@@ -48,107 +103,220 @@ export interface TickResult {
  * 2. Apply staff bonuses to counteract decay
  * 3. Process active incidents (reduce metrics, update progress)
  * 4. Calculate SLA and dataset status
- * 5. Generate DC based on current SLA
+ * 5. Generate DC based on current SLA, then charge salaries
  * 6. Roll for new incidents
  * 7. Roll for random events
- * 8. Return all updates
+ * 8. Collect domain events and return all updates
+ *
+ * Same state (including rngSeed) + same clock = identical TickResult
  *
  * @param state Current game state snapshot
+ * @param deps Injected random number generator and clock
  * @returns Tick result with all updates
  */
-export function processTick(state: {
-  datasets: Dataset[]
-  staff: Staff[]
-  activeIncidents: Incident[]
-  currentEvent: Event | null
-  dc: number
-  lifetimeDC: number
-  prestigeLevel: number
-}): TickResult {
-  const startTime = performance.now()
+export function processTick(state: TickState, deps: EngineDependencies = {}): TickResult {
+  const clock = deps.clock ?? systemClock
+  const rng = resolveRng(state.rngSeed, deps)
+  const startTime = clock.performanceNow()
   const perfMetrics = {
     tickDurationMs: 0,
     decayTimeMs: 0,
     incidentTimeMs: 0,
     dcCalcTimeMs: 0,
   }
+  const eventHistory = state.eventHistory ?? createEventHistory()
+  const unpaidTicks = state.unpaidTicks ?? 0
 
   // Don't process game logic if there's an active event (game is paused)
   if (state.currentEvent !== null) {
     return {
       dcGenerated: 0,
+      dcByDataset: {},
+      salaryCost: 0,
+      updatedStaff: state.staff,
+      staffQuit: [],
+      unpaidTicks,
       newIncidents: [],
       newEvent: null,
+      updatedEventHistory: eventHistory,
       updatedDatasets: state.datasets,
       updatedIncidents: state.activeIncidents,
+      rngSeed: rng.getSeed(),
+      events: [],
       performance: perfMetrics,
     }
   }
 
+  // Unpaid staff work at reduced effectiveness
+  const staff = getEffectiveStaff(state.staff, unpaidTicks)
+
+  // Technology + prestige + achievement bonuses and pipeline reductions (none change mid-tick)
+  const unlockedTechnologies = state.unlockedTechnologies ?? []
+  const techBonuses = applyAchievementBonuses(
+    applyPrestigeBonuses(
+      calculateTechnologyBonuses(unlockedTechnologies),
+      calculatePrestigeBonuses(state.prestigeLevel, state.prestigeUpgrades)
+    ),
+    state.achievements ?? []
+  )
+  const modifiers = new Map<string, DatasetModifierBreakdown>(
+    state.datasets.map(dataset => [dataset.id, calculateDatasetModifiers(dataset, techBonuses)])
+  )
+
   // Step 1: Apply metric decay to all datasets
-  const decayStart = performance.now()
+  const decayStart = clock.performanceNow()
   let datasets = state.datasets.map(dataset => {
-    // Calculate effective decay rate (base - pipeline reductions)
-    const decayReduction = dataset.pipelines_installed.length * 0.01 // Simplified for now
-    const effectiveDecayRate = Math.max(0.01, BASE_DECAY_RATE - decayReduction)
-
-    // Apply decay
+    // Apply decay at the pipeline-reduced rate
+    const { effectiveDecayRate } = modifiers.get(dataset.id)!
     const decayed = applyMetricDecay(dataset, effectiveDecayRate)
 
     // Apply staff bonuses to counteract decay (in same step)
-    return state.staff.length > 0 ? applyStaffBonuses(decayed, state.staff) : decayed
+    return staff.length > 0 ? applyStaffBonuses(decayed, staff) : decayed
   })
-  perfMetrics.decayTimeMs = performance.now() - decayStart
+  perfMetrics.decayTimeMs = clock.performanceNow() - decayStart
 
   // Step 3: Process active incidents
-  const incidentStart = performance.now()
+  const incidentStart = clock.performanceNow()
   const { updatedDatasets: datasetsAfterIncidents, updatedIncidents } = processIncidents(
     datasets,
     state.activeIncidents,
-    state.staff
+    staff
   )
   datasets = datasetsAfterIncidents
-  perfMetrics.incidentTimeMs = performance.now() - incidentStart
+  perfMetrics.incidentTimeMs = clock.performanceNow() - incidentStart
 
   // Step 4: Update SLA and status for all datasets
   datasets = datasets.map(dataset => ({
     ...dataset,
-    currentSLA: calculateSLA(dataset.current_metrics),
-    status: calculateDatasetStatus(dataset),
+    currentSLA: calculateEffectiveSLA(dataset.current_metrics, techBonuses.slaBonus),
+    status: calculateDatasetStatus(dataset, techBonuses.slaBonus),
   }))
 
   // Step 5: Calculate DC generation
-  const dcCalcStart = performance.now()
-  const dcGenerated = calculateTotalDC(datasets, state.staff)
-  perfMetrics.dcCalcTimeMs = performance.now() - dcCalcStart
+  const dcCalcStart = clock.performanceNow()
+  const dcByDataset = calculateDCByDataset(datasets, staff, techBonuses, updatedIncidents)
+  const dcGenerated = Object.values(dcByDataset).reduce((total, dc) => total + dc, 0)
+
+  // Charge salaries (may push the balance into debt)
+  const payroll = processPayroll(state.dc + dcGenerated, state.staff, unpaidTicks)
+  perfMetrics.dcCalcTimeMs = clock.performanceNow() - dcCalcStart
 
-  // Step 6: Roll for new incidents
+  // Step 6: Roll for new incidents (template picked by dataset risk/volume/mitigations)
   const newIncidents: Incident[] = []
+  const incidentTemplates = getAllIncidentTemplates()
   datasets.forEach(dataset => {
-    const incidentChance = calculateIncidentChance(dataset)
-    if (Math.random() < incidentChance) {
-      // Spawn incident (simplified - will be expanded with incident templates)
-      const incident = createIncident(dataset)
-      newIncidents.push(incident)
+    const incidentChance = calculateIncidentChance(
+      dataset,
+      INCIDENT.BASE_CHANCE,
+      modifiers.get(dataset.id)?.incidentMultiplier
+    )
+    if (rng.next() < incidentChance) {
+      const template = selectIncidentTemplate(
+        incidentTemplates,
+        dataset,
+        unlockedTechnologies,
+        rng.next
+      )
+      if (template) {
+        newIncidents.push(createIncidentFromTemplate(template, dataset, clock.now(), rng.next))
+      }
     }
   })
 
-  // Step 7: Roll for random events (TODO: implement event system)
-  const newEvent: Event | null = null // Placeholder for Phase 6
+  // Step 7: Roll for random events (cooldown + trigger conditions + chance)
+  const { event: newEvent, history: updatedEventHistory } = rollForEvent(
+    getAllEvents(),
+    {
+      globalSLA: calculateGlobalSLA(datasets, techBonuses.slaBonus),
+      dc: state.dc,
+      unlockedTechnologies,
+    },
+    eventHistory,
+    rng.next
+  )
+
+  // Step 8: Report what happened
+  const events = collectDomainEvents({
+    previousDatasets: state.datasets,
+    datasets,
+    previousIncidents: state.activeIncidents,
+    incidents: updatedIncidents,
+    newIncidents,
+    newEvent,
+    previousLifetimeDC: state.lifetimeDC,
+    lifetimeDC: state.lifetimeDC + dcGenerated,
+  })
 
   // Calculate total tick duration
-  perfMetrics.tickDurationMs = performance.now() - startTime
+  perfMetrics.tickDurationMs = clock.performanceNow() - startTime
 
   return {
     dcGenerated,
+    dcByDataset,
+    salaryCost: payroll.salaryCost,
+    updatedStaff: payroll.remainingStaff,
+    staffQuit: payroll.quitStaff,
+    unpaidTicks: payroll.unpaidTicks,
     newIncidents,
     newEvent,
+    updatedEventHistory,
     updatedDatasets: datasets,
     updatedIncidents,
+    rngSeed: rng.getSeed(),
+    events,
     performance: perfMetrics,
   }
 }
 
+/**
+ * Apply a tick result to the state it was computed from
+ * Gives the state the next tick starts from
+ *
+ * @param state State the tick ran on
+ * @param result Result of processTick(state)
+ * @returns State after the tick
+ */
+export function advanceTickState(state: TickState, result: TickResult): TickState {
+  return {
+    ...state,
+    datasets: result.updatedDatasets,
+    staff: result.updatedStaff,
+    activeIncidents: [...result.updatedIncidents, ...result.newIncidents],
+    currentEvent: result.newEvent ?? state.currentEvent,
+    dc: state.dc + result.dcGenerated - result.salaryCost,
+    lifetimeDC: state.lifetimeDC + result.dcGenerated,
+    eventHistory: result.updatedEventHistory,
+    unpaidTicks: result.unpaidTicks,
+    rngSeed: result.rngSeed,
+  }
+}
+
+/**
+ * Process several ticks in a row, each starting from the previous result
+ * Stops early when an event triggers, since the game pauses until the
+ * player responds
+ *
+ * @param state Current game state snapshot
+ * @param count Number of ticks to run
+ * @param deps Injected random number generator and clock
+ * @returns One result per tick run, in order
+ */
+export function processTicks(
+  state: TickState,
+  count: number,
+  deps: EngineDependencies = {}
+): TickResult[] {
+  const results: TickResult[] = []
+  let current = state
+  for (let i = 0; i < count; i++) {
+    const result = processTick(current, deps)
+    results.push(result)
+    if (result.newEvent) break
+    current = advanceTickState(current, result)
+  }
+  return results
+}
+
 /**
  * Process all active incidents
  * Updates incident progress and applies metric penalties
@@ -182,6 +350,7 @@ function processIncidents(
       return {
         ...incident,
         resolution_progress: newProgress,
+        ticks_active: (incident.ticks_active ?? 0) + 1,
       }
     })
     .filter(incident => incident.resolution_progress < 1.0) // Remove resolved incidents
@@ -219,128 +388,9 @@ function processIncidents(
   }
 }
 
-/**
- * Create a new incident for a dataset
- * TODO: Load from incident templates in Phase 6
- *
- * @param dataset Dataset to create incident for
- * @returns New incident instance
- */
-function createIncident(dataset: Dataset): Incident {
-  // Simplified incident creation - will be expanded with templates
-  const incidentTypes: Array<{
-    type: Incident['type']
-    title: string
-    description: string
-    impact: Incident['metric_impact']
-    resolutionTime: number
-    haltsDC: boolean
-  }> = [
-    {
-      type: 'data-delay',
-      title: 'Data Delay',
-      description: `${dataset.name} is experiencing upstream delays`,
-      impact: INCIDENT.IMPACT.MINOR,
-      resolutionTime: INCIDENT.RESOLUTION_TIME.MINOR,
-      haltsDC: false,
-    },
-    {
-      type: 'corrupted-batch',
-      title: 'Corrupted Batch',
-      description: `Data quality issue detected in ${dataset.name}`,
-      impact: INCIDENT.IMPACT.MODERATE,
-      resolutionTime: INCIDENT.RESOLUTION_TIME.MODERATE,
-      haltsDC: false,
-    },
-    {
-      type: 'pipeline-failure',
-      title: 'Pipeline Failure',
-      description: `Critical pipeline failure in ${dataset.name}`,
-      impact: INCIDENT.IMPACT.MAJOR,
-      resolutionTime: INCIDENT.RESOLUTION_TIME.MAJOR,
-      haltsDC: true,
-    },
-  ]
-
-  // Select random incident type
-  const template = incidentTypes[Math.floor(Math.random() * incidentTypes.length)]
-
-  return {
-    id: `incident-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-    type: template.type,
-    title: template.title,
-    description: template.description,
-    dataset_id: dataset.id,
-    metric_impact: template.impact,
-    base_resolution_time: template.resolutionTime,
-    resolution_progress: 0,
-    started_at: Date.now(),
-    halts_dc_generation: template.haltsDC,
-  }
-}
-
-/**
- * Calculate offline progress when player returns
- * Simulates ticks in batches for performance
- *
- * @param state Last saved game state
- * @param secondsElapsed Time since last tick
- * @returns Updated state after offline simulation
- */
-export function calculateOfflineProgress(
-  state: {
-    datasets: Dataset[]
-    staff: Staff[]
-    activeIncidents: Incident[]
-    dc: number
-    lifetimeDC: number
-    prestigeLevel: number
-  },
-  secondsElapsed: number
-): {
-  dcEarned: number
-  ticksSimulated: number
-  finalDatasets: Dataset[]
-} {
-  // Cap offline progress at 24 hours (balance constant)
-  const MAX_OFFLINE_SECONDS = 86400
-  const ticksToSimulate = Math.min(secondsElapsed, MAX_OFFLINE_SECONDS)
-
-  // Offline efficiency: 50% DC generation while offline
-  const OFFLINE_EFFICIENCY = 0.5
-
-  let totalDCEarned = 0
-  let currentDatasets = state.datasets
-  let ticksProcessed = 0
-
-  // Simulate in batches of 60 seconds for performance
-  const BATCH_SIZE = 60
-  const batches = Math.ceil(ticksToSimulate / BATCH_SIZE)
-
-  for (let batch = 0; batch < batches; batch++) {
-    const ticksInBatch = Math.min(BATCH_SIZE, ticksToSimulate - ticksProcessed)
-
-    // Process batch
-    const result = processTick({
-      ...state,
-      datasets: currentDatasets,
-      activeIncidents: [], // Clear incidents during offline (too complex to simulate)
-      currentEvent: null,
-    })
-
-    // Apply offline efficiency to DC generation
-    const batchDC = result.dcGenerated * ticksInBatch * OFFLINE_EFFICIENCY
-    totalDCEarned += batchDC
-
-    // Update datasets for next batch
-    currentDatasets = result.updatedDatasets
-
-    ticksProcessed += ticksInBatch
-  }
-
-  return {
-    dcEarned: Math.floor(totalDCEarned),
-    ticksSimulated: ticksProcessed,
-    finalDatasets: currentDatasets,
-  }
-}
+// Offline progress is simulated in batches rather than tick-by-tick
+export {
+  calculateOfflineProgress,
+  type OfflineProgressState,
+  type OfflineProgressResult,
+} from './offline'
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createEventHistory,
+  meetsTriggerConditions,
+  getEligibleEvents,
+  getEventTriggerChance,
+  rollForEvent,
+  rollForEventOverTicks,
+  type EventContext,
+} from './events'
+import { EVENTS } from './balance'
+import type { Event, EventHistory } from '@/types'
+
+const createEvent = (id: string, overrides: Partial<Event> = {}): Event => ({
+  id,
+  title: `Event ${id}`,
+  message: 'Test',
+  type: 'choice',
+  choices: [],
+  trigger_chance: 0.5,
+  ...overrides,
+})
+
+const context: EventContext = {
+  globalSLA: 90,
+  dc: 10000,
+  unlockedTechnologies: ['ci-cd-automation'],
+}
+
+const offCooldown = (overrides: Partial<EventHistory> = {}): EventHistory => ({
+  ...createEventHistory(),
+  ticksSinceLastEvent: EVENTS.MIN_COOLDOWN,
+  ...overrides,
+})
+
+describe('meetsTriggerConditions', () => {
+  it('passes events without conditions', () => {
+    expect(meetsTriggerConditions(createEvent('a'), context)).toBe(true)
+  })
+
+  it('checks min_sla and max_sla', () => {
+    expect(
+      meetsTriggerConditions(createEvent('a', { trigger_conditions: { min_sla: 95 } }), context)
+    ).toBe(false)
+    expect(
+      meetsTriggerConditions(createEvent('a', { trigger_conditions: { max_sla: 85 } }), context)
+    ).toBe(false)
+    expect(
+      meetsTriggerConditions(
+        createEvent('a', { trigger_conditions: { min_sla: 85, max_sla: 95 } }),
+        context
+      )
+    ).toBe(true)
+  })
+
+  it('checks min_dc', () => {
+    expect(
+      meetsTriggerConditions(createEvent('a', { trigger_conditions: { min_dc: 20000 } }), context)
+    ).toBe(false)
+  })
+
+  it('checks requires_tech', () => {
+    expect(
+      meetsTriggerConditions(
+        createEvent('a', { trigger_conditions: { requires_tech: 'ai-ops' } }),
+        context
+      )
+    ).toBe(false)
+    expect(
+      meetsTriggerConditions(
+        createEvent('a', { trigger_conditions: { requires_tech: 'ci-cd-automation' } }),
+        context
+      )
+    ).toBe(true)
+  })
+})
+
+describe('getEventTriggerChance', () => {
+  it('falls back to EVENTS.BASE_CHANCE', () => {
+    expect(getEventTriggerChance(createEvent('a', { trigger_chance: undefined }))).toBe(
+      EVENTS.BASE_CHANCE
+    )
+    expect(getEventTriggerChance(createEvent('a', { trigger_chance: 0.01 }))).toBe(0.01)
+  })
+})
+
+describe('getEligibleEvents', () => {
+  it('excludes the most recent event', () => {
+    const events = [createEvent('a'), createEvent('b')]
+    const eligible = getEligibleEvents(events, context, offCooldown({ lastEventId: 'a' }))
+    expect(eligible.map(e => e.id)).toEqual(['b'])
+  })
+})
+
+describe('rollForEvent', () => {
+  const events = [createEvent('a'), createEvent('b')]
+
+  it('does not fire during cooldown', () => {
+    const result = rollForEvent(events, context, createEventHistory(), () => 0)
+    expect(result.event).toBeNull()
+    expect(result.history.ticksSinceLastEvent).toBe(1)
+  })
+
+  it('fires once the cooldown has elapsed', () => {
+    const result = rollForEvent(events, context, offCooldown(), () => 0)
+    expect(result.event?.id).toBe('a')
+    expect(result.history.ticksSinceLastEvent).toBe(0)
+    expect(result.history.lastEventId).toBe('a')
+    expect(result.history.triggerCounts).toEqual({ a: 1 })
+  })
+
+  it('does not fire when the chance roll fails', () => {
+    const result = rollForEvent(events, context, offCooldown(), () => 0.99)
+    expect(result.event).toBeNull()
+    expect(result.history.ticksSinceLastEvent).toBe(EVENTS.MIN_COOLDOWN + 1)
+  })
+
+  it('picks events weighted by trigger chance', () => {
+    const rolls = [0, 0.9]
+    const result = rollForEvent(events, context, offCooldown(), () => rolls.shift()!)
+    expect(result.event?.id).toBe('b')
+  })
+
+  it('never fires the same event back to back', () => {
+    const result = rollForEvent(events, context, offCooldown({ lastEventId: 'a' }), () => 0)
+    expect(result.event?.id).toBe('b')
+  })
+
+  it('does not fire when no event meets its conditions', () => {
+    const gated = [createEvent('a', { trigger_conditions: { min_dc: 1e9 } })]
+    const result = rollForEvent(gated, context, offCooldown(), () => 0)
+    expect(result.event).toBeNull()
+  })
+})
+
+describe('rollForEventOverTicks', () => {
+  const events = [createEvent('a', { trigger_chance: 0.01 })]
+
+  it('does not fire if the whole span is on cooldown', () => {
+    const result = rollForEventOverTicks(events, context, createEventHistory(), 60, () => 0)
+    expect(result.event).toBeNull()
+    expect(result.history.ticksSinceLastEvent).toBe(60)
+  })
+
+  it('only rolls for ticks past the cooldown', () => {
+    const history = createEventHistory()
+    history.ticksSinceLastEvent = EVENTS.MIN_COOLDOWN - 10
+
+    // 51 eligible ticks: 1 - 0.99^51 ≈ 0.401
+    expect(rollForEventOverTicks(events, context, history, 60, () => 0.39).event?.id).toBe('a')
+    expect(rollForEventOverTicks(events, context, history, 60, () => 0.41).event).toBeNull()
+  })
+})
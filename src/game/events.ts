@@ -0,0 +1,198 @@
+/**
+ * Event Scheduler
+ * Decides when random events from events.json are triggered
+ *
+ * An event can only fire when:
+ * 1. The global cooldown (EVENTS.MIN_COOLDOWN ticks) has elapsed
+ * 2. All of its trigger_conditions are met
+ * 3. It was not the most recent event (no back-to-back repeats)
+ * 4. Its trigger_chance roll succeeds (EVENTS.BASE_CHANCE if unset)
+ *
+ * All functions are pure - randomness is passed in for testability
+ */
+
+import type { Event, EventHistory } from '@/types'
+import { EVENTS } from './balance'
+
+/**
+ * Game state the trigger conditions are checked against
+ */
+export interface EventContext {
+  /** Current global SLA (0-100) */
+  globalSLA: number
+  /** Current DC balance */
+  dc: number
+  /** IDs of unlocked technologies */
+  unlockedTechnologies: string[]
+}
+
+/**
+ * Result of rolling for an event this tick
+ */
+export interface EventRollResult {
+  /** Event that fired (null if none) */
+  event: Event | null
+  /** Updated scheduler history */
+  history: EventHistory
+}
+
+/**
+ * Create an empty event history
+ * A fresh game starts on cooldown so the player isn't interrupted immediately
+ */
+export function createEventHistory(): EventHistory {
+  return {
+    ticksSinceLastEvent: 0,
+    lastEventId: null,
+    triggerCounts: {},
+  }
+}
+
+/**
+ * Check whether an event's trigger conditions are met
+ *
+ * @param event Event to check
+ * @param context Current game state
+ * @returns True if every condition is satisfied (or there are none)
+ */
+export function meetsTriggerConditions(event: Event, context: EventContext): boolean {
+  const conditions = event.trigger_conditions
+  if (!conditions) return true
+
+  if (conditions.min_sla !== undefined && context.globalSLA < conditions.min_sla) {
+    return false
+  }
+  if (conditions.max_sla !== undefined && context.globalSLA >= conditions.max_sla) {
+    return false
+  }
+  if (conditions.min_dc !== undefined && context.dc < conditions.min_dc) {
+    return false
+  }
+  if (
+    conditions.requires_tech !== undefined &&
+    !context.unlockedTechnologies.includes(conditions.requires_tech)
+  ) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Get the per-tick trigger chance for an event
+ * Falls back to EVENTS.BASE_CHANCE when the event doesn't define one
+ *
+ * @param event Event to check
+ * @returns Trigger probability per tick (0-1)
+ */
+export function getEventTriggerChance(event: Event): number {
+  return event.trigger_chance ?? EVENTS.BASE_CHANCE
+}
+
+/**
+ * Get all events that could fire this tick
+ * Ignores the global cooldown (see rollForEvent)
+ *
+ * @param events Event catalogue
+ * @param context Current game state
+ * @param history Scheduler history
+ * @returns Events whose conditions are met and that didn't fire last
+ */
+export function getEligibleEvents(
+  events: Event[],
+  context: EventContext,
+  history: EventHistory
+): Event[] {
+  return events.filter(
+    event => event.id !== history.lastEventId && meetsTriggerConditions(event, context)
+  )
+}
+
+/**
+ * Roll for a random event
+ * Advances the cooldown by one tick, then gives every eligible event an
+ * independent chance to fire. If several would fire, one is picked weighted
+ * by its trigger chance - at most one event fires per tick.
+ *
+ * @param events Event catalogue
+ * @param context Current game state
+ * @param history Scheduler history from the previous tick
+ * @param random Random number source in [0, 1) (default Math.random)
+ * @returns The fired event (if any) and updated history
+ */
+export function rollForEvent(
+  events: Event[],
+  context: EventContext,
+  history: EventHistory,
+  random: () => number = Math.random
+): EventRollResult {
+  return rollForEventOverTicks(events, context, history, 1, random)
+}
+
+/**
+ * Roll for a random event across several ticks at once
+ * Equivalent to calling rollForEvent once per tick (stopping at the first
+ * event), assuming the context stays the same for the whole span. Used by
+ * the offline simulator.
+ *
+ * @param events Event catalogue
+ * @param context Game state for the span
+ * @param history Scheduler history before the span
+ * @param ticks Number of ticks in the span
+ * @param random Random number source in [0, 1) (default Math.random)
+ * @returns The fired event (if any) and updated history
+ */
+export function rollForEventOverTicks(
+  events: Event[],
+  context: EventContext,
+  history: EventHistory,
+  ticks: number,
+  random: () => number = Math.random
+): EventRollResult {
+  const ticked: EventHistory = {
+    ...history,
+    ticksSinceLastEvent: history.ticksSinceLastEvent + ticks,
+  }
+
+  // Ticks in the span that are past the cooldown
+  const eligibleTicks = Math.min(ticks, ticked.ticksSinceLastEvent - EVENTS.MIN_COOLDOWN + 1)
+  if (eligibleTicks <= 0) {
+    return { event: null, history: ticked }
+  }
+
+  const eligible = getEligibleEvents(events, context, ticked)
+  if (eligible.length === 0) {
+    return { event: null, history: ticked }
+  }
+
+  // Chance that at least one eligible event fires: 1 - Π(1 - p) per tick
+  const chances = eligible.map(getEventTriggerChance)
+  const noneFire = chances.reduce((product, chance) => product * (1 - chance), 1)
+  if (random() >= 1 - Math.pow(noneFire, eligibleTicks)) {
+    return { event: null, history: ticked }
+  }
+
+  // Pick which event fired, weighted by trigger chance
+  const totalChance = chances.reduce((sum, chance) => sum + chance, 0)
+  let roll = random() * totalChance
+  let event = eligible[eligible.length - 1]
+  for (let i = 0; i < eligible.length; i++) {
+    roll -= chances[i]
+    if (roll < 0) {
+      event = eligible[i]
+      break
+    }
+  }
+
+  return {
+    event,
+    history: {
+      ticksSinceLastEvent: 0,
+      lastEventId: event.id,
+      triggerCounts: {
+        ...ticked.triggerCounts,
+        [event.id]: (ticked.triggerCounts[event.id] ?? 0) + 1,
+      },
+    },
+  }
+}
@@ -1,17 +1,26 @@
 import { describe, it, expect } from 'vitest'
 import {
   calculateSLA,
+  calculateEffectiveSLA,
   calculateDatasetDC,
+  calculateTotalDC,
+  calculateDCByDataset,
+  getHaltingIncidents,
+  calculateIncidentDCMultiplier,
   calculateStaffMultiplier,
   applyMetricDecay,
+  combineReductions,
+  calculateDecayRate,
   applyPipelineEffects,
   calculateDatasetStatus,
   calculateIncidentChance,
   calculateGlobalSLA,
   canPrestige,
+  calculatePrestigeRequirements,
   calculatePrestigeBonus,
 } from './formulas'
-import type { Dataset, Staff, Pipeline } from '@/types'
+import { MIN_DECAY_RATE, MAX_DECAY_RATE } from './balance'
+import type { Dataset, Staff, Pipeline, Incident } from '@/types'
 
 describe('calculateSLA', () => {
   it('calculates weighted SLA correctly (40/40/20)', () => {
@@ -35,6 +44,16 @@ describe('calculateSLA', () => {
   })
 })
 
+describe('calculateEffectiveSLA', () => {
+  it('adds the SLA bonus', () => {
+    expect(calculateEffectiveSLA({ T: 50, A: 50, C: 50 }, 5)).toBe(55)
+  })
+
+  it('clamps to 100', () => {
+    expect(calculateEffectiveSLA({ T: 99, A: 99, C: 99 }, 5)).toBe(100)
+  })
+})
+
 describe('calculateDatasetDC', () => {
   const mockDataset: Dataset = {
     id: 'test',
@@ -68,6 +87,14 @@ describe('calculateDatasetDC', () => {
     expect(dcWithBonus).toBe(dcWithoutBonus * 1.5)
   })
 
+  it('applies the technology SLA bonus', () => {
+    const dataset = {
+      ...mockDataset,
+      current_metrics: { T: 50, A: 50, C: 50 },
+    }
+    expect(calculateDatasetDC(dataset, 1.0, 10)).toBeCloseTo(0.6, 5)
+  })
+
   it('generates 0 DC at 0% SLA', () => {
     const dataset = {
       ...mockDataset,
@@ -77,6 +104,87 @@ describe('calculateDatasetDC', () => {
   })
 })
 
+describe('calculateTotalDC', () => {
+  const mockDataset: Dataset = {
+    id: 'test',
+    name: 'Test Dataset',
+    description: 'Test',
+    base_dc: 60,
+    volume: 100,
+    risk_rating: 'low',
+    sla_targets: { T: 95, A: 95, C: 95 },
+    current_metrics: { T: 50, A: 50, C: 50 },
+    pipelines_installed: [],
+    currentSLA: 50,
+    status: 'failing',
+  }
+
+  it('sums DC across datasets', () => {
+    expect(calculateTotalDC([mockDataset, mockDataset], [])).toBe(1)
+  })
+
+  it('applies technology DC multiplier and SLA bonus', () => {
+    const bonuses = { dcMultiplier: 2, slaBonus: 10, decayMultiplier: 1, incidentMultiplier: 1 }
+    // 60 * 0.6 * 2 / 60
+    expect(calculateTotalDC([mockDataset], [], bonuses)).toBeCloseTo(1.2, 5)
+  })
+
+  it('splits DC by dataset', () => {
+    expect(calculateDCByDataset([mockDataset, { ...mockDataset, id: 'other' }], [])).toEqual({
+      test: 0.5,
+      other: 0.5,
+    })
+  })
+})
+
+describe('halting incidents', () => {
+  const createIncident = (datasetId: string, halts: boolean): Incident => ({
+    id: `incident-${datasetId}-${halts}`,
+    type: 'pipeline-failure',
+    title: 'Pipeline Failure',
+    description: 'Test',
+    dataset_id: datasetId,
+    metric_impact: { T: 0, A: 0, C: 0 },
+    base_resolution_time: 60,
+    resolution_progress: 0,
+    started_at: 0,
+    halts_dc_generation: halts,
+  })
+
+  const createDataset = (id: string): Dataset => ({
+    id,
+    name: id,
+    description: 'Test',
+    base_dc: 60,
+    volume: 100,
+    risk_rating: 'low',
+    sla_targets: { T: 95, A: 95, C: 95 },
+    current_metrics: { T: 100, A: 100, C: 100 },
+    pipelines_installed: [],
+    currentSLA: 100,
+    status: 'ok',
+  })
+
+  it('finds only halting incidents on the dataset', () => {
+    const incidents = [
+      createIncident('a', true),
+      createIncident('a', false),
+      createIncident('b', true),
+    ]
+    expect(getHaltingIncidents('a', incidents).map(i => i.id)).toEqual(['incident-a-true'])
+  })
+
+  it('zeroes the DC multiplier while halted', () => {
+    expect(calculateIncidentDCMultiplier('a', [createIncident('a', true)])).toBe(0)
+    expect(calculateIncidentDCMultiplier('a', [createIncident('a', false)])).toBe(1)
+  })
+
+  it('excludes halted datasets from total DC', () => {
+    const datasets = [createDataset('a'), createDataset('b')]
+    expect(calculateTotalDC(datasets, [], undefined, [createIncident('a', true)])).toBe(1)
+  })
+})
+
 describe('calculateStaffMultiplier', () => {
   const mockStaff: Staff = {
     id: 'engineer',
@@ -144,6 +252,32 @@ describe('applyMetricDecay', () => {
   })
 })
 
+describe('combineReductions', () => {
+  it('returns 1.0 with no reductions', () => {
+    expect(combineReductions([])).toBe(1.0)
+  })
+
+  it('stacks reductions multiplicatively', () => {
+    expect(combineReductions([0.1, 0.1])).toBeCloseTo(0.81, 5)
+  })
+
+  it('clamps each reduction to 0-1', () => {
+    expect(combineReductions([1.5])).toBe(0)
+    expect(combineReductions([-0.5])).toBe(1)
+  })
+})
+
+describe('calculateDecayRate', () => {
+  it('applies the reduction multiplier', () => {
+    expect(calculateDecayRate(0.1, 0.5)).toBeCloseTo(0.05, 5)
+  })
+
+  it('clamps to MIN_DECAY_RATE and MAX_DECAY_RATE', () => {
+    expect(calculateDecayRate(0.1, 0)).toBe(MIN_DECAY_RATE)
+    expect(calculateDecayRate(10)).toBe(MAX_DECAY_RATE)
+  })
+})
+
 describe('applyPipelineEffects', () => {
   const mockDataset: Dataset = {
     id: 'test',
@@ -280,6 +414,14 @@ describe('calculateIncidentChance', () => {
     expect(calculateIncidentChance(high)).toBeGreaterThan(calculateIncidentChance(medium))
   })
 
+  it('applies the incident reduction multiplier', () => {
+    const dataset = createDataset({ T: 0, A: 0, C: 0 }, 100, 'high')
+    expect(calculateIncidentChance(dataset, 0.003, 0.5)).toBeCloseTo(
+      calculateIncidentChance(dataset) * 0.5,
+      6
+    )
+  })
+
   it('clamps between 0.1% and 10%', () => {
     const dataset = createDataset({ T: 0, A: 0, C: 0 }, 10000, 'high')
     const chance = calculateIncidentChance(dataset)
@@ -351,6 +493,41 @@ describe('canPrestige', () => {
     }))
     expect(canPrestige(datasets, 2000000)).toBe(false)
   })
+
+  it('raises the bar with prestige level', () => {
+    expect(canPrestige(createDatasets(10), 2000000, 1)).toBe(false)
+    expect(canPrestige(createDatasets(10), 4000000, 1)).toBe(true)
+  })
+
+  it('counts SLA bonuses towards the SLA requirement', () => {
+    const datasets = createDatasets(10).map(d => ({
+      ...d,
+      current_metrics: { T: 90, A: 90, C: 90 },
+    }))
+    expect(canPrestige(datasets, 2000000, 0, 5)).toBe(true)
+  })
+})
+
+describe('calculatePrestigeRequirements', () => {
+  it('matches the balance constants at level 0', () => {
+    expect(calculatePrestigeRequirements()).toEqual({
+      minDatasets: 10,
+      minGlobalSLA: 95,
+      minLifetimeDC: 2000000,
+    })
+  })
+
+  it('scales SLA and lifetime DC with prestige level', () => {
+    expect(calculatePrestigeRequirements(2)).toEqual({
+      minDatasets: 10,
+      minGlobalSLA: 97,
+      minLifetimeDC: 8000000,
+    })
+  })
+
+  it('caps the SLA requirement', () => {
+    expect(calculatePrestigeRequirements(50).minGlobalSLA).toBe(99)
+  })
 })
 
 describe('calculatePrestigeBonus', () => {
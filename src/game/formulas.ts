@@ -5,7 +5,16 @@
  * All functions are pure (no side effects) and unit testable
  */
 
-import type { Dataset, Metrics, Staff, Pipeline } from '@/types'
+import type {
+  Dataset,
+  Metrics,
+  Staff,
+  Pipeline,
+  Incident,
+  TechnologyBonuses,
+  PrestigeRequirements,
+} from '@/types'
+import { MIN_DECAY_RATE, MAX_DECAY_RATE, INCIDENT, PRESTIGE } from './balance'
 
 /**
  * Calculate SLA compliance percentage
@@ -24,19 +33,32 @@ export function calculateSLA(metrics: Metrics): number {
   return Math.max(0, Math.min(100, sla))
 }
 
+/**
+ * Calculate effective SLA including flat bonuses (e.g. technology sla_bonus)
+ *
+ * @param metrics Current metric values (T/A/C)
+ * @param slaBonus SLA points added on top of the weighted metrics (default 0)
+ * @returns Effective SLA percentage (0-100)
+ */
+export function calculateEffectiveSLA(metrics: Metrics, slaBonus: number = 0): number {
+  return Math.max(0, Math.min(100, calculateSLA(metrics) + slaBonus))
+}
+
 /**
  * Calculate DC generation per second for a dataset
- * Formula: base_dc * (SLA / 100) * globalMultipliers / 60
+ * Formula: base_dc * (effective SLA / 100) * globalMultipliers / 60
  *
  * @param dataset The dataset generating DC
  * @param globalMultipliers Combined staff + tech bonuses (default 1.0)
+ * @param slaBonus Technology SLA bonus points (default 0)
  * @returns DC per second
  */
 export function calculateDatasetDC(
   dataset: Dataset,
-  globalMultipliers: number = 1.0
+  globalMultipliers: number = 1.0,
+  slaBonus: number = 0
 ): number {
-  const sla = calculateSLA(dataset.current_metrics)
+  const sla = calculateEffectiveSLA(dataset.current_metrics, slaBonus)
   const baseDC = dataset.base_dc
 
   // SLA acts as efficiency multiplier (0-100% efficiency)
@@ -46,19 +68,78 @@ export function calculateDatasetDC(
   return (baseDC * efficiency * globalMultipliers) / 60
 }
 
+/**
+ * Get active incidents that halt DC generation for a dataset
+ *
+ * @param datasetId Dataset to check
+ * @param incidents Active incidents
+ * @returns Incidents with halts_dc_generation affecting the dataset
+ */
+export function getHaltingIncidents(datasetId: string, incidents: Incident[]): Incident[] {
+  return incidents.filter(
+    incident => incident.dataset_id === datasetId && incident.halts_dc_generation
+  )
+}
+
+/**
+ * Calculate the incident DC multiplier for a dataset
+ * Halting incidents cut output to INCIDENT.HALTED_DC_MULTIPLIER
+ *
+ * @param datasetId Dataset to check
+ * @param incidents Active incidents
+ * @returns 1.0 if running normally, HALTED_DC_MULTIPLIER if halted
+ */
+export function calculateIncidentDCMultiplier(datasetId: string, incidents: Incident[]): number {
+  return getHaltingIncidents(datasetId, incidents).length > 0 ? INCIDENT.HALTED_DC_MULTIPLIER : 1.0
+}
+
 /**
  * Calculate total DC generation across all datasets
  *
  * @param datasets All active datasets
  * @param staff All hired staff (for bonus calculation)
+ * @param techBonuses Combined technology bonuses (default none)
+ * @param activeIncidents Active incidents (halting incidents stop DC, default none)
  * @returns Total DC per second
  */
-export function calculateTotalDC(datasets: Dataset[], staff: Staff[]): number {
-  const staffMultiplier = calculateStaffMultiplier(staff)
+export function calculateTotalDC(
+  datasets: Dataset[],
+  staff: Staff[],
+  techBonuses?: TechnologyBonuses,
+  activeIncidents: Incident[] = []
+): number {
+  return Object.values(calculateDCByDataset(datasets, staff, techBonuses, activeIncidents)).reduce(
+    (total, dc) => total + dc,
+    0
+  )
+}
 
-  return datasets.reduce((total, dataset) => {
-    return total + calculateDatasetDC(dataset, staffMultiplier)
-  }, 0)
+/**
+ * Calculate DC generation of each dataset
+ *
+ * @param datasets All active datasets
+ * @param staff All hired staff (for bonus calculation)
+ * @param techBonuses Combined technology bonuses (default none)
+ * @param activeIncidents Active incidents (halting incidents stop DC, default none)
+ * @returns DC per second, keyed by dataset ID
+ */
+export function calculateDCByDataset(
+  datasets: Dataset[],
+  staff: Staff[],
+  techBonuses?: TechnologyBonuses,
+  activeIncidents: Incident[] = []
+): Record<string, number> {
+  const multiplier = calculateStaffMultiplier(staff) * (techBonuses?.dcMultiplier ?? 1.0)
+  const slaBonus = techBonuses?.slaBonus ?? 0
+
+  const dcByDataset: Record<string, number> = {}
+  datasets.forEach(dataset => {
+    const incidentMultiplier = calculateIncidentDCMultiplier(dataset.id, activeIncidents)
+    dcByDataset[dataset.id] =
+      (dcByDataset[dataset.id] ?? 0) +
+      calculateDatasetDC(dataset, multiplier * incidentMultiplier, slaBonus)
+  })
+  return dcByDataset
 }
 
 /**
@@ -100,13 +181,39 @@ export function applyMetricDecay(dataset: Dataset, decayRate: number = 0.1): Dat
  * @param decayRate Base decay rate
  * @returns Datasets with decayed metrics
  */
-export function applyMetricDecayToAll(
-  datasets: Dataset[],
-  decayRate: number = 0.1
-): Dataset[] {
+export function applyMetricDecayToAll(datasets: Dataset[], decayRate: number = 0.1): Dataset[] {
   return datasets.map(dataset => applyMetricDecay(dataset, decayRate))
 }
 
+/**
+ * Combine fractional reductions into a single multiplier
+ * Reductions stack multiplicatively: Π(1 - r)
+ *
+ * Two 10% reductions give 0.9 * 0.9 = 0.81 (19% total), so stacking
+ * has diminishing returns and can never reach or pass 100%
+ *
+ * @param reductions Fractional reductions (0-1, where 0.1 = 10%)
+ * @returns Multiplier to apply (1.0 = no reduction)
+ */
+export function combineReductions(reductions: number[]): number {
+  return reductions.reduce((multiplier, reduction) => {
+    const clamped = Math.max(0, Math.min(1, reduction))
+    return multiplier * (1 - clamped)
+  }, 1.0)
+}
+
+/**
+ * Calculate effective decay rate after reductions
+ * Formula: baseRate * reductionMultiplier, clamped to MIN/MAX_DECAY_RATE
+ *
+ * @param baseRate Base decay rate per tick
+ * @param reductionMultiplier Combined reduction multiplier (see combineReductions)
+ * @returns Effective decay rate per tick
+ */
+export function calculateDecayRate(baseRate: number, reductionMultiplier: number = 1.0): number {
+  return Math.max(MIN_DECAY_RATE, Math.min(MAX_DECAY_RATE, baseRate * reductionMultiplier))
+}
+
 /**
  * Apply pipeline effects to a dataset
  * Permanently improves metrics and reduces decay/incidents
@@ -159,10 +266,11 @@ export function applyStaffBonuses(dataset: Dataset, staff: Staff[]): Dataset {
  * Calculate dataset status based on SLA performance
  *
  * @param dataset Dataset to check
+ * @param slaBonus Technology SLA bonus points (default 0)
  * @returns Status: 'ok', 'warning', or 'failing'
  */
-export function calculateDatasetStatus(dataset: Dataset): Dataset['status'] {
-  const sla = calculateSLA(dataset.current_metrics)
+export function calculateDatasetStatus(dataset: Dataset, slaBonus: number = 0): Dataset['status'] {
+  const sla = calculateEffectiveSLA(dataset.current_metrics, slaBonus)
   const target = calculateSLA(dataset.sla_targets)
 
   if (sla >= target) return 'ok'
@@ -172,17 +280,19 @@ export function calculateDatasetStatus(dataset: Dataset): Dataset['status'] {
 
 /**
  * Calculate incident trigger chance for a dataset
- * Formula: base_chance * volume_factor * (100 - current_SLA) / 100
+ * Formula: base_chance * volume_factor * (100 - current_SLA) / 100 * reduction
  *
  * Higher volume and lower SLA = more incidents
  *
  * @param dataset Dataset to check
  * @param baseChance Base incident chance per tick (default 0.003 = 0.3%)
+ * @param reductionMultiplier Combined pipeline/tech reduction (default 1.0 = none)
  * @returns Incident probability (0-1)
  */
 export function calculateIncidentChance(
   dataset: Dataset,
-  baseChance: number = 0.003
+  baseChance: number = 0.003,
+  reductionMultiplier: number = 1.0
 ): number {
   const sla = calculateSLA(dataset.current_metrics)
 
@@ -200,7 +310,7 @@ export function calculateIncidentChance(
   }
   const riskMultiplier = riskMultipliers[dataset.risk_rating]
 
-  const chance = baseChance * volumeFactor * slaFactor * riskMultiplier
+  const chance = baseChance * volumeFactor * slaFactor * riskMultiplier * reductionMultiplier
 
   // Clamp between 0.1% and 10%
   return Math.max(0.001, Math.min(0.1, chance))
@@ -211,30 +321,61 @@ export function calculateIncidentChance(
  * Simple average of all dataset SLAs
  *
  * @param datasets All datasets
+ * @param slaBonus Technology SLA bonus points (default 0)
  * @returns Average SLA percentage (0-100)
  */
-export function calculateGlobalSLA(datasets: Dataset[]): number {
+export function calculateGlobalSLA(datasets: Dataset[], slaBonus: number = 0): number {
   if (datasets.length === 0) return 100
 
   const totalSLA = datasets.reduce((sum, dataset) => {
-    return sum + calculateSLA(dataset.current_metrics)
+    return sum + calculateEffectiveSLA(dataset.current_metrics, slaBonus)
   }, 0)
 
   return totalSLA / datasets.length
 }
 
+/**
+ * Calculate the requirements for the next prestige
+ * The first prestige needs PRESTIGE.MIN_DATASETS, PRESTIGE.MIN_GLOBAL_SLA and
+ * PRESTIGE.MIN_LIFETIME_DC. Each level reached adds PRESTIGE.SLA_PER_LEVEL to
+ * the SLA (capped at PRESTIGE.MAX_REQUIRED_SLA) and multiplies the lifetime DC
+ * by PRESTIGE.LIFETIME_DC_GROWTH
+ *
+ * @param prestigeLevel Current prestige level
+ * @returns Prestige requirements
+ */
+export function calculatePrestigeRequirements(prestigeLevel: number = 0): PrestigeRequirements {
+  return {
+    minDatasets: PRESTIGE.MIN_DATASETS,
+    minGlobalSLA: Math.min(
+      PRESTIGE.MAX_REQUIRED_SLA,
+      PRESTIGE.MIN_GLOBAL_SLA + PRESTIGE.SLA_PER_LEVEL * prestigeLevel
+    ),
+    minLifetimeDC: PRESTIGE.MIN_LIFETIME_DC * Math.pow(PRESTIGE.LIFETIME_DC_GROWTH, prestigeLevel),
+  }
+}
+
 /**
  * Check if prestige is unlocked
- * Requirements: 10 datasets, 95% global SLA, 2M lifetime DC
+ * Requirements come from calculatePrestigeRequirements
  *
  * @param datasets All datasets
  * @param lifetimeDC Total DC earned
+ * @param prestigeLevel Current prestige level (default 0)
+ * @param slaBonus Global SLA bonus from technologies and achievements (default 0).
+ * Leave out the prestige bonus: it grows faster than the SLA requirement
  * @returns True if prestige is available
  */
-export function canPrestige(datasets: Dataset[], lifetimeDC: number): boolean {
-  const hasEnoughDatasets = datasets.length >= 10
-  const hasHighSLA = calculateGlobalSLA(datasets) >= 95
-  const hasEnoughDC = lifetimeDC >= 2000000
+export function canPrestige(
+  datasets: Dataset[],
+  lifetimeDC: number,
+  prestigeLevel: number = 0,
+  slaBonus: number = 0
+): boolean {
+  const requirements = calculatePrestigeRequirements(prestigeLevel)
+  const hasEnoughDatasets = datasets.length >= requirements.minDatasets
+  const hasHighSLA = calculateGlobalSLA(datasets, slaBonus) >= requirements.minGlobalSLA
+  const hasEnoughDC = lifetimeDC >= requirements.minLifetimeDC
 
   return hasEnoughDatasets && hasHighSLA && hasEnoughDC
 }
@@ -247,5 +388,5 @@ export function canPrestige(datasets: Dataset[], lifetimeDC: number): boolean {
  * @returns SLA bonus to apply (e.g., 5 for +5%)
  */
 export function calculatePrestigeBonus(prestigeLevel: number): number {
-  return prestigeLevel * 5
+  return prestigeLevel * PRESTIGE.SLA_BONUS_PER_LEVEL
 }
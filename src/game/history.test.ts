@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  averageSamples,
+  createHistory,
+  createHistorySample,
+  getDatasetSeries,
+  pushToRing,
+  recordHistoryTick,
+  type HistorySnapshot,
+} from './history'
+import { HISTORY } from './balance'
+import { getStarterDataset } from '@/data/contentLoader'
+import type { History, HistorySample } from '@/types'
+
+const createSnapshot = (overrides: Partial<HistorySnapshot> = {}): HistorySnapshot => ({
+  globalSLA: 97.26,
+  dcRate: 1.234,
+  dc: 100.04,
+  datasets: [getStarterDataset()],
+  ...overrides,
+})
+
+const createSample = (time: number, globalSLA: number, T?: number): HistorySample => ({
+  time,
+  globalSLA,
+  dcRate: 1,
+  dc: 100,
+  datasets: T === undefined ? {} : { 'customer-transactions': { T, A: 90, C: 90 } },
+})
+
+const recordTicks = (history: History, ticks: number, snapshot = createSnapshot()) => {
+  let next = history
+  for (let i = 0; i < ticks; i++) {
+    next = recordHistoryTick(next, snapshot, i * 1000)
+  }
+  return next
+}
+
+describe('pushToRing', () => {
+  it('drops the oldest items beyond capacity', () => {
+    expect(pushToRing([1, 2], 3, 3)).toEqual([1, 2, 3])
+    expect(pushToRing([1, 2, 3], 4, 3)).toEqual([2, 3, 4])
+  })
+})
+
+describe('createHistorySample', () => {
+  it('rounds values and records each dataset', () => {
+    const sample = createHistorySample(createSnapshot(), 5000)
+
+    expect(sample.time).toBe(5000)
+    expect(sample.globalSLA).toBe(97.3)
+    expect(sample.dcRate).toBe(1.23)
+    expect(sample.dc).toBe(100)
+    expect(Object.keys(sample.datasets)).toEqual(['customer-transactions'])
+  })
+})
+
+describe('averageSamples', () => {
+  it('averages values and datasets over the samples they appear in', () => {
+    const bucket = averageSamples([
+      createSample(1000, 90),
+      createSample(2000, 95, 80),
+      createSample(3000, 100, 90),
+    ])
+
+    expect(bucket.time).toBe(3000)
+    expect(bucket.globalSLA).toBe(95)
+    expect(bucket.datasets['customer-transactions'].T).toBe(85)
+  })
+})
+
+describe('recordHistoryTick', () => {
+  it('samples every SAMPLE_INTERVAL_TICKS ticks', () => {
+    let history = recordTicks(createHistory(), HISTORY.SAMPLE_INTERVAL_TICKS - 1)
+    expect(history.minutes).toHaveLength(0)
+    expect(history.ticksSinceSample).toBe(HISTORY.SAMPLE_INTERVAL_TICKS - 1)
+
+    history = recordTicks(history, 1)
+    expect(history.minutes).toHaveLength(1)
+    expect(history.ticksSinceSample).toBe(0)
+  })
+
+  it('averages an hour of minute samples into an hour bucket', () => {
+    const history = recordTicks(
+      createHistory(),
+      HISTORY.SAMPLE_INTERVAL_TICKS * HISTORY.MINUTES_PER_HOUR
+    )
+
+    expect(history.hours).toHaveLength(1)
+    expect(history.hours[0].globalSLA).toBe(97.3)
+    expect(history.minutesSinceHour).toBe(0)
+  })
+
+  it('caps both buffers', () => {
+    const full: History = {
+      ticksSinceSample: HISTORY.SAMPLE_INTERVAL_TICKS - 1,
+      minutesSinceHour: HISTORY.MINUTES_PER_HOUR - 1,
+      minutes: Array.from({ length: HISTORY.MAX_MINUTE_SAMPLES }, (_, i) => createSample(i, 90)),
+      hours: Array.from({ length: HISTORY.MAX_HOUR_SAMPLES }, (_, i) => createSample(i, 90)),
+    }
+
+    const history = recordHistoryTick(full, createSnapshot(), 99999)
+
+    expect(history.minutes).toHaveLength(HISTORY.MAX_MINUTE_SAMPLES)
+    expect(history.hours).toHaveLength(HISTORY.MAX_HOUR_SAMPLES)
+    expect(history.minutes[history.minutes.length - 1].time).toBe(99999)
+    expect(history.hours[history.hours.length - 1].time).toBe(99999)
+  })
+})
+
+describe('getDatasetSeries', () => {
+  it('skips samples without the dataset', () => {
+    const samples = [createSample(1000, 90), createSample(2000, 90, 80), createSample(3000, 90, 85)]
+
+    expect(getDatasetSeries(samples, 'customer-transactions', 'T')).toEqual([80, 85])
+  })
+})
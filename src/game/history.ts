@@ -0,0 +1,168 @@
+/**
+ * History - Ring-buffered time-series of global SLA, DC and dataset metrics
+ *
+ * The store records every tick; a minute sample is taken every
+ * HISTORY.SAMPLE_INTERVAL_TICKS ticks and every HISTORY.MINUTES_PER_HOUR
+ * minute samples are averaged into an hour bucket. Both buffers are capped,
+ * and values are rounded, so the history stays small when persisted.
+ * Offline time isn't sampled; it shows up as a gap between sample times.
+ */
+
+import type { Dataset, History, HistorySample, Metrics } from '@/types'
+import { HISTORY } from './balance'
+
+/**
+ * Game state a sample is taken from
+ */
+export interface HistorySnapshot {
+  globalSLA: number
+  dcRate: number
+  dc: number
+  datasets: Dataset[]
+}
+
+/**
+ * Create empty history
+ */
+export function createHistory(): History {
+  return {
+    ticksSinceSample: 0,
+    minutesSinceHour: 0,
+    minutes: [],
+    hours: [],
+  }
+}
+
+/**
+ * Append to a ring buffer, dropping the oldest items beyond capacity
+ *
+ * @param buffer Items, oldest first
+ * @param item Item to append
+ * @param capacity Maximum number of items kept
+ * @returns New buffer
+ */
+export function pushToRing<T>(buffer: T[], item: T, capacity: number): T[] {
+  const next = [...buffer, item]
+  return next.length > capacity ? next.slice(next.length - capacity) : next
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Take a sample of the game state
+ *
+ * @param snapshot Game state to sample
+ * @param time Sample timestamp
+ * @returns Rounded sample
+ */
+export function createHistorySample(snapshot: HistorySnapshot, time: number): HistorySample {
+  const datasets: Record<string, Metrics> = {}
+  snapshot.datasets.forEach(dataset => {
+    datasets[dataset.id] = {
+      T: round(dataset.current_metrics.T, 1),
+      A: round(dataset.current_metrics.A, 1),
+      C: round(dataset.current_metrics.C, 1),
+    }
+  })
+
+  return {
+    time,
+    globalSLA: round(snapshot.globalSLA, 1),
+    dcRate: round(snapshot.dcRate, 2),
+    dc: round(snapshot.dc, 1),
+    datasets,
+  }
+}
+
+/**
+ * Average samples into one bucket
+ * Datasets are averaged over the samples they appear in
+ *
+ * @param samples Samples to average (at least one), oldest first
+ * @returns Bucket timestamped with the newest sample
+ */
+export function averageSamples(samples: HistorySample[]): HistorySample {
+  const average = <T>(items: T[], pick: (item: T) => number, decimals: number) =>
+    round(items.reduce((sum, item) => sum + pick(item), 0) / items.length, decimals)
+
+  const datasetIds = new Set(samples.flatMap(sample => Object.keys(sample.datasets)))
+  const datasets: Record<string, Metrics> = {}
+  datasetIds.forEach(id => {
+    const metrics = samples.flatMap(sample => (sample.datasets[id] ? [sample.datasets[id]] : []))
+    datasets[id] = {
+      T: average(metrics, m => m.T, 1),
+      A: average(metrics, m => m.A, 1),
+      C: average(metrics, m => m.C, 1),
+    }
+  })
+
+  return {
+    time: samples[samples.length - 1].time,
+    globalSLA: average(samples, s => s.globalSLA, 1),
+    dcRate: average(samples, s => s.dcRate, 2),
+    dc: average(samples, s => s.dc, 1),
+    datasets,
+  }
+}
+
+/**
+ * Record a tick, sampling every HISTORY.SAMPLE_INTERVAL_TICKS ticks
+ *
+ * @param history Current history
+ * @param snapshot Game state after the tick
+ * @param time Tick timestamp
+ * @returns Updated history
+ */
+export function recordHistoryTick(
+  history: History,
+  snapshot: HistorySnapshot,
+  time: number
+): History {
+  const ticksSinceSample = history.ticksSinceSample + 1
+  if (ticksSinceSample < HISTORY.SAMPLE_INTERVAL_TICKS) {
+    return { ...history, ticksSinceSample }
+  }
+
+  const minutes = pushToRing(
+    history.minutes,
+    createHistorySample(snapshot, time),
+    HISTORY.MAX_MINUTE_SAMPLES
+  )
+  const minutesSinceHour = history.minutesSinceHour + 1
+  if (minutesSinceHour < HISTORY.MINUTES_PER_HOUR) {
+    return { ...history, ticksSinceSample: 0, minutesSinceHour, minutes }
+  }
+
+  return {
+    ticksSinceSample: 0,
+    minutesSinceHour: 0,
+    minutes,
+    hours: pushToRing(
+      history.hours,
+      averageSamples(minutes.slice(-HISTORY.MINUTES_PER_HOUR)),
+      HISTORY.MAX_HOUR_SAMPLES
+    ),
+  }
+}
+
+/**
+ * Get one dataset's metric over time
+ *
+ * @param samples Samples, oldest first
+ * @param datasetId Dataset to read
+ * @param metric Metric to read
+ * @returns Values, skipping samples taken before the dataset was unlocked
+ */
+export function getDatasetSeries(
+  samples: HistorySample[],
+  datasetId: string,
+  metric: keyof Metrics
+): number[] {
+  return samples.flatMap(sample => {
+    const metrics = sample.datasets[datasetId]
+    return metrics ? [metrics[metric]] : []
+  })
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canTemplateAffectDataset,
+  calculateTemplateWeight,
+  selectIncidentTemplate,
+  createIncidentFromTemplate,
+} from './incidents'
+import { getAllIncidentTemplates } from '@/data/contentLoader'
+import type { Dataset, IncidentTemplate } from '@/types'
+
+const createDataset = (overrides: Partial<Dataset> = {}): Dataset => ({
+  id: 'test-dataset',
+  name: 'Test Dataset',
+  description: 'Test',
+  base_dc: 60,
+  volume: 100,
+  risk_rating: 'low',
+  sla_targets: { T: 95, A: 95, C: 95 },
+  current_metrics: { T: 100, A: 100, C: 100 },
+  pipelines_installed: [],
+  currentSLA: 100,
+  status: 'ok',
+  ...overrides,
+})
+
+const createTemplate = (
+  id: string,
+  overrides: Partial<IncidentTemplate> = {}
+): IncidentTemplate => ({
+  id,
+  type: 'data-delay',
+  title: `Template ${id}`,
+  description: 'Something broke',
+  metric_impact: { T: -10, A: -5, C: -5 },
+  base_resolution_time: 60,
+  halts_dc_generation: false,
+  ...overrides,
+})
+
+describe('canTemplateAffectDataset', () => {
+  it('matches any dataset without a filter', () => {
+    expect(canTemplateAffectDataset(createTemplate('a'), createDataset())).toBe(true)
+  })
+
+  it('filters by dataset ID, risk rating and volume', () => {
+    const dataset = createDataset({ risk_rating: 'medium', volume: 200 })
+    expect(
+      canTemplateAffectDataset(
+        createTemplate('a', { applies_to: { dataset_ids: ['other'] } }),
+        dataset
+      )
+    ).toBe(false)
+    expect(
+      canTemplateAffectDataset(
+        createTemplate('a', { applies_to: { risk_ratings: ['high'] } }),
+        dataset
+      )
+    ).toBe(false)
+    expect(
+      canTemplateAffectDataset(createTemplate('a', { applies_to: { min_volume: 300 } }), dataset)
+    ).toBe(false)
+    expect(
+      canTemplateAffectDataset(
+        createTemplate('a', { applies_to: { risk_ratings: ['medium'], min_volume: 200 } }),
+        dataset
+      )
+    ).toBe(true)
+  })
+})
+
+describe('calculateTemplateWeight', () => {
+  it('defaults to weight 1', () => {
+    expect(calculateTemplateWeight(createTemplate('a'), createDataset())).toBe(1)
+  })
+
+  it('returns 0 for datasets the template cannot hit', () => {
+    const template = createTemplate('a', { applies_to: { risk_ratings: ['high'] } })
+    expect(calculateTemplateWeight(template, createDataset())).toBe(0)
+  })
+
+  it('scales with risk rating and volume', () => {
+    const template = createTemplate('a', { risk_weights: { high: 2 }, volume_weight: 1 })
+    const dataset = createDataset({ risk_rating: 'high', volume: 500 })
+    // 1 * 2 * (1 + 500 / 1000)
+    expect(calculateTemplateWeight(template, dataset)).toBeCloseTo(3, 5)
+  })
+
+  it('is reduced by mitigating pipelines and technologies', () => {
+    const template = createTemplate('a', {
+      mitigated_by: { pipelines: ['data-validation'], technologies: ['ci-cd-automation'] },
+    })
+    const dataset = createDataset({ pipelines_installed: ['data-validation'] })
+    expect(calculateTemplateWeight(template, dataset)).toBe(0.5)
+    expect(calculateTemplateWeight(template, dataset, ['ci-cd-automation'])).toBe(0.25)
+  })
+})
+
+describe('selectIncidentTemplate', () => {
+  const templates = [createTemplate('a', { weight: 1 }), createTemplate('b', { weight: 3 })]
+
+  it('picks templates weighted by their weight', () => {
+    expect(selectIncidentTemplate(templates, createDataset(), [], () => 0)?.id).toBe('a')
+    expect(selectIncidentTemplate(templates, createDataset(), [], () => 0.5)?.id).toBe('b')
+  })
+
+  it('skips templates that cannot hit the dataset', () => {
+    const gated = [
+      createTemplate('a', { applies_to: { dataset_ids: ['other'] } }),
+      createTemplate('b'),
+    ]
+    expect(selectIncidentTemplate(gated, createDataset(), [], () => 0)?.id).toBe('b')
+  })
+
+  it('returns null when no template applies', () => {
+    const gated = [createTemplate('a', { applies_to: { dataset_ids: ['other'] } })]
+    expect(selectIncidentTemplate(gated, createDataset(), [], () => 0)).toBeNull()
+  })
+
+  it('only spawns regulatory warnings on high-risk datasets', () => {
+    const catalogue = getAllIncidentTemplates()
+    for (let i = 0; i < 20; i++) {
+      const template = selectIncidentTemplate(catalogue, createDataset(), [], () => i / 20)
+      expect(template?.id).not.toBe('regulatory-warning')
+    }
+  })
+})
+
+describe('createIncidentFromTemplate', () => {
+  it('instantiates an incident for the dataset', () => {
+    const template = createTemplate('a', { halts_dc_generation: true })
+    const incident = createIncidentFromTemplate(template, createDataset(), 1234)
+
+    expect(incident.template_id).toBe('a')
+    expect(incident.dataset_id).toBe('test-dataset')
+    expect(incident.started_at).toBe(1234)
+    expect(incident.resolution_progress).toBe(0)
+    expect(incident.halts_dc_generation).toBe(true)
+    expect(incident.metric_impact).toEqual(template.metric_impact)
+    expect(incident.description).toContain('Test Dataset')
+  })
+})
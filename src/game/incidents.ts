@@ -0,0 +1,136 @@
+/**
+ * Incident Templates - Selection and instantiation
+ * Picks which incident from incidents.json hits a dataset
+ *
+ * calculateIncidentChance decides WHETHER a dataset gets an incident this
+ * tick; this module decides WHICH one. Each template's weight is scaled by
+ * the dataset's risk rating and volume and reduced by mitigating pipelines
+ * and technologies, so new incident content needs no engine changes.
+ */
+
+import type { Dataset, Incident, IncidentTemplate } from '@/types'
+import { INCIDENT } from './balance'
+
+/**
+ * Check whether a template can hit a dataset
+ *
+ * @param template Incident template
+ * @param dataset Candidate dataset
+ * @returns True if the dataset matches the template's applies_to filter
+ */
+export function canTemplateAffectDataset(template: IncidentTemplate, dataset: Dataset): boolean {
+  const filter = template.applies_to
+  if (!filter) return true
+
+  if (filter.dataset_ids && !filter.dataset_ids.includes(dataset.id)) {
+    return false
+  }
+  if (filter.risk_ratings && !filter.risk_ratings.includes(dataset.risk_rating)) {
+    return false
+  }
+  if (filter.min_volume !== undefined && dataset.volume < filter.min_volume) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Calculate a template's selection weight for a dataset
+ * Formula: weight * risk_weight * (1 + volume_weight * volume / divisor) * mitigation^n
+ *
+ * n = number of mitigating pipelines installed on the dataset plus
+ * mitigating technologies unlocked
+ *
+ * @param template Incident template
+ * @param dataset Dataset the incident would hit
+ * @param unlockedTechnologies IDs of unlocked technologies
+ * @returns Relative weight (0 if the template can't hit this dataset)
+ */
+export function calculateTemplateWeight(
+  template: IncidentTemplate,
+  dataset: Dataset,
+  unlockedTechnologies: string[] = []
+): number {
+  if (!canTemplateAffectDataset(template, dataset)) return 0
+
+  const baseWeight = template.weight ?? 1
+  const riskWeight = template.risk_weights?.[dataset.risk_rating] ?? 1
+  const volumeFactor =
+    1 + ((template.volume_weight ?? 0) * dataset.volume) / INCIDENT.VOLUME_DIVISOR
+
+  const mitigatingPipelines = (template.mitigated_by?.pipelines ?? []).filter(id =>
+    dataset.pipelines_installed.includes(id)
+  ).length
+  const mitigatingTechs = (template.mitigated_by?.technologies ?? []).filter(id =>
+    unlockedTechnologies.includes(id)
+  ).length
+  const mitigation = Math.pow(INCIDENT.MITIGATION_MULTIPLIER, mitigatingPipelines + mitigatingTechs)
+
+  return Math.max(0, baseWeight * riskWeight * volumeFactor * mitigation)
+}
+
+/**
+ * Pick an incident template for a dataset, weighted by calculateTemplateWeight
+ *
+ * @param templates Incident template catalogue
+ * @param dataset Dataset the incident will hit
+ * @param unlockedTechnologies IDs of unlocked technologies
+ * @param random Random number source in [0, 1) (default Math.random)
+ * @returns Selected template, or null if none can hit this dataset
+ */
+export function selectIncidentTemplate(
+  templates: IncidentTemplate[],
+  dataset: Dataset,
+  unlockedTechnologies: string[] = [],
+  random: () => number = Math.random
+): IncidentTemplate | null {
+  const weights = templates.map(template =>
+    calculateTemplateWeight(template, dataset, unlockedTechnologies)
+  )
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  if (totalWeight <= 0) return null
+
+  let roll = random() * totalWeight
+  for (let i = 0; i < templates.length; i++) {
+    if (weights[i] <= 0) continue
+    roll -= weights[i]
+    if (roll < 0) return templates[i]
+  }
+
+  // Floating point fallback: last template with a positive weight
+  for (let i = templates.length - 1; i >= 0; i--) {
+    if (weights[i] > 0) return templates[i]
+  }
+  return null
+}
+
+/**
+ * Instantiate an incident from a template
+ *
+ * @param template Incident template
+ * @param dataset Dataset the incident hits
+ * @param now Spawn timestamp (default Date.now())
+ * @param random Random number source used for the ID suffix
+ * @returns New incident instance
+ */
+export function createIncidentFromTemplate(
+  template: IncidentTemplate,
+  dataset: Dataset,
+  now: number = Date.now(),
+  random: () => number = Math.random
+): Incident {
+  return {
+    id: `incident-${now}-${random().toString(36).substring(2, 9)}`,
+    type: template.type,
+    title: template.title,
+    description: `${dataset.name}: ${template.description}`,
+    dataset_id: dataset.id,
+    metric_impact: { ...template.metric_impact },
+    base_resolution_time: template.base_resolution_time,
+    resolution_progress: 0,
+    started_at: now,
+    halts_dc_generation: template.halts_dc_generation,
+    template_id: template.id,
+  }
+}
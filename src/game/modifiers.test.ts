@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateTechnologyBonuses,
+  resolveInstalledPipelines,
+  calculateDatasetModifiers,
+} from './modifiers'
+import { BASE_DECAY_RATE, MIN_DECAY_RATE } from './balance'
+import type { Dataset } from '@/types'
+
+const createDataset = (pipelines: string[]): Dataset => ({
+  id: 'test-dataset',
+  name: 'Test Dataset',
+  description: 'Test',
+  base_dc: 60,
+  volume: 100,
+  risk_rating: 'low',
+  sla_targets: { T: 95, A: 95, C: 95 },
+  current_metrics: { T: 50, A: 50, C: 50 },
+  pipelines_installed: pipelines,
+  currentSLA: 50,
+  status: 'failing',
+})
+
+describe('calculateTechnologyBonuses', () => {
+  it('returns neutral bonuses with no technologies', () => {
+    expect(calculateTechnologyBonuses([])).toEqual({
+      dcMultiplier: 1,
+      slaBonus: 0,
+      decayMultiplier: 1,
+      incidentMultiplier: 1,
+    })
+  })
+
+  it('combines global bonuses from unlocked technologies', () => {
+    // ci-cd-automation: dc 1.05, decay 0.02
+    // change-data-capture: dc 1.1, decay 0.05
+    // regulatory-compliance: sla +2
+    // metadata-management: sla +4, incident 0.1
+    const bonuses = calculateTechnologyBonuses([
+      'ci-cd-automation',
+      'change-data-capture',
+      'regulatory-compliance',
+      'metadata-management',
+      'unknown-tech',
+    ])
+
+    expect(bonuses.dcMultiplier).toBeCloseTo(1.05 * 1.1, 5)
+    expect(bonuses.slaBonus).toBe(6)
+    expect(bonuses.decayMultiplier).toBeCloseTo(0.98 * 0.95, 5)
+    expect(bonuses.incidentMultiplier).toBeCloseTo(0.9, 5)
+  })
+})
+
+describe('resolveInstalledPipelines', () => {
+  it('skips unknown pipeline IDs', () => {
+    const pipelines = resolveInstalledPipelines(createDataset(['data-validation', 'unknown']))
+    expect(pipelines.map(p => p.id)).toEqual(['data-validation'])
+  })
+})
+
+describe('calculateDatasetModifiers', () => {
+  it('has no reductions without pipelines', () => {
+    const breakdown = calculateDatasetModifiers(createDataset([]))
+    expect(breakdown.pipelines).toHaveLength(0)
+    expect(breakdown.decayMultiplier).toBe(1)
+    expect(breakdown.incidentMultiplier).toBe(1)
+    expect(breakdown.effectiveDecayRate).toBe(BASE_DECAY_RATE)
+  })
+
+  it('stacks pipeline reductions multiplicatively', () => {
+    // data-validation: decay 0.05, incident 0.1
+    // data-profiling: decay 0.1, incident 0.2
+    const breakdown = calculateDatasetModifiers(
+      createDataset(['data-validation', 'data-profiling'])
+    )
+
+    expect(breakdown.pipelines.map(p => p.pipelineId)).toEqual([
+      'data-validation',
+      'data-profiling',
+    ])
+    expect(breakdown.decayMultiplier).toBeCloseTo(0.95 * 0.9, 5)
+    expect(breakdown.incidentMultiplier).toBeCloseTo(0.9 * 0.8, 5)
+    expect(breakdown.effectiveDecayRate).toBeCloseTo(BASE_DECAY_RATE * 0.95 * 0.9, 5)
+  })
+
+  it('stacks technology reductions on top of pipelines', () => {
+    const bonuses = calculateTechnologyBonuses(['ci-cd-automation']) // decay 0.02
+    const breakdown = calculateDatasetModifiers(createDataset(['data-validation']), bonuses)
+
+    expect(breakdown.technologies).toEqual(bonuses)
+    expect(breakdown.decayMultiplier).toBeCloseTo(0.95 * 0.98, 5)
+  })
+
+  it('reports a lower incident chance than an unprotected dataset', () => {
+    const bare = calculateDatasetModifiers(createDataset([]))
+    const protectedDataset = calculateDatasetModifiers(createDataset(['data-profiling']))
+    expect(protectedDataset.incidentChance).toBeLessThan(bare.incidentChance)
+  })
+
+  it('never decays slower than MIN_DECAY_RATE', () => {
+    const breakdown = calculateDatasetModifiers(
+      createDataset([
+        'automated-remediation',
+        'cost-optimization',
+        'stream-processing',
+        'parallel-processing',
+        'ml-feature-store',
+        'data-lineage',
+        'anomaly-detection',
+        'incremental-loads',
+        'data-profiling',
+        'schema-evolution',
+        'data-catalog',
+      ])
+    )
+    expect(breakdown.effectiveDecayRate).toBeGreaterThanOrEqual(MIN_DECAY_RATE)
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Dataset Modifiers - Decay and incident rate breakdown
+ * Resolves installed pipelines and unlocked technologies through the content
+ * catalogue and stacks their decay_reduction / incident_reduction effects
+ *
+ * Stacking rule: reductions multiply (see combineReductions), so every
+ * extra pipeline or technology helps a little less and rates never reach
+ * zero. The final decay rate is clamped to MIN_DECAY_RATE..MAX_DECAY_RATE.
+ */
+
+import type { Dataset, Pipeline, Technology, TechnologyBonuses, TechnologyUnlocks } from '@/types'
+import { BASE_DECAY_RATE, INCIDENT } from './balance'
+import { combineReductions, calculateDecayRate, calculateIncidentChance } from './formulas'
+import { getPipelineById, getTechnologyById } from '@/data/contentLoader'
+
+/**
+ * One pipeline's contribution to a dataset's modifiers
+ */
+export interface PipelineModifierContribution {
+  pipelineId: string
+  name: string
+  /** Decay rate reduction (0-1) */
+  decay_reduction: number
+  /** Incident chance reduction (0-1) */
+  incident_reduction: number
+}
+
+/**
+ * Why a dataset decays and breaks at the rate it does
+ */
+export interface DatasetModifierBreakdown {
+  datasetId: string
+  /** Pipelines contributing reductions (unknown IDs are skipped) */
+  pipelines: PipelineModifierContribution[]
+  /** Technology bonuses applied on top of the pipelines */
+  technologies: TechnologyBonuses
+  /** Decay rate before reductions */
+  baseDecayRate: number
+  /** Combined decay multiplier (1.0 = no reduction) */
+  decayMultiplier: number
+  /** Decay rate actually applied per tick (clamped) */
+  effectiveDecayRate: number
+  /** Combined incident chance multiplier (1.0 = no reduction) */
+  incidentMultiplier: number
+  /** Incident chance per tick at the dataset's current metrics */
+  incidentChance: number
+}
+
+/**
+ * Aggregate global bonuses from all unlocked technologies
+ * DC multipliers multiply, SLA bonuses add, reductions stack via combineReductions
+ *
+ * @param unlockedTechnologies IDs of unlocked technologies
+ * @returns Combined bonuses (unknown IDs are skipped)
+ */
+export function calculateTechnologyBonuses(unlockedTechnologies: string[]): TechnologyBonuses {
+  const technologies = unlockedTechnologies
+    .map(id => getTechnologyById(id))
+    .filter((tech): tech is Technology => tech !== undefined)
+
+  return combineGlobalBonuses(technologies.map(tech => tech.unlocks.global_bonuses))
+}
+
+/**
+ * Combine a list of global bonuses (technologies, achievement rewards)
+ * DC multipliers multiply, SLA bonuses add, reductions stack via combineReductions
+ *
+ * @param bonuses Global bonuses to combine
+ * @returns Combined bonuses
+ */
+export function combineGlobalBonuses(
+  bonuses: TechnologyUnlocks['global_bonuses'][]
+): TechnologyBonuses {
+  return {
+    dcMultiplier: bonuses.reduce((multiplier, b) => multiplier * (b.dc_multiplier ?? 1.0), 1.0),
+    slaBonus: bonuses.reduce((sum, b) => sum + (b.sla_bonus ?? 0), 0),
+    decayMultiplier: combineReductions(bonuses.map(b => b.decay_reduction ?? 0)),
+    incidentMultiplier: combineReductions(bonuses.map(b => b.incident_reduction ?? 0)),
+  }
+}
+
+/**
+ * Resolve a dataset's installed pipeline IDs to pipeline definitions
+ *
+ * @param dataset Dataset to resolve
+ * @returns Installed pipelines (IDs missing from the catalogue are skipped)
+ */
+export function resolveInstalledPipelines(dataset: Dataset): Pipeline[] {
+  return dataset.pipelines_installed
+    .map(id => getPipelineById(id))
+    .filter((pipeline): pipeline is Pipeline => pipeline !== undefined)
+}
+
+/**
+ * Calculate the decay/incident modifier breakdown for a dataset
+ *
+ * @param dataset Dataset to inspect
+ * @param techBonuses Combined technology bonuses (default none)
+ * @returns Full modifier breakdown
+ */
+export function calculateDatasetModifiers(
+  dataset: Dataset,
+  techBonuses: TechnologyBonuses = calculateTechnologyBonuses([])
+): DatasetModifierBreakdown {
+  const pipelines = resolveInstalledPipelines(dataset)
+
+  const decayMultiplier =
+    combineReductions(pipelines.map(p => p.effects.decay_reduction)) * techBonuses.decayMultiplier
+  const incidentMultiplier =
+    combineReductions(pipelines.map(p => p.effects.incident_reduction)) *
+    techBonuses.incidentMultiplier
+
+  return {
+    datasetId: dataset.id,
+    pipelines: pipelines.map(pipeline => ({
+      pipelineId: pipeline.id,
+      name: pipeline.name,
+      decay_reduction: pipeline.effects.decay_reduction,
+      incident_reduction: pipeline.effects.incident_reduction,
+    })),
+    technologies: techBonuses,
+    baseDecayRate: BASE_DECAY_RATE,
+    decayMultiplier,
+    effectiveDecayRate: calculateDecayRate(BASE_DECAY_RATE, decayMultiplier),
+    incidentMultiplier,
+    incidentChance: calculateIncidentChance(dataset, INCIDENT.BASE_CHANCE, incidentMultiplier),
+  }
+}
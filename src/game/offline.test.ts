@@ -0,0 +1,285 @@
+import { describe, it, expect } from 'vitest'
+import {
+  sampleTicksUntil,
+  simulateOfflineBatch,
+  calculateOfflineProgress,
+  createOfflineReport,
+} from './offline'
+import { processTick } from './engine'
+import { calculateTechnologyBonuses } from './modifiers'
+import { createRng, type Rng } from './random'
+import { OFFLINE, TICK_INTERVAL_MS } from './balance'
+import type { Dataset, Incident, Staff } from '@/types'
+
+const createDataset = (id: string = 'test-dataset'): Dataset => ({
+  id,
+  name: 'Test Dataset',
+  description: 'Test',
+  base_dc: 600, // 10 DC/sec at 100% SLA
+  volume: 500,
+  risk_rating: 'medium',
+  sla_targets: { T: 95, A: 95, C: 95 },
+  current_metrics: { T: 100, A: 100, C: 100 },
+  pipelines_installed: [],
+  currentSLA: 100,
+  status: 'ok',
+})
+
+const createIncident = (overrides: Partial<Incident> = {}): Incident => ({
+  id: 'incident-1',
+  type: 'quality-crash',
+  title: 'Test Incident',
+  description: 'Test',
+  dataset_id: 'test-dataset',
+  metric_impact: { T: 0, A: 0, C: 0 },
+  base_resolution_time: 10,
+  resolution_progress: 0,
+  started_at: 0,
+  halts_dc_generation: false,
+  ...overrides,
+})
+
+const engineer: Staff = {
+  id: 'engineer',
+  name: 'Data Engineer',
+  role: 'data-engineer',
+  description: 'Test',
+  cost_to_hire: 0,
+  salary_per_minute: 0,
+  effects: {
+    global_T_bonus: 0.5,
+    global_A_bonus: 0.5,
+    global_C_bonus: 0.5,
+    incident_resolution_speed: 1.5,
+    dc_generation_bonus: 1.0,
+  },
+}
+
+// Random source that never rolls an incident or event
+const noRolls = () => 0.999999
+
+// Generator that always returns the same value
+const fixedRng = (value: number): Rng => ({ next: () => value, getSeed: () => 0 })
+
+const batchInput = (datasets: Dataset[], activeIncidents: Incident[] = []) => ({
+  datasets,
+  activeIncidents,
+  staff: [],
+  techBonuses: calculateTechnologyBonuses([]),
+  unlockedTechnologies: [],
+  ticks: OFFLINE.BATCH_SIZE,
+  startTime: 0,
+})
+
+describe('sampleTicksUntil', () => {
+  it('never happens with 0 chance', () => {
+    expect(sampleTicksUntil(0, () => 0.5)).toBe(Infinity)
+  })
+
+  it('happens on the next tick for a low roll', () => {
+    expect(sampleTicksUntil(0.01, () => 0)).toBe(1)
+  })
+
+  it('matches the per-tick chance on average', () => {
+    const random = createRng(1).next
+
+    let total = 0
+    for (let i = 0; i < 2000; i++) {
+      total += sampleTicksUntil(0.1, random)
+    }
+
+    // Geometric mean = 1 / chance
+    expect(total / 2000).toBeGreaterThan(9)
+    expect(total / 2000).toBeLessThan(11)
+  })
+})
+
+describe('simulateOfflineBatch', () => {
+  it('applies decay for every tick in the batch', () => {
+    const result = simulateOfflineBatch(batchInput([createDataset()]), noRolls)
+
+    // 0.1 decay * 60 ticks
+    expect(result.datasets[0].current_metrics.T).toBeCloseTo(94, 5)
+    expect(result.startedIncidents).toHaveLength(0)
+  })
+
+  it('applies incident impacts only while the incident is active', () => {
+    const incident = createIncident({ metric_impact: { T: -1, A: 0, C: 0 } })
+    const result = simulateOfflineBatch(batchInput([createDataset()], [incident]), noRolls)
+
+    // Resolves on tick 10, so it hurts metrics for 9 ticks (same as processTick)
+    expect(result.datasets[0].current_metrics.T).toBeCloseTo(100 - 6 - 9, 5)
+    expect(result.datasets[0].current_metrics.A).toBeCloseTo(94, 5)
+    expect(result.activeIncidents).toHaveLength(0)
+    expect(result.resolvedIncidents.map(i => i.id)).toEqual(['incident-1'])
+  })
+
+  it('carries unresolved incidents into the next batch', () => {
+    const incident = createIncident({ base_resolution_time: 120 })
+    const result = simulateOfflineBatch(batchInput([createDataset()], [incident]), noRolls)
+
+    expect(result.activeIncidents).toHaveLength(1)
+    expect(result.activeIncidents[0].resolution_progress).toBeCloseTo(0.5, 5)
+    expect(result.activeIncidents[0].ticks_active).toBe(60)
+  })
+
+  it('halts DC generation while a halting incident is active', () => {
+    const baseline = simulateOfflineBatch(batchInput([createDataset()]), noRolls)
+    const halted = simulateOfflineBatch(
+      batchInput(
+        [createDataset()],
+        [createIncident({ base_resolution_time: 31, halts_dc_generation: true })]
+      ),
+      noRolls
+    )
+
+    // Halted for 30 of 60 ticks
+    expect(halted.dcGenerated).toBeCloseTo(baseline.dcGenerated / 2, 5)
+  })
+
+  it('spawns incidents during the batch', () => {
+    const result = simulateOfflineBatch(batchInput([createDataset()]), () => 0)
+
+    expect(result.startedIncidents.length).toBeGreaterThan(0)
+    result.startedIncidents.forEach(incident => {
+      expect(incident.dataset_id).toBe('test-dataset')
+      expect(incident.started_at).toBeGreaterThan(0)
+      expect(incident.started_at).toBeLessThanOrEqual(OFFLINE.BATCH_SIZE * TICK_INTERVAL_MS)
+    })
+  })
+})
+
+describe('calculateOfflineProgress', () => {
+  const baseState = {
+    datasets: [createDataset()],
+    staff: [],
+    activeIncidents: [],
+    dc: 0,
+    lifetimeDC: 0,
+    prestigeLevel: 0,
+  }
+
+  it('decays metrics for the full offline period', () => {
+    const result = calculateOfflineProgress(baseState, 600, { rng: fixedRng(0.999999) })
+
+    // 0.1 decay * 600 ticks
+    expect(result.finalDatasets[0].current_metrics.T).toBeCloseTo(40, 5)
+  })
+
+  it('simulates whole ticks for a fractional gap', () => {
+    const result = calculateOfflineProgress(baseState, 90.5, { rng: fixedRng(0.999999) })
+
+    expect(result.ticksSimulated).toBe(90)
+  })
+
+  it('keeps incidents that are still active on return', () => {
+    const result = calculateOfflineProgress(
+      { ...baseState, activeIncidents: [createIncident({ base_resolution_time: 600 })] },
+      120,
+      { rng: fixedRng(0.999999) }
+    )
+
+    expect(result.finalIncidents).toHaveLength(1)
+    expect(result.incidentsResolved).toHaveLength(0)
+  })
+
+  it('queues events for the player up to the limit', () => {
+    const result = calculateOfflineProgress({ ...baseState, datasets: [] }, 3600, {
+      rng: fixedRng(0),
+    })
+
+    expect(result.queuedEvents).toHaveLength(OFFLINE.MAX_QUEUED_EVENTS)
+    expect(result.queuedEvents[0].id).not.toBe(result.queuedEvents[1].id)
+    expect(result.eventHistory.ticksSinceLastEvent).toBeGreaterThan(0)
+  })
+
+  it('queues no events before the cooldown has elapsed', () => {
+    const result = calculateOfflineProgress({ ...baseState, datasets: [] }, 240, {
+      rng: fixedRng(0),
+    })
+
+    expect(result.queuedEvents).toHaveLength(0)
+    expect(result.eventHistory.ticksSinceLastEvent).toBe(240)
+  })
+
+  it('matches online play over the same period (before offline efficiency)', () => {
+    const TICKS = 1800
+    const RUNS = 20
+    let onlineDC = 0
+    let offlineDC = 0
+
+    for (let run = 0; run < RUNS; run++) {
+      let datasets = [createDataset()]
+      let activeIncidents: Incident[] = []
+      let rngSeed = run
+      for (let tick = 0; tick < TICKS; tick++) {
+        const result = processTick({
+          datasets,
+          staff: [engineer],
+          activeIncidents,
+          currentEvent: null,
+          dc: 0,
+          lifetimeDC: 0,
+          prestigeLevel: 0,
+          rngSeed,
+        })
+        rngSeed = result.rngSeed
+        onlineDC += result.dcGenerated
+        datasets = result.updatedDatasets
+        activeIncidents = [...result.updatedIncidents, ...result.newIncidents]
+      }
+
+      const offline = calculateOfflineProgress(
+        { ...baseState, staff: [engineer], rngSeed: run + 1000 },
+        TICKS
+      )
+      offlineDC += offline.dcEarned / OFFLINE.EFFICIENCY_MULTIPLIER
+    }
+
+    expect(offlineDC).toBeGreaterThan(onlineDC * 0.85)
+    expect(offlineDC).toBeLessThan(onlineDC * 1.15)
+  })
+})
+
+describe('createOfflineReport', () => {
+  const state = {
+    datasets: [createDataset()],
+    staff: [],
+    activeIncidents: [createIncident({ base_resolution_time: 30 })],
+    dc: 0,
+    lifetimeDC: 0,
+    prestigeLevel: 0,
+  }
+
+  it('summarises DC, SLA and incidents', () => {
+    const result = calculateOfflineProgress(state, 600, { rng: fixedRng(0.999999) })
+    const report = createOfflineReport(state.datasets, result, 600, [], 0, 1234)
+
+    expect(report).toMatchObject({
+      secondsAway: 600,
+      secondsSimulated: 600,
+      capped: false,
+      dcEarned: result.dcEarned,
+      dcSpent: 0,
+      createdAt: 1234,
+    })
+    expect(report.datasets).toEqual([
+      { datasetId: 'test-dataset', name: 'Test Dataset', startSLA: 100, endSLA: 40 },
+    ])
+    expect(report.incidentsResolved.map(i => i.id)).toEqual(['incident-1'])
+  })
+
+  it('flags time away beyond the simulation cap', () => {
+    const secondsAway = OFFLINE.MAX_SIMULATION_TIME + 3600
+    const result = calculateOfflineProgress(
+      { ...state, datasets: [], activeIncidents: [] },
+      secondsAway,
+      { rng: fixedRng(0.999999) }
+    )
+    const report = createOfflineReport([], result, secondsAway, [])
+
+    expect(report.capped).toBe(true)
+    expect(report.secondsAway).toBe(secondsAway)
+    expect(report.secondsSimulated).toBe(OFFLINE.MAX_SIMULATION_TIME)
+  })
+})
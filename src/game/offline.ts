@@ -0,0 +1,517 @@
+/**
+ * Offline Simulation - Catch up on time the player was away
+ * Simulates the same systems as processTick in OFFLINE.BATCH_SIZE tick batches
+ *
+ * Running processTick for every missed second is too slow (up to 86,400
+ * ticks), so each batch is solved in closed form instead:
+ * - Decay and staff bonuses are applied once per tick of the batch
+ * - Incident spawn ticks are sampled from the per-tick incident chance, so
+ *   offline incidents happen as often as they would online
+ * - Incident resolution progress and metric impacts are applied for exactly
+ *   the ticks each incident was active, including halted DC
+ * - Salaries are charged for every tick
+ * - Random events are rolled per batch and queued for the player to answer
+ *   on return (the game doesn't pause for them while offline)
+ *
+ * Only DC generation is reduced (OFFLINE.EFFICIENCY_MULTIPLIER, raised by
+ * prestige upgrades).
+ */
+
+import type {
+  Dataset,
+  Staff,
+  Incident,
+  Event,
+  EventHistory,
+  Metrics,
+  OfflineReport,
+  TechnologyBonuses,
+} from '@/types'
+import {
+  calculateDatasetDC,
+  calculateDatasetStatus,
+  calculateEffectiveSLA,
+  calculateGlobalSLA,
+  calculateStaffMultiplier,
+} from './formulas'
+import { INCIDENT, OFFLINE, TICK_INTERVAL_MS } from './balance'
+import { calculateDatasetModifiers, calculateTechnologyBonuses } from './modifiers'
+import { createEventHistory, rollForEventOverTicks } from './events'
+import { getEffectiveStaff, processPayroll } from './payroll'
+import { selectIncidentTemplate, createIncidentFromTemplate } from './incidents'
+import { systemClock } from './clock'
+import { resolveRng, type EngineDependencies } from './random'
+import {
+  applyPrestigeBonuses,
+  calculatePrestigeBonuses,
+  type PrestigeUpgradeLevels,
+} from './prestige'
+import { applyAchievementBonuses } from './achievements'
+import { getAllEvents, getAllIncidentTemplates } from '@/data/contentLoader'
+
+/**
+ * Game state the offline simulation starts from
+ */
+export interface OfflineProgressState {
+  datasets: Dataset[]
+  staff: Staff[]
+  activeIncidents: Incident[]
+  dc: number
+  lifetimeDC: number
+  prestigeLevel: number
+  prestigeUpgrades?: PrestigeUpgradeLevels
+  /** IDs of unlocked achievements (their rewards apply globally) */
+  achievements?: string[]
+  unlockedTechnologies?: string[]
+  eventHistory?: EventHistory
+  unpaidTicks?: number
+  /** When the last online tick ran (used to timestamp offline incidents) */
+  lastTickTime?: number
+  rngSeed?: number
+}
+
+/**
+ * Result of an offline simulation
+ */
+export interface OfflineProgressResult {
+  /** DC generated while offline (after offline efficiency) */
+  dcEarned: number
+  /** Salaries charged while offline */
+  salariesPaid: number
+  ticksSimulated: number
+  finalDatasets: Dataset[]
+  finalStaff: Staff[]
+  /** Staff who quit because they weren't paid */
+  staffQuit: Staff[]
+  unpaidTicks: number
+  /** Incidents still active when the player returns */
+  finalIncidents: Incident[]
+  /** Incidents that started while offline */
+  incidentsStarted: Incident[]
+  /** Incidents resolved while offline (including ones that started offline) */
+  incidentsResolved: Incident[]
+  /** Choice events waiting for the player, oldest first */
+  queuedEvents: Event[]
+  /** Event scheduler history after the simulation */
+  eventHistory: EventHistory
+  /** Random generator state after the simulation */
+  rngSeed: number
+}
+
+/**
+ * Input for simulating one batch of offline ticks
+ */
+export interface OfflineBatchInput {
+  datasets: Dataset[]
+  activeIncidents: Incident[]
+  /** Staff at their current effectiveness (see getEffectiveStaff) */
+  staff: Staff[]
+  techBonuses: TechnologyBonuses
+  unlockedTechnologies: string[]
+  /** Number of ticks in the batch */
+  ticks: number
+  /** Timestamp of the tick before the batch */
+  startTime: number
+}
+
+/**
+ * Result of one batch of offline ticks
+ */
+export interface OfflineBatchResult {
+  datasets: Dataset[]
+  /** Incidents still active at the end of the batch */
+  activeIncidents: Incident[]
+  startedIncidents: Incident[]
+  resolvedIncidents: Incident[]
+  /** DC generated during the batch (before offline efficiency) */
+  dcGenerated: number
+}
+
+/**
+ * An incident's activity within a batch
+ */
+interface IncidentTimeline {
+  incident: Incident
+  /** Tick the incident spawned on (0 = active before the batch) */
+  spawnTick: number
+  /** Ticks the incident was active and hurting metrics */
+  impactTicks: number
+  resolved: boolean
+}
+
+/**
+ * Sample how many ticks pass until something with a fixed per-tick chance happens
+ * Geometric distribution: P(result <= n) = 1 - (1 - chance)^n
+ *
+ * @param chance Probability per tick (0-1)
+ * @param random Random number source in [0, 1) (default Math.random)
+ * @returns Ticks until it happens (>= 1, Infinity if chance is 0)
+ */
+export function sampleTicksUntil(chance: number, random: () => number = Math.random): number {
+  if (chance <= 0) return Infinity
+  if (chance >= 1) return 1
+  return Math.max(1, Math.ceil(Math.log(1 - random()) / Math.log(1 - chance)))
+}
+
+/**
+ * Clamp metrics to the 0-100 range
+ */
+function clampMetrics(metrics: Metrics): Metrics {
+  return {
+    T: Math.max(0, Math.min(100, metrics.T)),
+    A: Math.max(0, Math.min(100, metrics.A)),
+    C: Math.max(0, Math.min(100, metrics.C)),
+  }
+}
+
+/**
+ * Work out how long an incident stays active within a batch
+ * Mirrors processIncidents: progress is added first each tick, and the
+ * incident only hurts metrics on ticks where it is still unresolved
+ */
+function advanceIncident(
+  incident: Incident,
+  spawnTick: number,
+  ticks: number,
+  resolutionSpeed: number
+): IncidentTimeline {
+  const ticksActive = ticks - spawnTick
+  const progressPerTick = resolutionSpeed / incident.base_resolution_time
+  const ticksToResolve = Math.max(
+    1,
+    Math.ceil((1 - incident.resolution_progress) / progressPerTick)
+  )
+
+  if (ticksToResolve <= ticksActive) {
+    return {
+      incident: {
+        ...incident,
+        resolution_progress: 1,
+        ticks_active: (incident.ticks_active ?? 0) + ticksToResolve,
+      },
+      spawnTick,
+      impactTicks: ticksToResolve - 1,
+      resolved: true,
+    }
+  }
+
+  return {
+    incident: {
+      ...incident,
+      resolution_progress: incident.resolution_progress + progressPerTick * ticksActive,
+      ticks_active: (incident.ticks_active ?? 0) + ticksActive,
+    },
+    spawnTick,
+    impactTicks: ticksActive,
+    resolved: false,
+  }
+}
+
+/**
+ * Simulate one batch of offline ticks
+ *
+ * Order of operations:
+ * 1. Sample incident spawns for each dataset
+ * 2. Advance every incident through the batch
+ * 3. Apply decay, staff bonuses and incident impacts to metrics
+ * 4. Generate DC (zero while a halting incident is active)
+ *
+ * @param input Batch state
+ * @param random Random number source in [0, 1) (default Math.random)
+ * @returns Batch result
+ */
+export function simulateOfflineBatch(
+  input: OfflineBatchInput,
+  random: () => number = Math.random
+): OfflineBatchResult {
+  const { staff, techBonuses, unlockedTechnologies, ticks, startTime } = input
+
+  const resolutionSpeed = staff.reduce(
+    (multiplier, member) => multiplier * member.effects.incident_resolution_speed,
+    1.0
+  )
+  const staffBonus = staff.reduce(
+    (acc, member) => ({
+      T: acc.T + member.effects.global_T_bonus,
+      A: acc.A + member.effects.global_A_bonus,
+      C: acc.C + member.effects.global_C_bonus,
+    }),
+    { T: 0, A: 0, C: 0 }
+  )
+  const dcMultiplier = calculateStaffMultiplier(staff) * techBonuses.dcMultiplier
+  const modifiers = new Map(
+    input.datasets.map(dataset => [dataset.id, calculateDatasetModifiers(dataset, techBonuses)])
+  )
+
+  // Step 1: Sample incident spawns at the chance from the start of the batch
+  const incidentTemplates = getAllIncidentTemplates()
+  const startedIncidents: Incident[] = []
+  const timelines: IncidentTimeline[] = input.activeIncidents.map(incident =>
+    advanceIncident(incident, 0, ticks, resolutionSpeed)
+  )
+  input.datasets.forEach(dataset => {
+    const { incidentChance } = modifiers.get(dataset.id)!
+    let tick = sampleTicksUntil(incidentChance, random)
+    while (tick <= ticks) {
+      const template = selectIncidentTemplate(
+        incidentTemplates,
+        dataset,
+        unlockedTechnologies,
+        random
+      )
+      if (!template) break
+
+      const incident = createIncidentFromTemplate(
+        template,
+        dataset,
+        startTime + tick * TICK_INTERVAL_MS,
+        random
+      )
+      startedIncidents.push(incident)
+
+      // Step 2: Incidents spawned mid-batch are processed from the next tick
+      timelines.push(advanceIncident(incident, tick, ticks, resolutionSpeed))
+      tick += sampleTicksUntil(incidentChance, random)
+    }
+  })
+
+  // Step 3 & 4: Metrics and DC per dataset
+  let dcGenerated = 0
+  const datasets = input.datasets.map(dataset => {
+    const { effectiveDecayRate } = modifiers.get(dataset.id)!
+    const netPerTick = {
+      T: staffBonus.T - effectiveDecayRate,
+      A: staffBonus.A - effectiveDecayRate,
+      C: staffBonus.C - effectiveDecayRate,
+    }
+    const affecting = timelines.filter(
+      timeline => timeline.incident.dataset_id === dataset.id && timeline.impactTicks > 0
+    )
+
+    // Incidents hurt metrics until the last one stops; metrics recover afterwards
+    const lastImpactTick = affecting.reduce(
+      (last, timeline) => Math.max(last, timeline.spawnTick + timeline.impactTicks),
+      0
+    )
+    const impact = affecting.reduce(
+      (acc, timeline) => ({
+        T: acc.T + timeline.incident.metric_impact.T * timeline.impactTicks,
+        A: acc.A + timeline.incident.metric_impact.A * timeline.impactTicks,
+        C: acc.C + timeline.incident.metric_impact.C * timeline.impactTicks,
+      }),
+      { T: 0, A: 0, C: 0 }
+    )
+
+    const start = dataset.current_metrics
+    const mid = clampMetrics({
+      T: start.T + netPerTick.T * lastImpactTick + impact.T,
+      A: start.A + netPerTick.A * lastImpactTick + impact.A,
+      C: start.C + netPerTick.C * lastImpactTick + impact.C,
+    })
+    const remainingTicks = ticks - lastImpactTick
+    const end = clampMetrics({
+      T: mid.T + netPerTick.T * remainingTicks,
+      A: mid.A + netPerTick.A * remainingTicks,
+      C: mid.C + netPerTick.C * remainingTicks,
+    })
+
+    // DC rate moves roughly linearly between the three points
+    const rateAt = (metrics: Metrics) =>
+      calculateDatasetDC(
+        { ...dataset, current_metrics: metrics },
+        dcMultiplier,
+        techBonuses.slaBonus
+      )
+    const rateMid = rateAt(mid)
+    const datasetDC =
+      ((rateAt(start) + rateMid) / 2) * lastImpactTick +
+      ((rateMid + rateAt(end)) / 2) * remainingTicks
+
+    // Ticks on which at least one halting incident was active
+    const halted = new Array<boolean>(ticks).fill(false)
+    affecting
+      .filter(timeline => timeline.incident.halts_dc_generation)
+      .forEach(timeline => {
+        for (let i = 0; i < timeline.impactTicks; i++) {
+          halted[timeline.spawnTick + i] = true
+        }
+      })
+    const haltedTicks = halted.filter(Boolean).length
+    dcGenerated += datasetDC * (1 - (haltedTicks / ticks) * (1 - INCIDENT.HALTED_DC_MULTIPLIER))
+
+    const updated = { ...dataset, current_metrics: end }
+    return {
+      ...updated,
+      currentSLA: calculateEffectiveSLA(end, techBonuses.slaBonus),
+      status: calculateDatasetStatus(updated, techBonuses.slaBonus),
+    }
+  })
+
+  return {
+    datasets,
+    activeIncidents: timelines.filter(t => !t.resolved).map(t => t.incident),
+    startedIncidents,
+    resolvedIncidents: timelines.filter(t => t.resolved).map(t => t.incident),
+    dcGenerated,
+  }
+}
+
+/**
+ * Calculate offline progress when player returns
+ * Simulates ticks in OFFLINE.BATCH_SIZE batches for performance
+ *
+ * @param state Last saved game state
+ * @param secondsElapsed Time since last tick (capped at OFFLINE.MAX_SIMULATION_TIME)
+ * @param deps Injected random number generator and clock
+ * @returns Updated state after offline simulation
+ */
+export function calculateOfflineProgress(
+  state: OfflineProgressState,
+  secondsElapsed: number,
+  deps: EngineDependencies = {}
+): OfflineProgressResult {
+  const clock = deps.clock ?? systemClock
+  const rng = resolveRng(state.rngSeed, deps)
+  // Whole ticks only (a partial second doesn't make a tick)
+  const ticksToSimulate = Math.floor(Math.min(secondsElapsed, OFFLINE.MAX_SIMULATION_TIME))
+  const startTime = state.lastTickTime ?? clock.now() - ticksToSimulate * TICK_INTERVAL_MS
+
+  const unlockedTechnologies = state.unlockedTechnologies ?? []
+  const prestigeBonuses = calculatePrestigeBonuses(state.prestigeLevel, state.prestigeUpgrades)
+  const techBonuses = applyAchievementBonuses(
+    applyPrestigeBonuses(calculateTechnologyBonuses(unlockedTechnologies), prestigeBonuses),
+    state.achievements ?? []
+  )
+  const events = getAllEvents()
+
+  let totalDCEarned = 0
+  let totalSalaries = 0
+  let currentDatasets = state.datasets
+  let currentIncidents = state.activeIncidents
+  let currentStaff = state.staff
+  let balance = state.dc
+  let unpaidTicks = state.unpaidTicks ?? 0
+  let eventHistory = state.eventHistory ?? createEventHistory()
+  const staffQuit: Staff[] = []
+  const incidentsStarted: Incident[] = []
+  const incidentsResolved: Incident[] = []
+  const queuedEvents: Event[] = []
+  let ticksProcessed = 0
+
+  const batches = Math.ceil(ticksToSimulate / OFFLINE.BATCH_SIZE)
+
+  for (let batch = 0; batch < batches; batch++) {
+    const ticksInBatch = Math.min(OFFLINE.BATCH_SIZE, ticksToSimulate - ticksProcessed)
+
+    const result = simulateOfflineBatch(
+      {
+        datasets: currentDatasets,
+        activeIncidents: currentIncidents,
+        staff: getEffectiveStaff(currentStaff, unpaidTicks),
+        techBonuses,
+        unlockedTechnologies,
+        ticks: ticksInBatch,
+        startTime: startTime + ticksProcessed * TICK_INTERVAL_MS,
+      },
+      rng.next
+    )
+    currentDatasets = result.datasets
+    currentIncidents = result.activeIncidents
+    incidentsStarted.push(...result.startedIncidents)
+    incidentsResolved.push(...result.resolvedIncidents)
+
+    // Apply offline efficiency to DC generation
+    const batchDC = result.dcGenerated * prestigeBonuses.offlineEfficiency
+    totalDCEarned += batchDC
+
+    // Salaries are charged in full while offline
+    const payroll = processPayroll(balance + batchDC, currentStaff, unpaidTicks, ticksInBatch)
+    totalSalaries += payroll.salaryCost
+    balance = payroll.balance
+    unpaidTicks = payroll.unpaidTicks
+    currentStaff = payroll.remainingStaff
+    staffQuit.push(...payroll.quitStaff)
+
+    // Queue events for the player; once the queue is full only the cooldown advances
+    if (queuedEvents.length < OFFLINE.MAX_QUEUED_EVENTS) {
+      const roll = rollForEventOverTicks(
+        events,
+        {
+          globalSLA: calculateGlobalSLA(currentDatasets, techBonuses.slaBonus),
+          dc: balance,
+          unlockedTechnologies,
+        },
+        eventHistory,
+        ticksInBatch,
+        rng.next
+      )
+      eventHistory = roll.history
+      if (roll.event) queuedEvents.push(roll.event)
+    } else {
+      eventHistory = {
+        ...eventHistory,
+        ticksSinceLastEvent: eventHistory.ticksSinceLastEvent + ticksInBatch,
+      }
+    }
+
+    ticksProcessed += ticksInBatch
+  }
+
+  return {
+    dcEarned: Math.floor(totalDCEarned),
+    salariesPaid: totalSalaries,
+    ticksSimulated: ticksProcessed,
+    finalDatasets: currentDatasets,
+    finalStaff: currentStaff,
+    staffQuit,
+    unpaidTicks,
+    finalIncidents: currentIncidents,
+    incidentsStarted,
+    incidentsResolved,
+    queuedEvents,
+    eventHistory,
+    rngSeed: rng.getSeed(),
+  }
+}
+
+/**
+ * Build the "while you were away" report for an offline simulation
+ *
+ * @param startDatasets Datasets before the simulation
+ * @param result Offline simulation result
+ * @param secondsAway Time the player was away (before the cap)
+ * @param pendingEvents Events waiting for a decision after the simulation
+ * @param slaBonus SLA bonus points from technologies and prestige
+ * @param now Report timestamp (default Date.now())
+ * @returns Offline report
+ */
+export function createOfflineReport(
+  startDatasets: Dataset[],
+  result: OfflineProgressResult,
+  secondsAway: number,
+  pendingEvents: Event[],
+  slaBonus: number = 0,
+  now: number = Date.now()
+): OfflineReport {
+  return {
+    secondsAway,
+    secondsSimulated: result.ticksSimulated,
+    capped: secondsAway > OFFLINE.MAX_SIMULATION_TIME,
+    dcEarned: result.dcEarned,
+    dcSpent: result.salariesPaid,
+    datasets: result.finalDatasets.map(dataset => {
+      const start = startDatasets.find(d => d.id === dataset.id) ?? dataset
+      return {
+        datasetId: dataset.id,
+        name: dataset.name,
+        startSLA: calculateEffectiveSLA(start.current_metrics, slaBonus),
+        endSLA: calculateEffectiveSLA(dataset.current_metrics, slaBonus),
+      }
+    }),
+    incidentsStarted: result.incidentsStarted,
+    incidentsResolved: result.incidentsResolved,
+    pendingEvents,
+    staffQuit: result.staffQuit,
+    createdAt: now,
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { calculatePayroll, scaleStaffEffects, getEffectiveStaff, processPayroll } from './payroll'
+import { PAYROLL } from './balance'
+import type { Staff } from '@/types'
+
+const createStaff = (id: string, salary: number): Staff => ({
+  id,
+  name: `Staff ${id}`,
+  role: 'data-engineer',
+  description: 'Test',
+  cost_to_hire: 1000,
+  salary_per_minute: salary,
+  effects: {
+    global_T_bonus: 0.4,
+    global_A_bonus: 0.2,
+    global_C_bonus: 0.1,
+    incident_resolution_speed: 1.2,
+    dc_generation_bonus: 1.1,
+  },
+})
+
+describe('calculatePayroll', () => {
+  it('converts salaries per minute to DC per second', () => {
+    expect(calculatePayroll([createStaff('a', 30), createStaff('b', 30)])).toBe(1)
+  })
+
+  it('is 0 with no staff', () => {
+    expect(calculatePayroll([])).toBe(0)
+  })
+})
+
+describe('scaleStaffEffects', () => {
+  it('scales flat bonuses and the bonus part of multipliers', () => {
+    const scaled = scaleStaffEffects(createStaff('a', 10), 0.5)
+    expect(scaled.effects.global_T_bonus).toBeCloseTo(0.2, 5)
+    expect(scaled.effects.incident_resolution_speed).toBeCloseTo(1.1, 5)
+    expect(scaled.effects.dc_generation_bonus).toBeCloseTo(1.05, 5)
+  })
+})
+
+describe('getEffectiveStaff', () => {
+  it('leaves paid staff untouched', () => {
+    const staff = [createStaff('a', 10)]
+    expect(getEffectiveStaff(staff, 0)).toBe(staff)
+  })
+
+  it('reduces unpaid staff effectiveness', () => {
+    const [member] = getEffectiveStaff([createStaff('a', 10)], 5)
+    expect(member.effects.global_T_bonus).toBeCloseTo(0.4 * PAYROLL.UNPAID_EFFECTIVENESS, 5)
+  })
+})
+
+describe('processPayroll', () => {
+  it('charges salaries from the balance', () => {
+    const result = processPayroll(100, [createStaff('a', 60)], 0)
+    expect(result.balance).toBe(99)
+    expect(result.salaryCost).toBe(1)
+    expect(result.unpaidTicks).toBe(0)
+  })
+
+  it('charges multiple ticks at once', () => {
+    const result = processPayroll(100, [createStaff('a', 60)], 0, 60)
+    expect(result.balance).toBe(40)
+  })
+
+  it('goes into debt and starts the grace period', () => {
+    const result = processPayroll(0.5, [createStaff('a', 60)], 0)
+    expect(result.balance).toBe(-0.5)
+    expect(result.unpaidTicks).toBe(1)
+    expect(result.quitStaff).toHaveLength(0)
+  })
+
+  it('clears the grace period once solvent again', () => {
+    const result = processPayroll(100, [createStaff('a', 60)], 30)
+    expect(result.unpaidTicks).toBe(0)
+  })
+
+  it('makes the most expensive staff member quit after the grace period', () => {
+    const staff = [createStaff('cheap', 10), createStaff('pricey', 50)]
+    const result = processPayroll(-100, staff, PAYROLL.GRACE_PERIOD_TICKS - 1)
+
+    expect(result.quitStaff.map(s => s.id)).toEqual(['pricey'])
+    expect(result.remainingStaff.map(s => s.id)).toEqual(['cheap'])
+    expect(result.unpaidTicks).toBe(0)
+  })
+
+  it('can lose several staff over a long unpaid stretch', () => {
+    const staff = [createStaff('a', 10), createStaff('b', 20), createStaff('c', 30)]
+    const result = processPayroll(-1000, staff, 0, PAYROLL.GRACE_PERIOD_TICKS * 2)
+
+    expect(result.quitStaff.map(s => s.id)).toEqual(['c', 'b'])
+    expect(result.remainingStaff.map(s => s.id)).toEqual(['a'])
+  })
+})
@@ -0,0 +1,126 @@
+/**
+ * Payroll - Staff salaries and insolvency
+ * Charges salary_per_minute every tick and decides what happens in debt
+ *
+ * Insolvency rules:
+ * 1. DC may go negative - the balance becomes debt
+ * 2. While in debt, staff are unpaid and work at PAYROLL.UNPAID_EFFECTIVENESS
+ * 3. After PAYROLL.GRACE_PERIOD_TICKS of continuous debt, the most expensive
+ *    staff member quits and the countdown restarts
+ * 4. Getting back to a non-negative balance clears the countdown
+ */
+
+import type { Staff } from '@/types'
+import { PAYROLL } from './balance'
+
+/**
+ * Result of charging payroll
+ */
+export interface PayrollResult {
+  /** DC balance after salaries (negative = debt) */
+  balance: number
+  /** Salaries charged */
+  salaryCost: number
+  /** Consecutive ticks spent in debt (0 = solvent) */
+  unpaidTicks: number
+  /** Staff still employed */
+  remainingStaff: Staff[]
+  /** Staff who quit because they weren't paid */
+  quitStaff: Staff[]
+}
+
+/**
+ * Calculate total payroll per second
+ *
+ * @param staff All hired staff
+ * @returns Salaries in DC per second
+ */
+export function calculatePayroll(staff: Staff[]): number {
+  return staff.reduce((total, member) => total + member.salary_per_minute, 0) / 60
+}
+
+/**
+ * Scale a staff member's effects by an effectiveness factor
+ * Flat bonuses scale directly, multipliers scale their bonus part (1.2 → 1.1 at 50%)
+ *
+ * @param member Staff member
+ * @param effectiveness Effectiveness factor (0-1)
+ * @returns Staff member with scaled effects
+ */
+export function scaleStaffEffects(member: Staff, effectiveness: number): Staff {
+  const { effects } = member
+  return {
+    ...member,
+    effects: {
+      global_T_bonus: effects.global_T_bonus * effectiveness,
+      global_A_bonus: effects.global_A_bonus * effectiveness,
+      global_C_bonus: effects.global_C_bonus * effectiveness,
+      incident_resolution_speed: 1 + (effects.incident_resolution_speed - 1) * effectiveness,
+      dc_generation_bonus: 1 + (effects.dc_generation_bonus - 1) * effectiveness,
+    },
+  }
+}
+
+/**
+ * Get staff as they perform this tick
+ * Unpaid staff (unpaidTicks > 0) work at reduced effectiveness
+ *
+ * @param staff All hired staff
+ * @param unpaidTicks Consecutive ticks spent in debt
+ * @returns Staff with effects adjusted for pay status
+ */
+export function getEffectiveStaff(staff: Staff[], unpaidTicks: number): Staff[] {
+  if (unpaidTicks <= 0) return staff
+  return staff.map(member => scaleStaffEffects(member, PAYROLL.UNPAID_EFFECTIVENESS))
+}
+
+/**
+ * Charge salaries and apply insolvency rules
+ *
+ * @param balance DC balance before salaries
+ * @param staff All hired staff
+ * @param unpaidTicks Consecutive ticks already spent in debt
+ * @param ticks Number of ticks being charged (default 1)
+ * @returns Balance, cost and staffing after payroll
+ */
+export function processPayroll(
+  balance: number,
+  staff: Staff[],
+  unpaidTicks: number,
+  ticks: number = 1
+): PayrollResult {
+  const salaryCost = calculatePayroll(staff) * ticks
+  const newBalance = balance - salaryCost
+
+  if (newBalance >= 0) {
+    return {
+      balance: newBalance,
+      salaryCost,
+      unpaidTicks: 0,
+      remainingStaff: staff,
+      quitStaff: [],
+    }
+  }
+
+  // In debt: count down the grace period, most expensive staff leave first
+  let remainingStaff = staff
+  const quitStaff: Staff[] = []
+  let newUnpaidTicks = unpaidTicks + ticks
+
+  while (newUnpaidTicks >= PAYROLL.GRACE_PERIOD_TICKS && remainingStaff.length > 0) {
+    const quitter = remainingStaff.reduce((highest, member) =>
+      member.salary_per_minute > highest.salary_per_minute ? member : highest
+    )
+    remainingStaff = remainingStaff.filter(member => member !== quitter)
+    quitStaff.push(quitter)
+    newUnpaidTicks -= PAYROLL.GRACE_PERIOD_TICKS
+  }
+
+  return {
+    balance: newBalance,
+    salaryCost,
+    unpaidTicks: remainingStaff.length > 0 ? newUnpaidTicks : 0,
+    remainingStaff,
+    quitStaff,
+  }
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyCarryOver,
+  applyPrestigeBonuses,
+  calculatePrestigeBonuses,
+  calculatePrestigeCurrency,
+  calculatePrestigeStatus,
+  calculateUpgradeCost,
+  getStartingDatasets,
+} from './prestige'
+import { processTick, calculateOfflineProgress } from './engine'
+import { calculateTechnologyBonuses } from './modifiers'
+import { OFFLINE } from './balance'
+import {
+  getAllDatasets,
+  getPrestigeUpgradeById,
+  getStaffById,
+  getStarterDataset,
+} from '@/data/contentLoader'
+
+describe('calculatePrestigeCurrency', () => {
+  it('has diminishing returns', () => {
+    expect(calculatePrestigeCurrency(0)).toBe(0)
+    expect(calculatePrestigeCurrency(2000000)).toBe(10)
+    expect(calculatePrestigeCurrency(8000000)).toBe(20)
+  })
+
+  it('ignores negative lifetime DC', () => {
+    expect(calculatePrestigeCurrency(-100)).toBe(0)
+  })
+})
+
+describe('calculateUpgradeCost', () => {
+  const upgrade = getPrestigeUpgradeById('seed-funding')!
+
+  it('grows with each level owned', () => {
+    expect(calculateUpgradeCost(upgrade, 0)).toBe(1)
+    expect(calculateUpgradeCost(upgrade, 2)).toBe(Math.floor(1.5 * 1.5))
+  })
+
+  it('cannot go past the max level', () => {
+    expect(calculateUpgradeCost(upgrade, upgrade.max_level)).toBe(Infinity)
+  })
+})
+
+describe('calculatePrestigeBonuses', () => {
+  it('has no upgrade bonuses by default', () => {
+    expect(calculatePrestigeBonuses(0)).toEqual({
+      slaBonus: 0,
+      decayMultiplier: 1,
+      offlineEfficiency: OFFLINE.EFFICIENCY_MULTIPLIER,
+      startingDC: 0,
+      startingDatasets: 0,
+    })
+  })
+
+  it('adds up upgrade levels', () => {
+    const bonuses = calculatePrestigeBonuses(2, {
+      'seed-funding': 3,
+      'follow-the-sun': 2,
+      'data-contracts': 2,
+      'legacy-integrations': 1,
+      'unknown-upgrade': 5,
+    })
+
+    expect(bonuses.slaBonus).toBe(10)
+    expect(bonuses.startingDC).toBe(3000)
+    expect(bonuses.offlineEfficiency).toBeCloseTo(OFFLINE.EFFICIENCY_MULTIPLIER + 0.1)
+    expect(bonuses.decayMultiplier).toBeCloseTo(0.95 * 0.95)
+    expect(bonuses.startingDatasets).toBe(1)
+  })
+
+  it('caps offline efficiency', () => {
+    const bonuses = calculatePrestigeBonuses(0, { 'follow-the-sun': 100 })
+    expect(bonuses.offlineEfficiency).toBeLessThanOrEqual(OFFLINE.MAX_EFFICIENCY_MULTIPLIER)
+  })
+})
+
+describe('applyPrestigeBonuses', () => {
+  it('adds SLA bonuses and multiplies decay', () => {
+    const bonuses = applyPrestigeBonuses(calculateTechnologyBonuses([]), {
+      ...calculatePrestigeBonuses(1),
+      decayMultiplier: 0.5,
+    })
+
+    expect(bonuses.slaBonus).toBe(5)
+    expect(bonuses.decayMultiplier).toBe(0.5)
+    expect(bonuses.dcMultiplier).toBe(1)
+  })
+})
+
+describe('getStartingDatasets', () => {
+  it('starts with the starter dataset', () => {
+    expect(getStartingDatasets(0, []).map(d => d.id)).toEqual([getStarterDataset().id])
+  })
+
+  it('adds the next datasets the tech tree allows', () => {
+    const datasets = getStartingDatasets(2, [])
+
+    expect(datasets).toHaveLength(3)
+    expect(datasets.map(d => d.id)).not.toContain('financial-reporting')
+  })
+})
+
+describe('calculatePrestigeStatus', () => {
+  const datasets = getAllDatasets().map(d => ({ ...d, currentSLA: 100 }))
+
+  it('reports progress for each requirement', () => {
+    const status = calculatePrestigeStatus({
+      datasets: datasets.slice(0, 5),
+      lifetimeDC: 1000000,
+      prestigeLevel: 0,
+      slaBonus: 0,
+    })
+
+    expect(status.canPrestige).toBe(false)
+    expect(status.requirements.map(r => [r.id, r.met, r.progress])).toEqual([
+      ['datasets', false, 0.5],
+      ['globalSLA', true, 1],
+      ['lifetimeDC', false, 0.5],
+    ])
+  })
+
+  it('scales requirements with prestige level', () => {
+    const status = calculatePrestigeStatus({
+      datasets,
+      lifetimeDC: 2000000,
+      prestigeLevel: 1,
+      slaBonus: 0,
+    })
+
+    expect(status.canPrestige).toBe(false)
+    expect(status.requirements.find(r => r.id === 'lifetimeDC')?.required).toBe(4000000)
+  })
+
+  it('previews the gain and the carry-over', () => {
+    const status = calculatePrestigeStatus(
+      { datasets, lifetimeDC: 8000000, prestigeLevel: 2, slaBonus: 0 },
+      { unlockedTechnologies: 'keep', purchasedPipelines: 'keep', staff: 'reset' }
+    )
+
+    expect(status.canPrestige).toBe(true)
+    expect(status.gain).toEqual({ prestigePoints: 20, prestigeLevel: 3 })
+    expect(status.keeps).toEqual(['unlockedTechnologies', 'purchasedPipelines'])
+    expect(status.resets).toEqual(['staff'])
+  })
+})
+
+describe('applyCarryOver', () => {
+  const state = {
+    unlockedTechnologies: ['ci-cd-automation'],
+    purchasedPipelines: ['data-validation'],
+    staff: [getStaffById('data-engineer')!],
+  }
+
+  it('keeps technologies by default', () => {
+    expect(applyCarryOver(state)).toEqual({ unlockedTechnologies: ['ci-cd-automation'] })
+  })
+
+  it('follows the policy', () => {
+    expect(
+      applyCarryOver(state, {
+        unlockedTechnologies: 'reset',
+        purchasedPipelines: 'keep',
+        staff: 'keep',
+      })
+    ).toEqual({ purchasedPipelines: state.purchasedPipelines, staff: state.staff })
+  })
+})
+
+describe('prestige bonuses in the engine', () => {
+  const state = {
+    datasets: [{ ...getStarterDataset(), current_metrics: { T: 50, A: 50, C: 50 } }],
+    staff: [],
+    activeIncidents: [],
+    currentEvent: null,
+    dc: 0,
+    lifetimeDC: 0,
+    rngSeed: 1,
+  }
+
+  it('raises SLA online and offline alike', () => {
+    const online = processTick({ ...state, prestigeLevel: 0 })
+    const onlinePrestige = processTick({ ...state, prestigeLevel: 2 })
+    const offline = calculateOfflineProgress({ ...state, prestigeLevel: 0 }, 60)
+    const offlinePrestige = calculateOfflineProgress({ ...state, prestigeLevel: 2 }, 60)
+
+    expect(onlinePrestige.updatedDatasets[0].currentSLA).toBeCloseTo(
+      online.updatedDatasets[0].currentSLA + 10
+    )
+    expect(offlinePrestige.finalDatasets[0].currentSLA).toBeCloseTo(
+      offline.finalDatasets[0].currentSLA + 10
+    )
+  })
+
+  it('slows decay with upgrades', () => {
+    const upgrades = { 'data-contracts': 10 }
+    const online = processTick({ ...state, prestigeLevel: 0 })
+    const onlineUpgraded = processTick({ ...state, prestigeLevel: 0, prestigeUpgrades: upgrades })
+
+    expect(onlineUpgraded.updatedDatasets[0].current_metrics.T).toBeGreaterThan(
+      online.updatedDatasets[0].current_metrics.T
+    )
+  })
+
+  it('earns more offline with upgrades', () => {
+    const offline = calculateOfflineProgress({ ...state, prestigeLevel: 0 }, 600)
+    const offlineUpgraded = calculateOfflineProgress(
+      { ...state, prestigeLevel: 0, prestigeUpgrades: { 'follow-the-sun': 10 } },
+      600
+    )
+
+    expect(offlineUpgraded.dcEarned).toBeGreaterThan(offline.dcEarned)
+  })
+})
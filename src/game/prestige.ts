@@ -0,0 +1,237 @@
+/**
+ * Prestige - Currency, permanent upgrades and their bonuses
+ *
+ * Prestiging converts the run's lifetime DC into prestige points on a
+ * diminishing curve; points buy permanent upgrades from the prestige shop.
+ * Bonuses are derived from prestigeLevel and prestigeUpgrades by the engine
+ * (online and offline alike), never stored. Requirements scale with prestige
+ * level, and the carry-over policy decides what run state survives a reset.
+ */
+
+import type {
+  CarryOverField,
+  CarryOverPolicy,
+  Dataset,
+  PrestigeBonuses,
+  PrestigeRequirementProgress,
+  PrestigeStatus,
+  PrestigeUpgrade,
+  Staff,
+  TechnologyBonuses,
+} from '@/types'
+import { OFFLINE, PRESTIGE } from './balance'
+import {
+  calculateGlobalSLA,
+  calculatePrestigeBonus,
+  calculatePrestigeRequirements,
+  combineReductions,
+} from './formulas'
+import {
+  getAllDatasets,
+  getPrestigeUpgradeById,
+  getStarterDataset,
+  isUnlockedByTechnology,
+} from '@/data/contentLoader'
+
+/**
+ * Purchased upgrade levels, keyed by upgrade ID
+ */
+export type PrestigeUpgradeLevels = Record<string, number>
+
+/**
+ * Run state a prestige reset can carry over
+ */
+export interface CarryOverState {
+  unlockedTechnologies: string[]
+  purchasedPipelines: string[]
+  staff: Staff[]
+}
+
+/**
+ * Input for calculatePrestigeStatus
+ */
+export interface PrestigeStatusInput {
+  datasets: Dataset[]
+  lifetimeDC: number
+  prestigeLevel: number
+  /** Global SLA bonus from technologies and achievements (not prestige, see canPrestige) */
+  slaBonus: number
+}
+
+/**
+ * Calculate prestige points earned by a run
+ * Formula: floor(sqrt(lifetimeDC / CURRENCY_DIVISOR)) - 4x the DC for 2x the points
+ *
+ * @param lifetimeDC DC earned this run
+ * @returns Prestige points
+ */
+export function calculatePrestigeCurrency(lifetimeDC: number): number {
+  return Math.floor(Math.sqrt(Math.max(0, lifetimeDC) / PRESTIGE.CURRENCY_DIVISOR))
+}
+
+/**
+ * Calculate the cost of an upgrade's next level
+ * Formula: floor(base_cost * cost_growth ^ level)
+ *
+ * @param upgrade Upgrade to buy
+ * @param level Levels already owned
+ * @returns Prestige point cost (Infinity at max level)
+ */
+export function calculateUpgradeCost(upgrade: PrestigeUpgrade, level: number): number {
+  if (level >= upgrade.max_level) return Infinity
+  return Math.floor(upgrade.base_cost * Math.pow(upgrade.cost_growth, level))
+}
+
+/**
+ * Calculate the combined bonuses of prestige level and upgrades
+ *
+ * @param prestigeLevel Current prestige level
+ * @param upgrades Purchased upgrade levels (unknown IDs are skipped)
+ * @returns Prestige bonuses
+ */
+export function calculatePrestigeBonuses(
+  prestigeLevel: number,
+  upgrades: PrestigeUpgradeLevels = {}
+): PrestigeBonuses {
+  const owned = Object.entries(upgrades).flatMap(([id, level]) => {
+    const upgrade = getPrestigeUpgradeById(id)
+    return upgrade ? [{ upgrade, level: Math.min(level, upgrade.max_level) }] : []
+  })
+  const total = (effect: PrestigeUpgrade['effect']) =>
+    owned
+      .filter(({ upgrade }) => upgrade.effect === effect)
+      .reduce((sum, { upgrade, level }) => sum + upgrade.value_per_level * level, 0)
+
+  return {
+    slaBonus: calculatePrestigeBonus(prestigeLevel),
+    // Every level is its own reduction, so levels stack like pipelines do
+    decayMultiplier: combineReductions(
+      owned
+        .filter(({ upgrade }) => upgrade.effect === 'decay_reduction')
+        .flatMap(({ upgrade, level }) => new Array<number>(level).fill(upgrade.value_per_level))
+    ),
+    offlineEfficiency: Math.min(
+      OFFLINE.MAX_EFFICIENCY_MULTIPLIER,
+      OFFLINE.EFFICIENCY_MULTIPLIER + total('offline_efficiency')
+    ),
+    startingDC: total('starting_dc'),
+    startingDatasets: Math.floor(total('starting_datasets')),
+  }
+}
+
+/**
+ * Add prestige bonuses to technology bonuses
+ * SLA bonuses add and decay multipliers multiply, as they do between technologies
+ *
+ * @param techBonuses Combined technology bonuses
+ * @param prestigeBonuses Combined prestige bonuses
+ * @returns Global bonuses used by the engine
+ */
+export function applyPrestigeBonuses(
+  techBonuses: TechnologyBonuses,
+  prestigeBonuses: PrestigeBonuses
+): TechnologyBonuses {
+  return {
+    ...techBonuses,
+    slaBonus: techBonuses.slaBonus + prestigeBonuses.slaBonus,
+    decayMultiplier: techBonuses.decayMultiplier * prestigeBonuses.decayMultiplier,
+  }
+}
+
+/**
+ * Get the datasets a new run starts with
+ * The starter dataset plus the next datasets in catalogue order that the tech
+ * tree allows (DC thresholds are waived, technology requirements are not)
+ *
+ * @param extraDatasets Datasets to add on top of the starter dataset
+ * @param unlockedTechnologies IDs of unlocked technologies
+ * @returns Starting datasets
+ */
+export function getStartingDatasets(
+  extraDatasets: number,
+  unlockedTechnologies: string[]
+): Dataset[] {
+  const starter = getStarterDataset()
+  const extras = getAllDatasets()
+    .filter(
+      dataset =>
+        dataset.id !== starter.id &&
+        isUnlockedByTechnology('datasets', dataset.id, unlockedTechnologies) &&
+        (!dataset.unlock_requirement?.tech_required ||
+          unlockedTechnologies.includes(dataset.unlock_requirement.tech_required))
+    )
+    .slice(0, Math.max(0, extraDatasets))
+
+  return [starter, ...extras]
+}
+
+/**
+ * Calculate progress towards the next prestige and preview the reset
+ *
+ * @param input Current run state
+ * @param policy Carry-over policy (default PRESTIGE.CARRY_OVER)
+ * @returns Prestige status
+ */
+export function calculatePrestigeStatus(
+  input: PrestigeStatusInput,
+  policy: CarryOverPolicy = PRESTIGE.CARRY_OVER
+): PrestigeStatus {
+  const required = calculatePrestigeRequirements(input.prestigeLevel)
+  const requirement = (
+    id: PrestigeRequirementProgress['id'],
+    label: string,
+    current: number,
+    target: number
+  ): PrestigeRequirementProgress => ({
+    id,
+    label,
+    current,
+    required: target,
+    met: current >= target,
+    progress: target > 0 ? Math.min(1, Math.max(0, current / target)) : 1,
+  })
+
+  const requirements = [
+    requirement('datasets', 'Datasets', input.datasets.length, required.minDatasets),
+    requirement(
+      'globalSLA',
+      'Global SLA',
+      calculateGlobalSLA(input.datasets, input.slaBonus),
+      required.minGlobalSLA
+    ),
+    requirement('lifetimeDC', 'Lifetime DC', input.lifetimeDC, required.minLifetimeDC),
+  ]
+  const fields = Object.keys(policy) as CarryOverField[]
+
+  return {
+    canPrestige: requirements.every(r => r.met),
+    requirements,
+    gain: {
+      prestigePoints: calculatePrestigeCurrency(input.lifetimeDC),
+      prestigeLevel: input.prestigeLevel + 1,
+    },
+    keeps: fields.filter(field => policy[field] === 'keep'),
+    resets: fields.filter(field => policy[field] === 'reset'),
+  }
+}
+
+/**
+ * Pick the run state a prestige reset keeps
+ * Fields the policy resets are left out, so the caller's initial state applies
+ *
+ * @param state Current run state
+ * @param policy Carry-over policy (default PRESTIGE.CARRY_OVER)
+ * @returns Kept fields only
+ */
+export function applyCarryOver(
+  state: CarryOverState,
+  policy: CarryOverPolicy = PRESTIGE.CARRY_OVER
+): Partial<CarryOverState> {
+  const kept: Partial<CarryOverState> = {}
+  if (policy.unlockedTechnologies === 'keep') {
+    kept.unlockedTechnologies = state.unlockedTechnologies
+  }
+  if (policy.purchasedPipelines === 'keep') kept.purchasedPipelines = state.purchasedPipelines
+  if (policy.staff === 'keep') kept.staff = state.staff
+  return kept
+}
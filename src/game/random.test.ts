@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { createRng, createSeed, resolveRng } from './random'
+
+describe('createRng', () => {
+  it('returns numbers in [0, 1)', () => {
+    const rng = createRng(1)
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.next()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('produces the same sequence for the same seed', () => {
+    const a = createRng(42)
+    const b = createRng(42)
+    const sequenceA = Array.from({ length: 10 }, () => a.next())
+    const sequenceB = Array.from({ length: 10 }, () => b.next())
+    expect(sequenceA).toEqual(sequenceB)
+  })
+
+  it('produces different sequences for different seeds', () => {
+    expect(createRng(1).next()).not.toBe(createRng(2).next())
+  })
+
+  it('continues the sequence from a saved seed', () => {
+    const rng = createRng(7)
+    rng.next()
+    rng.next()
+
+    const restored = createRng(rng.getSeed())
+    expect(restored.next()).toBe(rng.next())
+  })
+
+  it('is roughly uniform', () => {
+    const rng = createRng(2024)
+    let sum = 0
+    for (let i = 0; i < 10000; i++) {
+      sum += rng.next()
+    }
+    expect(sum / 10000).toBeCloseTo(0.5, 1)
+  })
+})
+
+describe('createSeed', () => {
+  it('returns a 32-bit unsigned integer', () => {
+    const seed = createSeed()
+    expect(Number.isInteger(seed)).toBe(true)
+    expect(seed).toBeGreaterThanOrEqual(0)
+    expect(seed).toBeLessThan(4294967296)
+  })
+})
+
+describe('resolveRng', () => {
+  it('prefers an injected generator', () => {
+    const rng = createRng(1)
+    expect(resolveRng(99, { rng })).toBe(rng)
+  })
+
+  it('continues from the state seed', () => {
+    expect(resolveRng(99).next()).toBe(createRng(99).next())
+  })
+})
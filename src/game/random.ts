@@ -0,0 +1,75 @@
+/**
+ * Seeded Random Number Generator
+ * Deterministic, serialisable source of randomness for the engine
+ *
+ * The whole generator state is a single 32-bit integer (the seed), so it
+ * can be persisted with the save and restored exactly. Same seed + same
+ * inputs = same TickResult, which makes bug reports reproducible and
+ * lets tests assert exact values.
+ *
+ * Algorithm: mulberry32 (fast, good enough statistical quality for games)
+ */
+
+import type { Clock } from './clock'
+
+/**
+ * Seeded random number generator
+ */
+export interface Rng {
+  /** Next random number in [0, 1) (advances the state) */
+  next: () => number
+  /** Current state - pass to createRng to continue the sequence */
+  getSeed: () => number
+}
+
+/**
+ * Create a seeded random number generator
+ *
+ * @param seed Generator state (any number, truncated to 32 bits)
+ * @returns Generator continuing from the seed
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0
+      let t = state
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    },
+    getSeed: () => state,
+  }
+}
+
+/**
+ * Create a fresh random seed (for new games)
+ *
+ * @returns 32-bit unsigned seed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+/**
+ * Injectable randomness and time
+ * Everything random or time-dependent in the engine goes through these
+ */
+export interface EngineDependencies {
+  /** Random number generator (default: seeded from state.rngSeed) */
+  rng?: Rng
+  /** Time source (default: systemClock) */
+  clock?: Clock
+}
+
+/**
+ * Resolve the random number generator for an engine call
+ *
+ * @param rngSeed Seed from the game state (a fresh one is created if missing)
+ * @param deps Injected dependencies
+ * @returns Injected generator, or one continuing from the seed
+ */
+export function resolveRng(rngSeed: number | undefined, deps: EngineDependencies = {}): Rng {
+  return deps.rng ?? createRng(rngSeed ?? createSeed())
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { planTicks } from './scheduler'
+import { MAX_CATCH_UP_TICKS, TICK_INTERVAL_MS } from './balance'
+
+describe('planTicks', () => {
+  it('runs one tick for an on-time wake-up', () => {
+    expect(planTicks(TICK_INTERVAL_MS)).toEqual({
+      ticks: 1,
+      offlineSeconds: 0,
+      remainderMs: 0,
+      driftMs: 0,
+    })
+  })
+
+  it('waits for the rest of the interval after an early wake-up', () => {
+    expect(planTicks(990)).toEqual({ ticks: 0, offlineSeconds: 0, remainderMs: 990, driftMs: -10 })
+  })
+
+  it('replays missed ticks and carries the remainder', () => {
+    expect(planTicks(5400)).toEqual({
+      ticks: 5,
+      offlineSeconds: 0,
+      remainderMs: 400,
+      driftMs: 4400,
+    })
+  })
+
+  it('replays up to MAX_CATCH_UP_TICKS ticks', () => {
+    expect(planTicks(MAX_CATCH_UP_TICKS * TICK_INTERVAL_MS).ticks).toBe(MAX_CATCH_UP_TICKS)
+  })
+
+  it('hands long gaps to the offline simulator', () => {
+    const plan = planTicks(10 * 60 * 1000 + 250)
+
+    expect(plan).toEqual({ ticks: 1, offlineSeconds: 599, remainderMs: 250, driftMs: 599250 })
+  })
+
+  it('caps catch-up without an offline simulator', () => {
+    const plan = planTicks(10 * 60 * 1000, false)
+
+    expect(plan.ticks).toBe(MAX_CATCH_UP_TICKS)
+    expect(plan.offlineSeconds).toBe(0)
+  })
+
+  it('ignores clocks that went backwards', () => {
+    expect(planTicks(-5000)).toMatchObject({ ticks: 0, remainderMs: 0 })
+  })
+})
@@ -0,0 +1,54 @@
+/**
+ * Tick Scheduler - Work out which ticks are due when the game loop wakes up
+ * Browsers throttle timers in background tabs, so the loop can wake seconds
+ * or minutes late. Instead of assuming one tick per wake-up, the loop
+ * measures the real time elapsed and catches up.
+ */
+
+import { TICK_INTERVAL_MS, MAX_CATCH_UP_TICKS } from './balance'
+
+/**
+ * What to run after a wake-up
+ */
+export interface TickPlan {
+  /** Ticks to run now */
+  ticks: number
+  /** Time to hand to the offline simulator (0 for short gaps) */
+  offlineSeconds: number
+  /** Elapsed time not yet covered by a tick (carried to the next wake-up) */
+  remainderMs: number
+  /** How late this wake-up was (negative if early) */
+  driftMs: number
+}
+
+/**
+ * Plan the ticks due after a wake-up
+ * Gaps of up to MAX_CATCH_UP_TICKS are replayed tick by tick. Longer gaps
+ * are handed to the offline simulator, followed by one live tick.
+ *
+ * @param elapsedMs Time since the last tick (the loop expects TICK_INTERVAL_MS)
+ * @param canSimulateOffline Whether long gaps can use the offline simulator
+ * (if not, only MAX_CATCH_UP_TICKS are run and the rest is dropped)
+ * @returns Tick plan
+ */
+export function planTicks(elapsedMs: number, canSimulateOffline: boolean = true): TickPlan {
+  const elapsed = Math.max(0, elapsedMs)
+  const dueTicks = Math.floor(elapsed / TICK_INTERVAL_MS)
+  const remainderMs = elapsed - dueTicks * TICK_INTERVAL_MS
+  const driftMs = elapsedMs - TICK_INTERVAL_MS
+
+  if (dueTicks <= MAX_CATCH_UP_TICKS) {
+    return { ticks: dueTicks, offlineSeconds: 0, remainderMs, driftMs }
+  }
+
+  if (!canSimulateOffline) {
+    return { ticks: MAX_CATCH_UP_TICKS, offlineSeconds: 0, remainderMs, driftMs }
+  }
+
+  return {
+    ticks: 1,
+    offlineSeconds: ((dueTicks - 1) * TICK_INTERVAL_MS) / 1000,
+    remainderMs,
+    driftMs,
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateMeanTimeToResolve,
+  createGameStatistics,
+  createStatistics,
+  recordOfflineProgress,
+  recordSpending,
+  recordTick,
+  startNewRun,
+  updateGameStatistics,
+  type TickStatistics,
+} from './statistics'
+import { getStarterDataset } from '@/data/contentLoader'
+import type { Incident } from '@/types'
+
+const createIncident = (id: string, ticksActive = 0, startedAt = 0): Incident => ({
+  id,
+  type: 'data-delay',
+  title: 'Data Delay',
+  description: 'Test',
+  dataset_id: 'customer-transactions',
+  metric_impact: { T: 0, A: 0, C: 0 },
+  base_resolution_time: 60,
+  resolution_progress: 0,
+  started_at: startedAt,
+  ticks_active: ticksActive,
+  halts_dc_generation: false,
+})
+
+const createTick = (overrides: Partial<TickStatistics> = {}): TickStatistics => ({
+  seconds: 1,
+  dcByDataset: {},
+  datasets: [],
+  events: [],
+  ...overrides,
+})
+
+describe('recordTick', () => {
+  it('counts ticks, DC per dataset and the peak rate', () => {
+    let stats = recordTick(createStatistics(), createTick({ dcByDataset: { a: 5, b: 10 } }))
+    stats = recordTick(stats, createTick({ dcByDataset: { a: 2 } }))
+
+    expect(stats.ticksPlayed).toBe(2)
+    expect(stats.dcEarnedByDataset).toEqual({ a: 7, b: 10 })
+    expect(stats.peakDCPerSecond).toBe(15)
+  })
+
+  it('counts incidents by type and times resolutions', () => {
+    const stats = recordTick(
+      createStatistics(),
+      createTick({
+        events: [
+          { type: 'IncidentStarted', incident: createIncident('new') },
+          { type: 'IncidentResolved', incident: createIncident('old', 59) },
+          { type: 'IncidentResolved', incident: createIncident('older', 99) },
+        ],
+      })
+    )
+
+    expect(stats.incidentsSpawned).toEqual({ 'data-delay': 1 })
+    expect(stats.incidentsResolved).toEqual({ 'data-delay': 2 })
+    expect(calculateMeanTimeToResolve(stats)).toBe(80)
+  })
+
+  it('times resolutions in game time, not wall-clock time', () => {
+    // Started a day ago by the clock, but only ran for 10 ticks (e.g. fast-forwarded)
+    const incident = createIncident('fast', 9, Date.now() - 86400000)
+    const stats = recordTick(
+      createStatistics(),
+      createTick({ events: [{ type: 'IncidentResolved', incident }] })
+    )
+
+    expect(calculateMeanTimeToResolve(stats)).toBe(10)
+  })
+
+  it('counts dataset-seconds in each status', () => {
+    const dataset = getStarterDataset()
+    const stats = recordTick(
+      createStatistics(),
+      createTick({ datasets: [dataset, { ...dataset, id: 'other', status: 'failing' }] })
+    )
+
+    expect(stats.statusSeconds).toEqual({ ok: 1, warning: 0, failing: 1 })
+  })
+})
+
+describe('recordSpending', () => {
+  it('adds to the category', () => {
+    const stats = recordSpending(recordSpending(createStatistics(), 'staff', 100), 'staff', 50)
+    expect(stats.dcSpent).toEqual({ pipelines: 0, staff: 150, technologies: 0, events: 0 })
+  })
+
+  it('ignores gains', () => {
+    const stats = createStatistics()
+    expect(recordSpending(stats, 'events', -5000)).toBe(stats)
+  })
+})
+
+describe('recordOfflineProgress', () => {
+  it('counts ticks, incidents and salaries but not resolution times', () => {
+    const stats = recordOfflineProgress(createStatistics(), {
+      ticks: 600,
+      salariesPaid: 120,
+      incidentsStarted: [createIncident('a', 0)],
+      incidentsResolved: [createIncident('a', 0)],
+    })
+
+    expect(stats.ticksPlayed).toBe(600)
+    expect(stats.incidentsResolved).toEqual({ 'data-delay': 1 })
+    expect(stats.dcSpent.staff).toBe(120)
+    expect(calculateMeanTimeToResolve(stats)).toBeNull()
+  })
+})
+
+describe('run and lifetime statistics', () => {
+  it('records into both and resets only the run', () => {
+    const recorded = updateGameStatistics(createGameStatistics(), stats =>
+      recordSpending(stats, 'pipelines', 500)
+    )
+    const next = startNewRun(recorded)
+
+    expect(recorded.run.dcSpent.pipelines).toBe(500)
+    expect(next.run).toEqual(createStatistics())
+    expect(next.lifetime.dcSpent.pipelines).toBe(500)
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Statistics - Counters recorded as the game runs
+ *
+ * Every update is applied to two copies: the current run (reset on prestige)
+ * and the lifetime totals. Recorders are pure; the store feeds them tick
+ * results, offline progress and spending.
+ */
+
+import type {
+  Dataset,
+  DomainEvent,
+  GameStatistics,
+  Incident,
+  SpendingCategory,
+  Statistics,
+} from '@/types'
+
+/**
+ * What happened during one tick, as far as statistics are concerned
+ */
+export interface TickStatistics {
+  /** Game time the tick covered */
+  seconds: number
+  /** DC generated, keyed by dataset ID */
+  dcByDataset: Record<string, number>
+  /** Datasets after the tick (their status is counted) */
+  datasets: Dataset[]
+  /** Domain events from the tick */
+  events: DomainEvent[]
+}
+
+/**
+ * What happened while offline, as far as statistics are concerned
+ */
+export interface OfflineStatistics {
+  ticks: number
+  salariesPaid: number
+  incidentsStarted: Incident[]
+  incidentsResolved: Incident[]
+}
+
+/**
+ * Create empty statistics
+ */
+export function createStatistics(): Statistics {
+  return {
+    ticksPlayed: 0,
+    incidentsSpawned: {},
+    incidentsResolved: {},
+    resolutionSeconds: 0,
+    timedResolutions: 0,
+    dcEarnedByDataset: {},
+    dcSpent: { pipelines: 0, staff: 0, technologies: 0, events: 0 },
+    statusSeconds: { ok: 0, warning: 0, failing: 0 },
+    peakDCPerSecond: 0,
+  }
+}
+
+/**
+ * Create empty run and lifetime statistics
+ */
+export function createGameStatistics(): GameStatistics {
+  return {
+    run: createStatistics(),
+    lifetime: createStatistics(),
+  }
+}
+
+/**
+ * Apply an update to both the run and lifetime statistics
+ *
+ * @param statistics Run and lifetime statistics
+ * @param record Update to apply
+ * @returns Updated statistics
+ */
+export function updateGameStatistics(
+  statistics: GameStatistics,
+  record: (stats: Statistics) => Statistics
+): GameStatistics {
+  return {
+    run: record(statistics.run),
+    lifetime: record(statistics.lifetime),
+  }
+}
+
+/**
+ * Start a new run, keeping the lifetime statistics
+ */
+export function startNewRun(statistics: GameStatistics): GameStatistics {
+  return { ...statistics, run: createStatistics() }
+}
+
+/**
+ * Count incidents by type
+ */
+function countByType(
+  counts: Statistics['incidentsSpawned'],
+  incidents: Incident[]
+): Statistics['incidentsSpawned'] {
+  const updated = { ...counts }
+  incidents.forEach(incident => {
+    updated[incident.type] = (updated[incident.type] ?? 0) + 1
+  })
+  return updated
+}
+
+/**
+ * Record a tick
+ *
+ * @param stats Statistics to update
+ * @param tick What happened during the tick
+ * @returns Updated statistics
+ */
+export function recordTick(stats: Statistics, tick: TickStatistics): Statistics {
+  const started = tick.events.flatMap(e => (e.type === 'IncidentStarted' ? [e.incident] : []))
+  const resolved = tick.events.flatMap(e => (e.type === 'IncidentResolved' ? [e.incident] : []))
+
+  const dcEarnedByDataset = { ...stats.dcEarnedByDataset }
+  let dcGenerated = 0
+  Object.entries(tick.dcByDataset).forEach(([datasetId, dc]) => {
+    dcEarnedByDataset[datasetId] = (dcEarnedByDataset[datasetId] ?? 0) + dc
+    dcGenerated += dc
+  })
+
+  const statusSeconds = { ...stats.statusSeconds }
+  tick.datasets.forEach(dataset => {
+    statusSeconds[dataset.status] += tick.seconds
+  })
+
+  return {
+    ...stats,
+    ticksPlayed: stats.ticksPlayed + 1,
+    incidentsSpawned: countByType(stats.incidentsSpawned, started),
+    incidentsResolved: countByType(stats.incidentsResolved, resolved),
+    // Resolved incidents are reported as they were before this tick, so it counts too
+    resolutionSeconds: resolved.reduce(
+      (total, incident) => total + ((incident.ticks_active ?? 0) + 1) * tick.seconds,
+      stats.resolutionSeconds
+    ),
+    timedResolutions: stats.timedResolutions + resolved.length,
+    dcEarnedByDataset,
+    statusSeconds,
+    peakDCPerSecond:
+      tick.seconds > 0
+        ? Math.max(stats.peakDCPerSecond, dcGenerated / tick.seconds)
+        : stats.peakDCPerSecond,
+  }
+}
+
+/**
+ * Record offline progress
+ * Offline ticks, incidents and salaries are counted; per-dataset DC, status
+ * time and resolution times are only measured online
+ *
+ * @param stats Statistics to update
+ * @param offline What happened while offline
+ * @returns Updated statistics
+ */
+export function recordOfflineProgress(stats: Statistics, offline: OfflineStatistics): Statistics {
+  return {
+    ...stats,
+    ticksPlayed: stats.ticksPlayed + offline.ticks,
+    incidentsSpawned: countByType(stats.incidentsSpawned, offline.incidentsStarted),
+    incidentsResolved: countByType(stats.incidentsResolved, offline.incidentsResolved),
+    dcSpent: { ...stats.dcSpent, staff: stats.dcSpent.staff + offline.salariesPaid },
+  }
+}
+
+/**
+ * Record DC spent
+ *
+ * @param stats Statistics to update
+ * @param category What the DC was spent on
+ * @param amount DC spent (ignored unless positive)
+ * @returns Updated statistics
+ */
+export function recordSpending(
+  stats: Statistics,
+  category: SpendingCategory,
+  amount: number
+): Statistics {
+  if (amount <= 0) return stats
+  return { ...stats, dcSpent: { ...stats.dcSpent, [category]: stats.dcSpent[category] + amount } }
+}
+
+/**
+ * Calculate the mean time to resolve an incident
+ *
+ * @param stats Statistics to read
+ * @returns Mean seconds from spawn to resolution (null before the first timed resolution)
+ */
+export function calculateMeanTimeToResolve(stats: Statistics): number | null {
+  return stats.timedResolutions > 0 ? stats.resolutionSeconds / stats.timedResolutions : null
+}
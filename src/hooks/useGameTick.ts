@@ -3,15 +3,21 @@
  * React hook that manages the game loop and tick timing
  *
  * Responsibilities:
- * - Run game tick every second using setInterval
- * - Monitor tick performance (<100ms requirement)
+ * - Run game tick every second, correcting for timer drift
+ * - Catch up on ticks missed while the tab was throttled
+ * - Hand long gaps to the offline simulator
+ * - Fast-forward at a speed multiplier, within the engine's tick time budget
+ * - Monitor tick performance (<100ms requirement) and drift
  * - Handle pause/resume
- * - Clean up interval on unmount
+ * - Clean up timers on unmount
  * - Log performance warnings
  */
 
-import { useEffect, useRef, useCallback, useState } from 'react'
-import { TICK_INTERVAL_MS, MAX_TICK_DURATION_MS } from '@/game/balance'
+import { useEffect, useRef, useState } from 'react'
+import { TICK_INTERVAL_MS, MAX_TICK_DURATION_MS, OFFLINE } from '@/game/balance'
+import { planTicks } from '@/game/scheduler'
+import { systemClock, type Clock } from '@/game/clock'
+import type { OfflineReport } from '@/types'
 
 /**
  * Performance statistics for monitoring
@@ -25,6 +31,16 @@ export interface TickPerformance {
   slowTickCount: number
   /** Total ticks processed */
   totalTicks: number
+  /** How late the last wake-up was versus its schedule */
+  driftMs: number
+  /** Maximum drift in the last 10 wake-ups */
+  maxDriftMs: number
+  /** Missed ticks replayed after late wake-ups */
+  catchUpTicks: number
+  /** Gaps too long to replay that went to the offline simulator */
+  offlineCatchUps: number
+  /** Fast-forward ticks skipped to stay within MAX_TICK_DURATION_MS */
+  skippedTicks: number
 }
 
 /**
@@ -33,30 +49,51 @@ export interface TickPerformance {
 export interface UseGameTickOptions {
   /** Whether game loop should be running */
   isPaused?: boolean
-  /** Callback to execute on each tick */
-  onTick: () => void
+  /** Callback to run a batch of ticks (once per wake-up) */
+  onTick: (count: number) => void
+  /** Ticks per second (default 1) - extra ticks are skipped if they overrun the budget */
+  speed?: number
+  /**
+   * Engine time per tick, as last reported by the engine. Sets the fast-forward
+   * budget and the recorded tick durations (measured on this thread without it,
+   * which misses the time a worker spends)
+   */
+  tickDurationMs?: number
   /** Optional callback when tick performance is slow */
   onSlowTick?: (durationMs: number) => void
+  /**
+   * Optional offline simulator for gaps longer than MAX_CATCH_UP_TICKS
+   * (without it, the rest of a long gap is skipped)
+   */
+  onCatchUp?: (secondsElapsed: number) => void | Promise<unknown>
+  /** Time source (default wall clock) */
+  clock?: Clock
 }
 
 /**
  * useGameTick Hook
- * Manages the game loop interval and performance monitoring
+ * Manages the game loop timer and performance monitoring
+ *
+ * Each wake-up measures the real time since the last tick, runs every tick
+ * that is due (as one batch) and schedules the next wake-up for the next tick
+ * boundary, so late timers never lose ticks.
  *
  * @param options Hook configuration
  * @returns Performance statistics
  *
  * @example
  * ```tsx
- * const { averageDurationMs } = useGameTick({
+ * const { averageDurationMs, driftMs } = useGameTick({
  *   isPaused: gameStore.currentEvent !== null,
  *   onTick: gameStore.tick,
+ *   tickDurationMs: gameStore.enginePerformance?.tickDurationMs,
+ *   onCatchUp: gameStore.catchUp,
  *   onSlowTick: (duration) => console.warn(`Slow tick: ${duration}ms`)
  * })
  * ```
  */
 export function useGameTick(options: UseGameTickOptions): TickPerformance {
-  const { isPaused = false, onTick, onSlowTick } = options
+  const { isPaused = false, clock = systemClock } = options
 
   // Performance tracking
   const [performance, setPerformance] = useState<TickPerformance>({
@@ -64,124 +101,166 @@ export function useGameTick(options: UseGameTickOptions): TickPerformance {
     maxDurationMs: 0,
     slowTickCount: 0,
     totalTicks: 0,
+    driftMs: 0,
+    maxDriftMs: 0,
+    catchUpTicks: 0,
+    offlineCatchUps: 0,
+    skippedTicks: 0,
+  })
+
+  // Latest callbacks, so re-renders don't restart the loop
+  const optionsRef = useRef(options)
+  useEffect(() => {
+    optionsRef.current = options
   })
 
-  // Store last 10 tick durations for averaging
+  // Store last 10 tick durations and wake-up drifts for averaging
   const tickDurations = useRef<number[]>([])
-  const intervalRef = useRef<number | null>(null)
+  const drifts = useRef<number[]>([])
   const slowTickCountRef = useRef(0)
   const totalTicksRef = useRef(0)
+  const catchUpTicksRef = useRef(0)
+  const offlineCatchUpsRef = useRef(0)
+  const skippedTicksRef = useRef(0)
 
   /**
-   * Process a single tick with performance monitoring
+   * Effect: Run the game loop while not paused
    */
-  const processTick = useCallback(() => {
-    const startTime = window.performance.now()
+  useEffect(() => {
+    if (isPaused) {
+      return
+    }
 
-    // Execute game tick
-    onTick()
+    /**
+     * Process a batch of ticks with performance monitoring
+     */
+    const processTicks = (count: number) => {
+      const { onTick, onSlowTick, tickDurationMs } = optionsRef.current
+      const startTime = clock.performanceNow()
 
-    // Measure duration
-    const duration = window.performance.now() - startTime
+      // Execute game ticks
+      onTick(count)
 
-    // Track performance
-    tickDurations.current.push(duration)
-    if (tickDurations.current.length > 10) {
-      tickDurations.current.shift() // Keep only last 10
-    }
+      // Duration per tick (prefer the engine's own timing)
+      const duration = tickDurationMs ?? (clock.performanceNow() - startTime) / count
+
+      // Track performance
+      tickDurations.current.push(duration)
+      if (tickDurations.current.length > 10) {
+        tickDurations.current.shift() // Keep only last 10
+      }
 
-    totalTicksRef.current += 1
+      totalTicksRef.current += count
 
-    // Check if tick was slow
-    if (duration > MAX_TICK_DURATION_MS) {
-      slowTickCountRef.current += 1
-      onSlowTick?.(duration)
-      console.warn(
-        `[GameTick] Slow tick detected: ${duration.toFixed(2)}ms (target: <${MAX_TICK_DURATION_MS}ms)`
-      )
+      // Check if ticks were slow
+      if (duration > MAX_TICK_DURATION_MS) {
+        slowTickCountRef.current += count
+        onSlowTick?.(duration)
+        console.warn(
+          `[GameTick] Slow tick detected: ${duration.toFixed(2)}ms (target: <${MAX_TICK_DURATION_MS}ms)`
+        )
+      }
     }
 
-    // Update performance stats
-    const average =
-      tickDurations.current.reduce((sum, d) => sum + d, 0) / tickDurations.current.length
-    const max = Math.max(...tickDurations.current)
+    /**
+     * Wake up: run every tick due since the last one, then sleep until the next
+     */
+    let lastTickAt = clock.now()
+    let timeout: number | null = null
 
-    setPerformance({
-      averageDurationMs: average,
-      maxDurationMs: max,
-      slowTickCount: slowTickCountRef.current,
-      totalTicks: totalTicksRef.current,
-    })
-  }, [onTick, onSlowTick])
+    const wake = () => {
+      const now = clock.now()
+      const { onCatchUp, speed = 1 } = optionsRef.current
+      const plan = planTicks(now - lastTickAt, onCatchUp !== undefined)
 
-  /**
-   * Start game loop interval
-   */
-  const startInterval = useCallback(() => {
-    if (intervalRef.current !== null) {
-      return // Already running
-    }
+      // Step 1: Long gaps go to the offline simulator
+      if (plan.offlineSeconds > 0) {
+        console.log(`[GameTick] Woke up ${plan.offlineSeconds}s late, simulating offline`)
+        offlineCatchUpsRef.current += 1
+        void Promise.resolve(onCatchUp?.(plan.offlineSeconds * speed)).catch(error => {
+          console.error('[GameTick] Offline catch-up failed:', error)
+        })
+      }
 
-    console.log('[GameTick] Starting game loop')
-    intervalRef.current = window.setInterval(() => {
-      processTick()
-    }, TICK_INTERVAL_MS)
-  }, [processTick])
+      // Step 2: Replay the due ticks, plus extra ticks when fast-forwarding, as
+      // one batch. Due ticks always run; extra ticks run only as far as the
+      // engine's reported tick time fits in the budget.
+      const { tickDurationMs } = optionsRef.current
+      const extraTicks = plan.ticks * (speed - 1)
+      const affordableTicks = tickDurationMs
+        ? Math.max(0, Math.floor(MAX_TICK_DURATION_MS / tickDurationMs) - plan.ticks)
+        : extraTicks
+      const ticksRun = plan.ticks + Math.min(extraTicks, affordableTicks)
+      if (ticksRun > 0) {
+        processTicks(ticksRun)
+      }
+      skippedTicksRef.current += plan.ticks + extraTicks - ticksRun
+      if (plan.ticks > 1) {
+        catchUpTicksRef.current += plan.ticks - 1
+      }
 
-  /**
-   * Stop game loop interval
-   */
-  const stopInterval = useCallback(() => {
-    if (intervalRef.current !== null) {
-      console.log('[GameTick] Stopping game loop')
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
-    }
-  }, [])
+      // Step 3: Update performance stats
+      drifts.current.push(plan.driftMs)
+      if (drifts.current.length > 10) {
+        drifts.current.shift()
+      }
+      if (tickDurations.current.length > 0) {
+        setPerformance({
+          averageDurationMs:
+            tickDurations.current.reduce((sum, d) => sum + d, 0) / tickDurations.current.length,
+          maxDurationMs: Math.max(...tickDurations.current),
+          slowTickCount: slowTickCountRef.current,
+          totalTicks: totalTicksRef.current,
+          driftMs: plan.driftMs,
+          maxDriftMs: Math.max(...drifts.current),
+          catchUpTicks: catchUpTicksRef.current,
+          offlineCatchUps: offlineCatchUpsRef.current,
+          skippedTicks: skippedTicksRef.current,
+        })
+      }
 
-  /**
-   * Effect: Manage interval based on pause state
-   */
-  useEffect(() => {
-    if (isPaused) {
-      stopInterval()
-    } else {
-      startInterval()
+      // Step 4: Sleep until the next tick boundary
+      lastTickAt = now - plan.remainderMs
+      timeout = window.setTimeout(wake, TICK_INTERVAL_MS - plan.remainderMs)
     }
 
-    // Cleanup on unmount
+    console.log('[GameTick] Starting game loop')
+    timeout = window.setTimeout(wake, TICK_INTERVAL_MS)
+
+    // Cleanup on pause or unmount
     return () => {
-      stopInterval()
+      console.log('[GameTick] Stopping game loop')
+      if (timeout !== null) {
+        clearTimeout(timeout)
+      }
     }
-  }, [isPaused, startInterval, stopInterval])
+  }, [isPaused, clock])
 
   return performance
 }
 
 /**
  * useOfflineProgress Hook
- * Calculates and applies offline progress when player returns
+ * Applies offline progress once when the player returns
  *
  * @param lastTickTime Timestamp of last game tick
- * @param onOfflineProgress Callback with offline results
+ * @param applyOfflineProgress Runs the offline simulation and resolves with its
+ * report (null if progress was already applied this session)
+ * @param onOfflineProgress Optional callback with the offline report
  *
  * @example
  * ```tsx
  * useOfflineProgress(
  *   gameStore.lastTickTime,
- *   ({ dcEarned, secondsElapsed }) => {
- *     gameStore.applyOfflineProgress(dcEarned, secondsElapsed)
- *   }
+ *   gameStore.applyOfflineProgress,
+ *   report => console.log(`Earned ${report.dcEarned} DC while away`)
  * )
  * ```
  */
 export function useOfflineProgress(
   lastTickTime: number,
-  onOfflineProgress: (result: {
-    dcEarned: number
-    secondsElapsed: number
-    ticksSimulated: number
-  }) => void
+  applyOfflineProgress: (secondsElapsed: number) => Promise<OfflineReport | null>,
+  onOfflineProgress?: (report: OfflineReport) => void
 ) {
   const hasProcessed = useRef(false)
 
@@ -190,23 +269,24 @@ export function useOfflineProgress(
     if (hasProcessed.current) {
       return
     }
+    hasProcessed.current = true
 
     const now = Date.now()
     const secondsElapsed = Math.floor((now - lastTickTime) / 1000)
 
-    // Only apply if player was gone for at least 10 seconds
-    if (secondsElapsed >= 10) {
+    // Only apply if player was gone long enough to notice
+    if (secondsElapsed >= OFFLINE.MIN_AWAY_TIME) {
       console.log(`[OfflineProgress] Player was offline for ${secondsElapsed} seconds`)
 
-      // Note: Actual offline calculation happens in Zustand store
-      // This hook just triggers the callback
-      onOfflineProgress({
-        dcEarned: 0, // Calculated by store
-        secondsElapsed,
-        ticksSimulated: 0, // Calculated by store
-      })
+      applyOfflineProgress(secondsElapsed)
+        .then(report => {
+          if (report) {
+            onOfflineProgress?.(report)
+          }
+        })
+        .catch(error => {
+          console.error('[OfflineProgress] Failed to apply offline progress:', error)
+        })
     }
-
-    hasProcessed.current = true
-  }, [lastTickTime, onOfflineProgress])
+  }, [lastTickTime, applyOfflineProgress, onOfflineProgress])
 }
@@ -0,0 +1,82 @@
+/**
+ * useTabSync Hook
+ * Keeps only one open tab in charge of the game loop and the save
+ *
+ * Responsibilities:
+ * - Claim or renew the leader lease every heartbeat
+ * - Broadcast state to follower tabs while leader
+ * - Mirror the leader's state while follower
+ * - Reload the saved game when this tab takes over
+ * - Release the lease when the tab closes
+ */
+
+import { useEffect, useRef, useCallback } from 'react'
+import { TAB_SYNC } from '@/game/balance'
+import { useGameStore, getPersistedState } from '@/store/gameStore'
+import { createTabCoordinator, type TabCoordinator, type TabRole } from '@/store/tabSync'
+
+/**
+ * State mirrored to follower tabs
+ */
+export type SyncedGameState = ReturnType<typeof getPersistedState>
+
+/**
+ * useTabSync Hook
+ * Coordinates this tab with other open tabs (see store/tabSync.ts)
+ * The store's tabRole is settled by the end of this hook's mount effect, so
+ * effects declared after it (e.g. useOfflineProgress) see the real role
+ *
+ * @returns This tab's role and a function to make it the leader
+ *
+ * @example
+ * ```tsx
+ * const { role, takeOver } = useTabSync()
+ * useGameTick({ isPaused: role !== 'leader', onTick: tick })
+ * ```
+ */
+export function useTabSync(): { role: TabRole; takeOver: () => void } {
+  const role = useGameStore(state => state.tabRole)
+  const coordinatorRef = useRef<TabCoordinator<SyncedGameState> | null>(null)
+
+  useEffect(() => {
+    let started = false
+    const coordinator = createTabCoordinator<SyncedGameState>({
+      onRoleChange: nextRole => {
+        useGameStore.setState({ tabRole: nextRole })
+        // Taking over: pick up where the previous leader's last save left off
+        if (nextRole === 'leader' && started) {
+          void useGameStore.persist.rehydrate()
+        }
+      },
+      onState: state => useGameStore.setState(state),
+    })
+    coordinatorRef.current = coordinator
+
+    // Followers until the first heartbeat says otherwise
+    useGameStore.setState({ tabRole: coordinator.getRole() })
+    coordinator.heartbeat()
+    started = true
+    const interval = window.setInterval(coordinator.heartbeat, TAB_SYNC.HEARTBEAT_MS)
+
+    const unsubscribe = useGameStore.subscribe(state => {
+      coordinator.publishState(getPersistedState(state))
+    })
+
+    const release = () => coordinator.close()
+    window.addEventListener('pagehide', release)
+
+    return () => {
+      window.removeEventListener('pagehide', release)
+      unsubscribe()
+      clearInterval(interval)
+      coordinator.close()
+      coordinatorRef.current = null
+      // Without coordination (e.g. unmounted in tests) this tab owns the game again
+      useGameStore.setState({ tabRole: 'leader' })
+    }
+  }, [])
+
+  const takeOver = useCallback(() => coordinatorRef.current?.takeOver(), [])
+
+  return { role, takeOver }
+}
@@ -0,0 +1,911 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useGameStore, type GameSpeed } from './gameStore'
+import { getAllDatasets, getAllEvents, getDatasetById, getStaffById } from '@/data/contentLoader'
+import { GAME_SPEEDS, HISTORY, MAX_CATCH_UP_TICKS, SAVE } from '@/game/balance'
+import saveV1 from './fixtures/saves/v1.json'
+import saveV2 from './fixtures/saves/v2.json'
+import saveV3 from './fixtures/saves/v3.json'
+import saveV4 from './fixtures/saves/v4.json'
+import saveV5 from './fixtures/saves/v5.json'
+import saveV6 from './fixtures/saves/v6.json'
+
+describe('purchasePipeline', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+    useGameStore.setState({
+      dc: 100000,
+      datasets: useGameStore
+        .getState()
+        .datasets.map(d => ({ ...d, current_metrics: { T: 50, A: 50, C: 50 } })),
+    })
+  })
+
+  it('installs a per-dataset pipeline and charges DC', () => {
+    const result = useGameStore
+      .getState()
+      .purchasePipeline('data-validation', 'customer-transactions')
+
+    expect(result).toEqual({ success: true })
+    const state = useGameStore.getState()
+    expect(state.dc).toBe(100000 - 500)
+    expect(state.datasets[0].pipelines_installed).toEqual(['data-validation'])
+    expect(state.datasets[0].current_metrics).toEqual({ T: 55, A: 60, C: 55 })
+  })
+
+  it('rejects unknown pipelines and datasets', () => {
+    const { purchasePipeline } = useGameStore.getState()
+    expect(purchasePipeline('nope', 'customer-transactions')).toEqual({
+      success: false,
+      reason: 'unknown-pipeline',
+    })
+    expect(purchasePipeline('data-validation', 'nope')).toEqual({
+      success: false,
+      reason: 'unknown-dataset',
+    })
+    expect(purchasePipeline('data-validation')).toEqual({
+      success: false,
+      reason: 'dataset-required',
+    })
+  })
+
+  it('requires the pipeline technology', () => {
+    const { purchasePipeline } = useGameStore.getState()
+    expect(purchasePipeline('automated-testing', 'customer-transactions')).toEqual({
+      success: false,
+      reason: 'tech-locked',
+    })
+
+    useGameStore.setState({ unlockedTechnologies: ['ci-cd-automation'] })
+    expect(
+      useGameStore.getState().purchasePipeline('automated-testing', 'customer-transactions')
+    ).toEqual({ success: true })
+  })
+
+  it('rejects unaffordable pipelines', () => {
+    useGameStore.setState({ dc: 100 })
+    expect(
+      useGameStore.getState().purchasePipeline('data-validation', 'customer-transactions')
+    ).toEqual({ success: false, reason: 'insufficient-dc' })
+    expect(useGameStore.getState().dc).toBe(100)
+  })
+
+  it('prevents duplicate installs', () => {
+    const { purchasePipeline } = useGameStore.getState()
+    purchasePipeline('data-validation', 'customer-transactions')
+    expect(
+      useGameStore.getState().purchasePipeline('data-validation', 'customer-transactions')
+    ).toEqual({ success: false, reason: 'already-installed' })
+  })
+
+  it('applies previously purchased global pipelines to new datasets', () => {
+    useGameStore.setState({ purchasedPipelines: ['compression'] })
+    useGameStore.getState().unlockDataset(getDatasetById('inventory-master')!)
+
+    const dataset = useGameStore.getState().datasets.find(d => d.id === 'inventory-master')
+    expect(dataset?.pipelines_installed).toEqual(['compression'])
+  })
+})
+
+describe('getDatasetDCRate', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('reports the rate of a running dataset', () => {
+    const rate = useGameStore.getState().getDatasetDCRate('customer-transactions')
+    expect(rate.rate).toBeCloseTo(1, 5)
+    expect(rate.halted).toBe(false)
+  })
+
+  it('reports halted datasets', () => {
+    useGameStore.setState({
+      activeIncidents: [
+        {
+          id: 'incident-1',
+          type: 'pipeline-failure',
+          title: 'Pipeline Failure',
+          description: 'Test',
+          dataset_id: 'customer-transactions',
+          metric_impact: { T: -40, A: -20, C: -30 },
+          base_resolution_time: 180,
+          resolution_progress: 0,
+          started_at: 0,
+          halts_dc_generation: true,
+        },
+      ],
+    })
+
+    const rate = useGameStore.getState().getDatasetDCRate('customer-transactions')
+    expect(rate).toEqual({ rate: 0, halted: true, haltedBy: ['incident-1'] })
+    expect(useGameStore.getState().getTotalDCRate()).toBe(0)
+  })
+})
+
+describe('pending events', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('shows the next queued event after resolving the current one', () => {
+    const [first, second, third] = getAllEvents()
+    useGameStore.setState({ currentEvent: first, pendingEvents: [second, third] })
+
+    useGameStore.getState().resolveEvent(first.choices[0].id)
+    expect(useGameStore.getState().currentEvent?.id).toBe(second.id)
+    expect(useGameStore.getState().pendingEvents.map(e => e.id)).toEqual([third.id])
+
+    useGameStore.getState().resolveEvent(second.choices[0].id)
+    useGameStore.getState().resolveEvent(third.choices[0].id)
+    expect(useGameStore.getState().currentEvent).toBeNull()
+    expect(useGameStore.getState().pendingEvents).toEqual([])
+  })
+
+  it('keeps the active event across a save and load', () => {
+    const [event] = getAllEvents()
+    useGameStore.setState({ currentEvent: event })
+    const save = useGameStore.getState().exportSave()
+
+    useGameStore.getState().reset()
+    useGameStore.getState().importSave(save)
+
+    expect(useGameStore.getState().currentEvent?.id).toBe(event.id)
+  })
+})
+
+describe('applyOfflineProgress', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('keeps incidents that are still active on return', async () => {
+    useGameStore.setState({
+      activeIncidents: [
+        {
+          id: 'long-incident',
+          type: 'hardware-outage',
+          title: 'Long Incident',
+          description: 'Test',
+          dataset_id: 'customer-transactions',
+          metric_impact: { T: 0, A: 0, C: 0 },
+          base_resolution_time: 600,
+          resolution_progress: 0,
+          started_at: 0,
+          halts_dc_generation: false,
+        },
+      ],
+    })
+
+    await useGameStore.getState().applyOfflineProgress(60)
+
+    const state = useGameStore.getState()
+    expect(state.offlineProgressApplied).toBe(true)
+    expect(state.activeIncidents.map(i => i.id)).toContain('long-incident')
+  })
+
+  it('stores a report until it is dismissed', async () => {
+    const report = await useGameStore.getState().applyOfflineProgress(120)
+
+    expect(report).not.toBeNull()
+    expect(report?.secondsAway).toBe(120)
+    expect(report?.datasets.map(d => d.datasetId)).toEqual(['customer-transactions'])
+    expect(useGameStore.getState().offlineReport).toBe(report)
+
+    useGameStore.getState().dismissOfflineReport()
+    expect(useGameStore.getState().offlineReport).toBeNull()
+  })
+
+  it('only applies offline progress once per session', async () => {
+    await useGameStore.getState().applyOfflineProgress(120)
+    expect(await useGameStore.getState().applyOfflineProgress(120)).toBeNull()
+  })
+
+  it('leaves offline progress to the leader tab', async () => {
+    useGameStore.setState({ tabRole: 'follower' })
+    const dc = useGameStore.getState().dc
+
+    expect(await useGameStore.getState().applyOfflineProgress(120)).toBeNull()
+    expect(useGameStore.getState().dc).toBe(dc)
+
+    useGameStore.setState({ tabRole: 'leader' })
+  })
+
+  it('still catches up on later gaps in the same session', async () => {
+    await useGameStore.getState().applyOfflineProgress(120)
+
+    const report = await useGameStore.getState().catchUp(300)
+
+    expect(report.secondsSimulated).toBe(300)
+    expect(useGameStore.getState().offlineReport).toBe(report)
+  })
+
+  it('rejects when the engine fails, and recovers afterwards', async () => {
+    const { datasets } = useGameStore.getState()
+    useGameStore.setState({ datasets: null as unknown as typeof datasets })
+
+    await expect(useGameStore.getState().catchUp(60)).rejects.toThrow('Offline progress failed')
+
+    useGameStore.setState({ datasets })
+    const report = await useGameStore.getState().catchUp(60)
+    expect(report.secondsSimulated).toBe(60)
+  })
+})
+
+describe('tick', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('pauses the game when the engine fails, and recovers afterwards', () => {
+    const { datasets } = useGameStore.getState()
+    useGameStore.setState({ datasets: null as unknown as typeof datasets, isPaused: false })
+
+    useGameStore.getState().tick()
+    expect(useGameStore.getState().isPaused).toBe(true)
+
+    useGameStore.setState({ datasets, isPaused: false, rngSeed: 42 })
+    useGameStore.getState().tick()
+    expect(useGameStore.getState().rngSeed).not.toBe(42)
+  })
+
+  it('advances the persisted random seed', () => {
+    useGameStore.setState({ rngSeed: 42 })
+    useGameStore.getState().tick()
+    expect(useGameStore.getState().rngSeed).not.toBe(42)
+  })
+
+  it('replays identically from the same seed', () => {
+    const run = () => {
+      useGameStore.getState().reset()
+      useGameStore.setState({
+        rngSeed: 7,
+        datasets: useGameStore
+          .getState()
+          .datasets.map(d => ({ ...d, current_metrics: { T: 20, A: 20, C: 20 } })),
+      })
+      for (let i = 0; i < 100; i++) {
+        useGameStore.getState().tick()
+      }
+      const { dc, datasets, activeIncidents, rngSeed } = useGameStore.getState()
+      return { dc, datasets, incidents: activeIncidents.map(i => i.template_id), rngSeed }
+    }
+
+    expect(run()).toEqual(run())
+  })
+})
+
+describe('subscribeToEvents', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+    useGameStore.setState({
+      activeIncidents: [
+        {
+          id: 'almost-done',
+          type: 'hardware-outage',
+          title: 'Almost Done',
+          description: 'Test',
+          dataset_id: 'customer-transactions',
+          metric_impact: { T: 0, A: 0, C: 0 },
+          base_resolution_time: 1,
+          resolution_progress: 0,
+          started_at: 0,
+          halts_dc_generation: false,
+        },
+      ],
+    })
+  })
+
+  it('emits domain events after the tick is applied', () => {
+    const received: { type: string; incidents: number }[] = []
+    const unsubscribe = useGameStore.getState().subscribeToEvents(event => {
+      received.push({
+        type: event.type,
+        incidents: useGameStore.getState().activeIncidents.length,
+      })
+    })
+
+    useGameStore.getState().tick()
+    unsubscribe()
+
+    expect(received).toContainEqual({ type: 'IncidentResolved', incidents: 0 })
+  })
+
+  it('filters by event type', () => {
+    const received: string[] = []
+    const unsubscribe = useGameStore
+      .getState()
+      .subscribeToEvents(event => received.push(event.type), ['MilestoneReached'])
+
+    useGameStore.getState().tick()
+    unsubscribe()
+
+    expect(received).toEqual([])
+  })
+
+  it('stops after unsubscribing', () => {
+    const received: string[] = []
+    const unsubscribe = useGameStore
+      .getState()
+      .subscribeToEvents(event => received.push(event.type))
+
+    unsubscribe()
+    useGameStore.getState().tick()
+
+    expect(received).toEqual([])
+  })
+})
+
+describe('achievements', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('unlocks achievements from tick outcomes', () => {
+    useGameStore.setState({
+      achievementTracking: { incidentsResolved: 9, slaStreakSeconds: {} },
+      activeIncidents: [
+        {
+          id: 'almost-done',
+          type: 'hardware-outage',
+          title: 'Almost Done',
+          description: 'Test',
+          dataset_id: 'customer-transactions',
+          metric_impact: { T: 0, A: 0, C: 0 },
+          base_resolution_time: 1,
+          resolution_progress: 0,
+          started_at: 0,
+          halts_dc_generation: false,
+        },
+      ],
+    })
+    const received: string[] = []
+    const unsubscribe = useGameStore.getState().subscribeToEvents(event => {
+      if (event.type === 'AchievementUnlocked') received.push(event.achievement.id)
+    })
+
+    useGameStore.getState().tick()
+    unsubscribe()
+
+    const state = useGameStore.getState()
+    expect(state.achievementTracking.incidentsResolved).toBe(10)
+    expect(state.achievements).toEqual(['first-responder'])
+    expect(received).toEqual(['first-responder'])
+  })
+
+  it('unlocks achievements from offline progress', async () => {
+    useGameStore.setState({
+      lifetimeDC: 999999,
+      achievementTracking: { incidentsResolved: 9, slaStreakSeconds: {} },
+      activeIncidents: [
+        {
+          id: 'almost-done',
+          type: 'hardware-outage',
+          title: 'Almost Done',
+          description: 'Test',
+          dataset_id: 'customer-transactions',
+          metric_impact: { T: 0, A: 0, C: 0 },
+          base_resolution_time: 1,
+          resolution_progress: 0,
+          started_at: 0,
+          halts_dc_generation: false,
+        },
+      ],
+    })
+
+    await useGameStore.getState().catchUp(3600)
+
+    const state = useGameStore.getState()
+    expect(state.achievementTracking.incidentsResolved).toBeGreaterThanOrEqual(10)
+    expect(state.achievements).toContain('first-responder')
+    expect(state.achievements).toContain('millionaire')
+  })
+
+  it('tracks SLA streaks across ticks', () => {
+    useGameStore.getState().tick()
+    useGameStore.getState().tick()
+
+    expect(useGameStore.getState().achievementTracking.slaStreakSeconds[95]).toBe(2)
+  })
+
+  it('counts nothing while an event is active', () => {
+    const [event] = getAllEvents()
+    useGameStore.setState({ currentEvent: event })
+
+    useGameStore.getState().stepTicks(5)
+
+    const state = useGameStore.getState()
+    expect(state.achievementTracking.slaStreakSeconds).toEqual({})
+    expect(state.statistics.run.ticksPlayed).toBe(0)
+  })
+
+  it('reports progress', () => {
+    useGameStore.setState({ lifetimeDC: 500000 })
+
+    const progress = useGameStore.getState().getAchievementProgress()
+
+    expect(progress.find(p => p.achievement.id === 'millionaire')?.progress).toBe(0.5)
+  })
+
+  it('adds rewards to global bonuses', () => {
+    useGameStore.setState({ achievements: ['five-nines'] })
+    expect(useGameStore.getState().getGlobalBonuses().slaBonus).toBe(1)
+  })
+
+  it('keeps achievements across prestige', () => {
+    useGameStore.setState({
+      datasets: getAllDatasets().slice(0, 10),
+      lifetimeDC: 8000000,
+      achievements: ['first-responder'],
+      achievementTracking: { incidentsResolved: 12, slaStreakSeconds: {} },
+    })
+
+    useGameStore.getState().prestige()
+
+    const state = useGameStore.getState()
+    expect(state.prestigeLevel).toBe(1)
+    expect(state.achievements).toEqual(['first-responder'])
+    expect(state.achievementTracking.incidentsResolved).toBe(12)
+  })
+})
+
+describe('statistics', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('records ticks in the run and lifetime statistics', () => {
+    useGameStore.getState().tick()
+
+    const { run, lifetime } = useGameStore.getState().statistics
+    expect(run.ticksPlayed).toBe(1)
+    expect(run.dcEarnedByDataset['customer-transactions']).toBeGreaterThan(0)
+    expect(run.statusSeconds.ok).toBe(1)
+    expect(lifetime).toEqual(run)
+  })
+
+  it('records DC spent by category', () => {
+    useGameStore.setState({ dc: 100000 })
+
+    useGameStore.getState().purchasePipeline('data-validation', 'customer-transactions')
+    useGameStore.getState().hireStaff(getStaffById('data-engineer')!)
+
+    const { dcSpent } = useGameStore.getState().statistics.run
+    expect(dcSpent.pipelines).toBe(500)
+    expect(dcSpent.staff).toBe(getStaffById('data-engineer')!.cost_to_hire)
+  })
+
+  it('resets run statistics on prestige and keeps lifetime ones', () => {
+    useGameStore.getState().tick()
+    useGameStore.setState({ datasets: getAllDatasets().slice(0, 10), lifetimeDC: 8000000 })
+
+    useGameStore.getState().prestige()
+
+    const { run, lifetime } = useGameStore.getState().statistics
+    expect(run.ticksPlayed).toBe(0)
+    expect(lifetime.ticksPlayed).toBe(1)
+  })
+})
+
+describe('history', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('samples the game state every SAMPLE_INTERVAL_TICKS ticks', () => {
+    for (let i = 0; i < HISTORY.SAMPLE_INTERVAL_TICKS; i++) {
+      useGameStore.getState().tick()
+    }
+
+    const { history, dc } = useGameStore.getState()
+    expect(history.ticksSinceSample).toBe(0)
+    expect(history.minutes).toHaveLength(1)
+    expect(history.minutes[0].dc).toBeCloseTo(dc, 1)
+    expect(history.minutes[0].datasets['customer-transactions']).toBeTruthy()
+  })
+
+  it('keeps history across prestige', () => {
+    useGameStore.getState().tick()
+    useGameStore.setState({ datasets: getAllDatasets().slice(0, 10), lifetimeDC: 8000000 })
+
+    useGameStore.getState().prestige()
+
+    expect(useGameStore.getState().history.ticksSinceSample).toBe(1)
+  })
+})
+
+describe('prestige', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  const readyToPrestige = () => {
+    useGameStore.setState({ datasets: getAllDatasets().slice(0, 10), lifetimeDC: 8000000 })
+  }
+
+  it('converts lifetime DC into prestige points', () => {
+    readyToPrestige()
+    expect(useGameStore.getState().getPrestigeGain()).toBe(20)
+
+    useGameStore.getState().prestige()
+
+    const state = useGameStore.getState()
+    expect(state.prestigeLevel).toBe(1)
+    expect(state.prestigePoints).toBe(20)
+    expect(state.lifetimeDC).toBe(0)
+    expect(state.datasets).toHaveLength(1)
+  })
+
+  it('does nothing until the requirements are met', () => {
+    useGameStore.setState({ lifetimeDC: 8000000 })
+
+    useGameStore.getState().prestige()
+
+    expect(useGameStore.getState().prestigeLevel).toBe(0)
+    expect(useGameStore.getState().prestigePoints).toBe(0)
+  })
+
+  it('buys upgrades with prestige points', () => {
+    useGameStore.setState({ prestigePoints: 2 })
+
+    expect(useGameStore.getState().purchasePrestigeUpgrade('seed-funding')).toBe(true)
+    expect(useGameStore.getState().purchasePrestigeUpgrade('seed-funding')).toBe(true)
+    expect(useGameStore.getState().purchasePrestigeUpgrade('seed-funding')).toBe(false)
+
+    const state = useGameStore.getState()
+    expect(state.prestigeUpgrades).toEqual({ 'seed-funding': 2 })
+    expect(state.prestigePoints).toBe(0)
+  })
+
+  it('rejects unknown and maxed upgrades', () => {
+    useGameStore.setState({ prestigePoints: 1000, prestigeUpgrades: { 'legacy-integrations': 5 } })
+
+    expect(useGameStore.getState().purchasePrestigeUpgrade('not-an-upgrade')).toBe(false)
+    expect(useGameStore.getState().purchasePrestigeUpgrade('legacy-integrations')).toBe(false)
+    expect(useGameStore.getState().prestigePoints).toBe(1000)
+  })
+
+  it('starts the next run with upgrade bonuses', () => {
+    readyToPrestige()
+    useGameStore.setState({
+      prestigePoints: 3,
+      prestigeUpgrades: { 'seed-funding': 2, 'legacy-integrations': 1 },
+    })
+
+    useGameStore.getState().prestige()
+
+    const state = useGameStore.getState()
+    expect(state.dc).toBe(2000)
+    expect(state.datasets).toHaveLength(2)
+    expect(state.prestigePoints).toBe(3 + 20)
+    expect(state.prestigeUpgrades).toEqual({ 'seed-funding': 2, 'legacy-integrations': 1 })
+  })
+
+  it('reports prestige status', () => {
+    useGameStore.setState({ lifetimeDC: 1000000 })
+
+    const status = useGameStore.getState().getPrestigeStatus()
+
+    expect(status.canPrestige).toBe(false)
+    expect(status.requirements.find(r => r.id === 'lifetimeDC')?.progress).toBe(0.5)
+    expect(status.keeps).toEqual(['unlockedTechnologies'])
+
+    readyToPrestige()
+    expect(useGameStore.getState().getPrestigeStatus().canPrestige).toBe(true)
+  })
+
+  it('raises requirements after each prestige', () => {
+    readyToPrestige()
+    useGameStore.getState().prestige()
+    useGameStore.setState({ datasets: getAllDatasets().slice(0, 10), lifetimeDC: 2000000 })
+
+    expect(useGameStore.getState().canPrestige()).toBe(false)
+
+    useGameStore.setState({ lifetimeDC: 4000000 })
+    expect(useGameStore.getState().canPrestige()).toBe(true)
+  })
+
+  it('leaves the prestige SLA bonus out of the SLA requirement', () => {
+    const datasets = getAllDatasets()
+      .slice(0, 10)
+      .map(d => ({ ...d, current_metrics: { T: 93, A: 93, C: 93 } }))
+    useGameStore.setState({ datasets, lifetimeDC: 4000000, prestigeLevel: 1 })
+
+    expect(useGameStore.getState().getGlobalSLA()).toBeGreaterThan(96)
+    expect(useGameStore.getState().canPrestige()).toBe(false)
+  })
+
+  it('resets pipelines and staff but keeps technologies', () => {
+    readyToPrestige()
+    useGameStore.setState({
+      unlockedTechnologies: ['ci-cd-automation'],
+      purchasedPipelines: ['data-validation'],
+      staff: [getStaffById('data-engineer')!],
+    })
+
+    useGameStore.getState().prestige()
+
+    const state = useGameStore.getState()
+    expect(state.unlockedTechnologies).toEqual(['ci-cd-automation'])
+    expect(state.purchasedPipelines).toEqual([])
+    expect(state.staff).toEqual([])
+  })
+
+  it('includes the prestige SLA bonus in global SLA', () => {
+    const before = useGameStore.getState().getGlobalSLA()
+    useGameStore.setState({
+      datasets: useGameStore
+        .getState()
+        .datasets.map(d => ({ ...d, current_metrics: { T: 50, A: 50, C: 50 } })),
+    })
+    const lowered = useGameStore.getState().getGlobalSLA()
+    useGameStore.setState({ prestigeLevel: 1 })
+
+    expect(before).toBe(100)
+    expect(useGameStore.getState().getGlobalSLA()).toBe(lowered + 5)
+  })
+})
+
+describe('save migration', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it.each([saveV1, saveV2, saveV3, saveV4, saveV5, saveV6])('imports v$version saves', save => {
+    expect(useGameStore.getState().importSave(JSON.stringify(save))).toEqual({
+      success: true,
+      errors: [],
+      repairs: [],
+      modified: true, // Plain JSON has no checksum
+    })
+
+    const state = useGameStore.getState()
+    expect(state.dc).toBe(save.state.dc)
+    expect(state.staff.map(s => s.id)).toEqual(['data-engineer'])
+    expect(state.eventHistory.ticksSinceLastEvent).toBeTypeOf('number')
+    expect(state.rngSeed).toBeTypeOf('number')
+  })
+
+  it('rejects saves from a newer version', () => {
+    const save = { ...saveV2, version: SAVE.VERSION + 1 }
+    const result = useGameStore.getState().importSave(JSON.stringify(save))
+
+    expect(result.success).toBe(false)
+    expect(result.errors[0].message).toMatch(/newer than supported/)
+    expect(useGameStore.getState().dc).toBe(0)
+  })
+
+  it('upgrades old saves from localStorage', async () => {
+    localStorage.setItem(SAVE.STORAGE_KEY, JSON.stringify({ state: saveV1.state, version: 1 }))
+
+    await useGameStore.persist.rehydrate()
+
+    const state = useGameStore.getState()
+    expect(state.dc).toBe(saveV1.state.dc)
+    expect(state.unpaidTicks).toBe(0)
+    expect(state.pendingEvents).toEqual([])
+    localStorage.removeItem(SAVE.STORAGE_KEY)
+  })
+})
+
+describe('save validation', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('repairs corrupted values on import', () => {
+    const save = structuredClone(saveV2)
+    save.state.datasets[0].current_metrics.T = 250
+    save.state.staff[0].effects = undefined as never
+
+    const result = useGameStore.getState().importSave(JSON.stringify(save))
+
+    expect(result.success).toBe(true)
+    expect(result.repairs.map(r => r.path)).toEqual(['datasets[0].current_metrics.T', 'staff[0]'])
+    const state = useGameStore.getState()
+    expect(state.datasets[0].current_metrics.T).toBe(100)
+    expect(state.staff[0].effects).toEqual(getStaffById('data-engineer')?.effects)
+  })
+
+  it('reports errors without touching the current game', () => {
+    const save = { ...saveV2, state: { ...saveV2.state, datasets: [{ id: 'not-a-dataset' }] } }
+
+    const result = useGameStore.getState().importSave(JSON.stringify(save))
+
+    expect(result.success).toBe(false)
+    expect(result.errors).toEqual([{ path: 'datasets', message: 'Save has no valid datasets' }])
+    expect(useGameStore.getState().datasets[0].id).toBe('customer-transactions')
+  })
+
+  it('reports unparseable saves', () => {
+    const result = useGameStore.getState().importSave('{not json')
+
+    expect(result.success).toBe(false)
+    expect(result.errors[0].path).toBe('save')
+  })
+})
+
+describe('save codes', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  it('round-trips the game through a save code', () => {
+    useGameStore.setState({ dc: 4321, prestigeLevel: 2 })
+    const code = useGameStore.getState().exportSaveCode()
+    useGameStore.getState().reset()
+
+    const result = useGameStore.getState().importSave(code)
+
+    expect(result).toEqual({ success: true, errors: [], repairs: [], modified: false })
+    expect(useGameStore.getState()).toMatchObject({ dc: 4321, prestigeLevel: 2 })
+    expect(useGameStore.getState().saveModified).toBe(false)
+  })
+
+  it('flags saves that fail their checksum', () => {
+    const [prefix, version, , payload] = useGameStore.getState().exportSaveCode().split('.')
+    const tampered = [prefix, version, '00000000', payload].join('.')
+
+    const result = useGameStore.getState().importSave(tampered)
+
+    expect(result).toMatchObject({ success: true, modified: true })
+    expect(useGameStore.getState().saveModified).toBe(true)
+
+    // The flag survives a re-export
+    const reexported = useGameStore.getState().exportSaveCode()
+    useGameStore.getState().reset()
+    expect(useGameStore.getState().importSave(reexported).modified).toBe(true)
+  })
+
+  it('rejects modified saves when asked to', () => {
+    const [prefix, version, , payload] = useGameStore.getState().exportSaveCode().split('.')
+    useGameStore.setState({ dc: 99 })
+
+    const result = useGameStore
+      .getState()
+      .importSave([prefix, version, '00000000', payload].join('.'), { rejectModified: true })
+
+    expect(result.success).toBe(false)
+    expect(result.errors[0].path).toBe('checksum')
+    expect(useGameStore.getState().dc).toBe(99)
+  })
+})
+
+describe('save slots and backups', () => {
+  // Let fire-and-forget backups finish writing
+  const flushBackups = () => new Promise(resolve => setTimeout(resolve, 0))
+
+  beforeEach(async () => {
+    useGameStore.getState().reset()
+    await flushBackups()
+    localStorage.clear()
+  })
+
+  it('saves to a named slot and restores it', async () => {
+    useGameStore.setState({ dc: 777 })
+    const slot = await useGameStore.getState().saveToSlot('Main run')
+    useGameStore.setState({ dc: 1 })
+
+    const result = await useGameStore.getState().restoreSave(slot.id)
+
+    expect(result).toMatchObject({ success: true, modified: false })
+    expect(useGameStore.getState().dc).toBe(777)
+  })
+
+  it('reports missing slots', async () => {
+    const result = await useGameStore.getState().restoreSave('slot-missing')
+
+    expect(result.success).toBe(false)
+    expect(result.errors[0].path).toBe('slot')
+  })
+
+  it.each([
+    ['reset', () => useGameStore.getState().reset()],
+    ['import', () => useGameStore.getState().importSave(JSON.stringify(saveV2))],
+  ])('backs up the game before %s', async (reason, action) => {
+    useGameStore.setState({ dc: 555 })
+    action()
+    await flushBackups()
+
+    const [backup] = useGameStore.getState().listSaves()
+    expect(backup).toMatchObject({ kind: 'backup', reason })
+
+    await useGameStore.getState().restoreSave(backup.id)
+    expect(useGameStore.getState().dc).toBe(555)
+  })
+
+  it('backs up automatically every AUTO_SAVE_INTERVAL ticks', async () => {
+    useGameStore.setState({ ticksSinceBackup: SAVE.AUTO_SAVE_INTERVAL - 2 })
+
+    useGameStore.getState().tick()
+    await flushBackups()
+    expect(useGameStore.getState().listSaves()).toHaveLength(0)
+
+    useGameStore.getState().tick()
+    await flushBackups()
+    expect(useGameStore.getState().listSaves()).toMatchObject([{ reason: 'auto' }])
+    expect(useGameStore.getState().ticksSinceBackup).toBe(0)
+  })
+
+  it('deletes saves', async () => {
+    const slot = await useGameStore.getState().saveToSlot('Main run')
+
+    expect(await useGameStore.getState().deleteSave(slot.id)).toBe(true)
+    expect(useGameStore.getState().listSaves()).toEqual([])
+  })
+})
+
+describe('multi-tab persistence', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+    localStorage.removeItem(SAVE.STORAGE_KEY)
+  })
+
+  afterEach(() => {
+    useGameStore.setState({ tabRole: 'leader' })
+  })
+
+  it('only saves from the leader tab', () => {
+    useGameStore.setState({ tabRole: 'follower', dc: 123 })
+    expect(localStorage.getItem(SAVE.STORAGE_KEY)).toBeNull()
+
+    useGameStore.setState({ tabRole: 'leader', dc: 456 })
+    expect(JSON.parse(localStorage.getItem(SAVE.STORAGE_KEY) ?? '').state.dc).toBe(456)
+  })
+})
+
+describe('time controls', () => {
+  beforeEach(() => {
+    useGameStore.getState().reset()
+  })
+
+  afterEach(() => {
+    useGameStore.setState({ isPaused: false, speed: 1 })
+  })
+
+  it('pauses and resumes', () => {
+    useGameStore.getState().pause()
+    expect(useGameStore.getState().isPaused).toBe(true)
+
+    useGameStore.getState().resume()
+    expect(useGameStore.getState().isPaused).toBe(false)
+  })
+
+  it('steps ticks while paused', () => {
+    useGameStore.getState().pause()
+    const { lifetimeDC } = useGameStore.getState()
+
+    useGameStore.getState().stepTicks(5)
+
+    expect(useGameStore.getState().lifetimeDC).toBeGreaterThan(lifetimeDC)
+    expect(useGameStore.getState().ticksSinceBackup).toBe(5)
+  })
+
+  it('steps many ticks as one batch with a single state update', () => {
+    let updates = 0
+    const unsubscribe = useGameStore.subscribe(() => updates++)
+
+    // Within the event cooldown after reset, so no event cuts the batch short
+    useGameStore.getState().stepTicks(200)
+    unsubscribe()
+
+    expect(updates).toBe(1)
+    expect(useGameStore.getState().statistics.run.ticksPlayed).toBe(200)
+    expect(useGameStore.getState().ticksSinceBackup).toBe(200)
+  })
+
+  it('caps a step at a full catch-up at top speed', () => {
+    const tick = vi.spyOn(useGameStore.getState(), 'tick').mockImplementation(() => {})
+
+    useGameStore.getState().stepTicks(1000000)
+
+    expect(tick).toHaveBeenCalledWith(MAX_CATCH_UP_TICKS * Math.max(...GAME_SPEEDS))
+    tick.mockRestore()
+  })
+
+  it('only accepts supported speeds', () => {
+    useGameStore.getState().setSpeed(10)
+    expect(useGameStore.getState().speed).toBe(10)
+
+    useGameStore.getState().setSpeed(3 as GameSpeed)
+    expect(useGameStore.getState().speed).toBe(10)
+  })
+})
@@ -7,23 +7,158 @@
  */
 
 import { create } from 'zustand'
-import { persist } from 'zustand/middleware'
-import type { Dataset, Staff, Incident, Event, Technology } from '@/types'
-import {
-  processTick,
-  calculateOfflineProgress,
-  type TickResult,
-} from '@/game/engine'
+import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware'
+import type {
+  Achievement,
+  Dataset,
+  Staff,
+  Incident,
+  Event,
+  EventHistory,
+  Pipeline,
+  Technology,
+  TechnologyBonuses,
+  OfflineReport,
+  PrestigeBonuses,
+  PrestigeStatus,
+  AchievementProgress,
+  AchievementTracking,
+  GameStatistics,
+  SpendingCategory,
+  History,
+  DomainEvent,
+  DomainEventType,
+} from '@/types'
+import { advanceTickState, type TickResult, type TickState } from '@/game/engine'
 import {
   calculateGlobalSLA,
   calculateTotalDC,
   calculateDatasetDC,
   calculateStaffMultiplier,
+  calculateIncidentDCMultiplier,
+  getHaltingIncidents,
   canPrestige,
-  calculatePrestigeBonus,
+  applyPipelineEffects,
 } from '@/game/formulas'
-import { SAVE } from '@/game/balance'
-import { getStarterDataset } from '@/data/contentLoader'
+import { createEventHistory } from '@/game/events'
+import {
+  createOfflineReport,
+  type OfflineProgressResult,
+  type OfflineProgressState,
+} from '@/game/offline'
+import { createSeed } from '@/game/random'
+import {
+  applyCarryOver,
+  applyPrestigeBonuses,
+  calculatePrestigeBonuses,
+  calculatePrestigeCurrency,
+  calculatePrestigeStatus,
+  calculateUpgradeCost,
+  getStartingDatasets,
+  type PrestigeUpgradeLevels,
+} from '@/game/prestige'
+import {
+  applyAchievementBonuses,
+  calculateAchievementProgress,
+  createAchievementTracking,
+  evaluateAchievements,
+  updateAchievementTracking,
+  updateOfflineAchievementTracking,
+} from '@/game/achievements'
+import {
+  createGameStatistics,
+  recordOfflineProgress,
+  recordSpending,
+  recordTick,
+  startNewRun,
+  updateGameStatistics,
+} from '@/game/statistics'
+import { createHistory, recordHistoryTick } from '@/game/history'
+import { calculatePayroll, getEffectiveStaff } from '@/game/payroll'
+import {
+  calculateDatasetModifiers,
+  calculateTechnologyBonuses,
+  type DatasetModifierBreakdown,
+} from '@/game/modifiers'
+import { SAVE, GAME_SPEEDS, MAX_CATCH_UP_TICKS, TICK_INTERVAL_MS } from '@/game/balance'
+import {
+  getStarterDataset,
+  getPipelineById,
+  getAvailableDatasets,
+  getAvailablePipelines,
+  getAvailableStaff,
+  getTechnologyUnlockCascade,
+  getPrestigeUpgradeById,
+} from '@/data/contentLoader'
+import { useUIStore } from './uiStore'
+import { migrateSave } from './migrations'
+import { validateSave, type SaveIssue } from './saveValidation'
+import { decodeSaveCode, encodeSaveCode, isSaveCode, type SaveFile } from './saveCode'
+import { createSaveSlotStore, type BackupReason, type SaveSlotInfo } from './saveSlots'
+import type { TabRole } from './tabSync'
+import { createEngineClient } from '@/worker/engineClient'
+
+/**
+ * Why a pipeline purchase was rejected
+ */
+export type PipelinePurchaseFailure =
+  | 'unknown-pipeline'
+  | 'unknown-dataset'
+  | 'dataset-required'
+  | 'tech-locked'
+  | 'insufficient-dc'
+  | 'already-installed'
+
+/**
+ * Result of a pipeline purchase attempt
+ */
+export type PipelinePurchaseResult =
+  | { success: true }
+  | { success: false; reason: PipelinePurchaseFailure }
+
+/**
+ * Result of a save import
+ * Repairs are reported even when the import succeeds
+ */
+export interface SaveImportResult {
+  success: boolean
+  /** Problems that stopped the import (empty on success) */
+  errors: SaveIssue[]
+  /** Problems that were fixed during the import */
+  repairs: SaveIssue[]
+  /** True if the save failed its checksum or had none (plain JSON) */
+  modified: boolean
+}
+
+/**
+ * Options for importing a save
+ */
+export interface SaveImportOptions {
+  /** Reject saves that fail their checksum instead of flagging them */
+  rejectModified?: boolean
+}
+
+/**
+ * Game speed multiplier (ticks per second)
+ */
+export type GameSpeed = (typeof GAME_SPEEDS)[number]
+
+/**
+ * Receives domain events emitted by ticks
+ */
+export type DomainEventListener = (event: DomainEvent) => void
+
+/**
+ * DC generation rate for a single dataset
+ */
+export interface DatasetDCRate {
+  /** DC per second (0 while halted) */
+  rate: number
+  /** True if an active incident halts DC generation */
+  halted: boolean
+  /** IDs of the incidents halting generation */
+  haltedBy: string[]
+}
 
 /**
  * Game State Interface
@@ -34,6 +169,13 @@ interface GameState {
   dc: number
   lifetimeDC: number
   prestigeLevel: number
+  prestigePoints: number // Unspent prestige currency (kept across prestige)
+  prestigeUpgrades: PrestigeUpgradeLevels // Prestige shop levels (kept across prestige)
+  achievements: string[] // Unlocked achievement IDs (kept across prestige)
+  achievementTracking: AchievementTracking // Achievement counters (kept across prestige)
+  statistics: GameStatistics // Per-run (reset on prestige) and lifetime statistics
+  history: History // Time-series for sparklines and charts (kept across prestige)
+  unpaidTicks: number // Consecutive ticks in debt (staff unpaid)
 
   // Game Entities
   datasets: Dataset[]
@@ -44,37 +186,87 @@ interface GameState {
   // Active Game State
   activeIncidents: Incident[]
   currentEvent: Event | null
+  pendingEvents: Event[] // Events queued while offline, shown after currentEvent
+  eventHistory: EventHistory
   lastTickTime: number
+  rngSeed: number // Engine random generator state (same seed + state = same tick)
+  saveModified: boolean // Loaded from a save that failed (or lacked) its checksum
 
   // Offline Progress Tracking
   offlineProgressApplied: boolean
+  offlineReport: OfflineReport | null
+
+  // Backups
+  ticksSinceBackup: number // Ticks since the last automatic backup
+
+  // Multi-tab
+  tabRole: TabRole // Only the leader tab ticks and saves; followers mirror it
+
+  // Time Controls (session only)
+  isPaused: boolean // Paused by the player (events pause the loop separately)
+  speed: GameSpeed // Ticks run per second by the game loop
+
+  // Engine (session only)
+  enginePerformance: TickResult['performance'] | null // Reported by the engine for the last tick
 
   // Game Loop Actions
-  tick: () => void
+  tick: (count?: number) => void
+
+  // Time Controls
+  pause: () => void
+  resume: () => void
+  setSpeed: (speed: GameSpeed) => void
+  stepTicks: (count?: number) => void
 
   // Player Actions
-  purchasePipeline: (pipelineId: string, datasetId: string) => boolean
+  purchasePipeline: (pipelineId: string, datasetId?: string) => PipelinePurchaseResult
   hireStaff: (staff: Staff) => boolean
   unlockTechnology: (tech: Technology) => boolean
   resolveEvent: (choiceId: string) => void
   prestige: () => void
+  purchasePrestigeUpgrade: (upgradeId: string) => boolean
 
   // Dataset Management
   unlockDataset: (dataset: Dataset) => void
 
   // Queries (Derived State)
   getGlobalSLA: () => number
-  getDatasetDCRate: (datasetId: string) => number
+  getDatasetDCRate: (datasetId: string) => DatasetDCRate
   getTotalDCRate: () => number
+  getPayrollRate: () => number
+  getNetDCRate: () => number
+  getDatasetModifiers: (datasetId: string) => DatasetModifierBreakdown | null
+  getTechnologyBonuses: () => TechnologyBonuses
+  getPrestigeBonuses: () => PrestigeBonuses
+  getGlobalBonuses: () => TechnologyBonuses
+  getAvailableDatasets: () => Dataset[]
+  getAvailablePipelines: () => Pipeline[]
+  getAvailableStaff: () => Staff[]
   canAfford: (cost: number) => boolean
   canPrestige: () => boolean
+  getPrestigeGain: () => number
+  getPrestigeStatus: () => PrestigeStatus
+  getAchievementProgress: () => AchievementProgress[]
+
+  // Domain Events
+  subscribeToEvents: (listener: DomainEventListener, types?: DomainEventType[]) => () => void
 
   // Offline Progress
-  applyOfflineProgress: (secondsElapsed: number) => void
+  applyOfflineProgress: (secondsElapsed: number) => Promise<OfflineReport | null>
+  catchUp: (secondsElapsed: number) => Promise<OfflineReport>
+  dismissOfflineReport: () => void
 
   // Manual Save/Load (for export/import)
   exportSave: () => string
-  importSave: (saveData: string) => boolean
+  exportSaveCode: () => string
+  importSave: (saveData: string, options?: SaveImportOptions) => SaveImportResult
+
+  // Save Slots & Backups
+  listSaves: () => SaveSlotInfo[]
+  saveToSlot: (name: string) => Promise<SaveSlotInfo>
+  restoreSave: (slotId: string) => Promise<SaveImportResult>
+  deleteSave: (slotId: string) => Promise<boolean>
+  backupSave: (reason: BackupReason) => Promise<SaveSlotInfo | null>
 
   // Reset (for testing)
   reset: () => void
@@ -89,6 +281,13 @@ const createInitialState = () => ({
   dc: 0,
   lifetimeDC: 0,
   prestigeLevel: 0,
+  prestigePoints: 0,
+  prestigeUpgrades: {} as PrestigeUpgradeLevels,
+  achievements: [] as string[],
+  achievementTracking: createAchievementTracking(),
+  statistics: createGameStatistics(),
+  history: createHistory(),
+  unpaidTicks: 0,
 
   // Entities
   datasets: [getStarterDataset()], // Start with first dataset!
@@ -99,12 +298,216 @@ const createInitialState = () => ({
   // Active state
   activeIncidents: [] as Incident[],
   currentEvent: null as Event | null,
+  pendingEvents: [] as Event[],
+  eventHistory: createEventHistory(),
   lastTickTime: Date.now(),
+  rngSeed: createSeed(),
+  saveModified: false,
 
   // Offline tracking
   offlineProgressApplied: false,
+  offlineReport: null as OfflineReport | null,
+
+  // Backups
+  ticksSinceBackup: 0,
 })
 
+/**
+ * Named save slots and rolling backups (localStorage + IndexedDB)
+ */
+const saveSlots = createSaveSlotStore()
+
+/**
+ * Game engine (Web Worker, or the main thread where workers are unavailable)
+ * The store owns the game state: it sends a snapshot with each command and
+ * applies the results that come back (see worker/protocol.ts).
+ */
+const engine = createEngineClient()
+
+/**
+ * Engine requests in flight
+ * Tick batches run one at a time so each starts from the previous batch's
+ * result; ticks requested meanwhile are queued and sent as the next batch
+ */
+let tickInFlight = false
+let queuedTicks = 0
+let offlineInFlight = false
+
+/**
+ * Most ticks that can wait for the engine: a full catch-up at top speed
+ */
+const MAX_QUEUED_TICKS = MAX_CATCH_UP_TICKS * Math.max(...GAME_SPEEDS)
+
+/**
+ * Run the ticks requested while the engine was busy, as one batch
+ */
+function runQueuedTicks() {
+  if (queuedTicks > 0) {
+    const count = queuedTicks
+    queuedTicks = 0
+    useGameStore.getState().tick(count)
+  }
+}
+
+/**
+ * Domain event subscribers (see subscribeToEvents)
+ */
+const eventListeners = new Set<DomainEventListener>()
+
+/**
+ * Send domain events to every subscriber
+ * A failing listener is logged and doesn't stop the others
+ */
+function emitDomainEvents(events: DomainEvent[]) {
+  events.forEach(event => {
+    eventListeners.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error(`[GameStore] ${event.type} listener failed:`, error)
+      }
+    })
+  })
+}
+
+/**
+ * Install purchased global pipelines on a dataset
+ * Global pipelines apply to every dataset, including ones added later
+ */
+function installGlobalPipelines(dataset: Dataset, purchasedPipelines: string[]): Dataset {
+  return purchasedPipelines
+    .map(id => getPipelineById(id))
+    .filter((p): p is Pipeline => p !== undefined)
+    .filter(p => !dataset.pipelines_installed.includes(p.id))
+    .reduce(applyPipelineEffects, dataset)
+}
+
+/**
+ * Record DC spent in the run and lifetime statistics
+ */
+function recordDCSpent(
+  statistics: GameStatistics,
+  category: SpendingCategory,
+  amount: number
+): GameStatistics {
+  return updateGameStatistics(statistics, stats => recordSpending(stats, category, amount))
+}
+
+/**
+ * Game state read by the engine for a tick
+ */
+function createTickState(state: GameState): TickState {
+  return {
+    datasets: state.datasets,
+    staff: state.staff,
+    activeIncidents: state.activeIncidents,
+    currentEvent: state.currentEvent,
+    dc: state.dc,
+    lifetimeDC: state.lifetimeDC,
+    prestigeLevel: state.prestigeLevel,
+    prestigeUpgrades: state.prestigeUpgrades,
+    achievements: state.achievements,
+    unlockedTechnologies: state.unlockedTechnologies,
+    eventHistory: state.eventHistory,
+    unpaidTicks: state.unpaidTicks,
+    rngSeed: state.rngSeed,
+  }
+}
+
+/**
+ * SLA bonus counted towards the prestige SLA requirement
+ * The prestige bonus is left out, or each prestige would make the next one easier
+ */
+function getRequirementSLABonus(state: GameState): number {
+  return applyAchievementBonuses(state.getTechnologyBonuses(), state.achievements).slaBonus
+}
+
+/**
+ * Game state read by the engine for offline progress
+ */
+function createOfflineProgressState(state: GameState): OfflineProgressState {
+  return {
+    datasets: state.datasets,
+    staff: state.staff,
+    activeIncidents: state.activeIncidents,
+    dc: state.dc,
+    lifetimeDC: state.lifetimeDC,
+    prestigeLevel: state.prestigeLevel,
+    prestigeUpgrades: state.prestigeUpgrades,
+    achievements: state.achievements,
+    unlockedTechnologies: state.unlockedTechnologies,
+    eventHistory: state.eventHistory,
+    unpaidTicks: state.unpaidTicks,
+    lastTickTime: state.lastTickTime,
+    rngSeed: state.rngSeed,
+  }
+}
+
+/**
+ * Check whether the state an engine request was made from is still current
+ * Player actions (purchases, events, imports) can land while the worker is
+ * busy; applying a result computed from the old state would undo them, so
+ * such requests are sent to the engine again
+ */
+function isCurrent<T extends object>(input: T, state: T): boolean {
+  return (Object.keys(input) as (keyof T)[]).every(key => input[key] === state[key])
+}
+
+/**
+ * Game state that is saved (localStorage, exports, save slots)
+ * Everything else is derived or session-only
+ */
+export function getPersistedState(state: GameState) {
+  return {
+    dc: state.dc,
+    lifetimeDC: state.lifetimeDC,
+    prestigeLevel: state.prestigeLevel,
+    prestigePoints: state.prestigePoints,
+    prestigeUpgrades: state.prestigeUpgrades,
+    achievements: state.achievements,
+    achievementTracking: state.achievementTracking,
+    statistics: state.statistics,
+    history: state.history,
+    unpaidTicks: state.unpaidTicks,
+    datasets: state.datasets,
+    purchasedPipelines: state.purchasedPipelines,
+    staff: state.staff,
+    unlockedTechnologies: state.unlockedTechnologies,
+    activeIncidents: state.activeIncidents,
+    currentEvent: state.currentEvent,
+    pendingEvents: state.pendingEvents,
+    eventHistory: state.eventHistory,
+    lastTickTime: state.lastTickTime,
+    rngSeed: state.rngSeed,
+    saveModified: state.saveModified,
+  }
+}
+
+/**
+ * Build the save file written by exportSave / exportSaveCode
+ */
+function createSaveFile(state: GameState): SaveFile {
+  return {
+    version: SAVE.VERSION,
+    timestamp: Date.now(),
+    state: getPersistedState(state),
+  }
+}
+
+/**
+ * localStorage that ignores writes from follower tabs
+ * Only the leader tab (see tabSync.ts) may overwrite the save
+ */
+const leaderOnlyStorage: StateStorage = {
+  getItem: name => localStorage.getItem(name),
+  setItem: (name, value) => {
+    if (useGameStore.getState().tabRole === 'leader') {
+      localStorage.setItem(name, value)
+    }
+  },
+  removeItem: name => localStorage.removeItem(name),
+}
+
 /**
  * Game Store
  * Main Zustand store with persistence
@@ -115,85 +518,290 @@ export const useGameStore = create<GameState>()(
       // Initial state
       ...createInitialState(),
 
+      // Single tabs lead; useTabSync demotes this tab if another one is running
+      tabRole: 'leader' as TabRole,
+
+      // Time controls survive prestige and reset
+      isPaused: false,
+      speed: 1 as GameSpeed,
+
+      // Nothing measured until the first tick
+      enginePerformance: null,
+
       /**
        * Main game tick - called every second by useGameTick hook
-       * Processes all game systems and updates state
+       * Sends the state to the engine and applies the results when they return
+       * (immediately when the engine runs on the main thread). Fast-forward and
+       * catch-up ticks arrive as one batch, applied with a single state update.
+       * @param count Number of ticks to run (default 1)
        */
-      tick: () => {
-        const state = get()
+      tick: (count: number = 1) => {
+        // Step 1: Wait for the previous batch (or offline simulation) to finish
+        if (tickInFlight || offlineInFlight) {
+          const dropped = Math.max(0, queuedTicks + count - MAX_QUEUED_TICKS)
+          if (dropped > 0) {
+            console.warn(`[GameStore] Engine is falling behind, dropping ${dropped} ticks`)
+          }
+          queuedTicks += count - dropped
+          return
+        }
 
-        // Process the tick
-        const result: TickResult = processTick({
-          datasets: state.datasets,
-          staff: state.staff,
-          activeIncidents: state.activeIncidents,
-          currentEvent: state.currentEvent,
-          dc: state.dc,
-          lifetimeDC: state.lifetimeDC,
-          prestigeLevel: state.prestigeLevel,
-        })
+        // Step 2: Process the ticks in the engine, sending them again if the
+        // player changed the state meanwhile
+        const submit = () => {
+          const input = createTickState(get())
+          engine.tick(
+            input,
+            count,
+            results => {
+              if (isCurrent(input, createTickState(get()))) {
+                applyResults(results)
+              } else {
+                submit()
+              }
+            },
+            message => {
+              // Stop the loop rather than failing again every second
+              tickInFlight = false
+              queuedTicks = 0
+              set({ isPaused: true })
+              useUIStore
+                .getState()
+                .addNotification(`Game paused: engine error (${message})`, 'error')
+            }
+          )
+        }
 
-        // Apply prestige bonuses to all datasets
-        const prestigeBonus = calculatePrestigeBonus(state.prestigeLevel)
-        const datasetsWithPrestige = result.updatedDatasets.map(dataset => ({
-          ...dataset,
-          current_metrics: {
-            T: Math.min(100, dataset.current_metrics.T + prestigeBonus),
-            A: Math.min(100, dataset.current_metrics.A + prestigeBonus),
-            C: Math.min(100, dataset.current_metrics.C + prestigeBonus),
-          },
-        }))
+        // Step 3: Apply a batch computed from the current state
+        const applyResults = (results: TickResult[]) => {
+          tickInFlight = false
+          const state = get()
+
+          // Step 4: Fold each tick into the state: engine state, achievement
+          // counters, statistics and history
+          const now = Date.now()
+          const tickSeconds = TICK_INTERVAL_MS / 1000
+          const { slaBonus } = state.getGlobalBonuses()
+          let tickState = createTickState(state)
+          let { achievementTracking, statistics, history, achievements, ticksSinceBackup } = state
+          let backupDue = false
+          const unlockedAchievements: Achievement[] = []
+          const events: DomainEvent[] = []
+          results.forEach(result => {
+            // Nothing runs while an event waits for the player (ticks can
+            // still be stepped), so there is nothing to count
+            if (tickState.currentEvent !== null) {
+              return
+            }
+            tickState = advanceTickState(tickState, result)
+            const globalSLA = calculateGlobalSLA(result.updatedDatasets, slaBonus)
+
+            achievementTracking = updateAchievementTracking(
+              achievementTracking,
+              result.events,
+              globalSLA,
+              tickSeconds
+            )
+            const unlocked = evaluateAchievements(
+              {
+                lifetimeDC: tickState.lifetimeDC,
+                prestigeLevel: state.prestigeLevel,
+                unlockedTechnologies: state.unlockedTechnologies,
+                tracking: achievementTracking,
+              },
+              achievements
+            )
+            achievements = [...achievements, ...unlocked.map(a => a.id)]
+            unlockedAchievements.push(...unlocked)
+
+            statistics = recordDCSpent(
+              updateGameStatistics(statistics, stats =>
+                recordTick(stats, {
+                  seconds: tickSeconds,
+                  dcByDataset: result.dcByDataset,
+                  datasets: result.updatedDatasets,
+                  events: result.events,
+                })
+              ),
+              'staff',
+              result.salaryCost
+            )
+            history = recordHistoryTick(
+              history,
+              {
+                globalSLA,
+                dcRate: result.dcGenerated / tickSeconds,
+                dc: tickState.dc,
+                datasets: result.updatedDatasets,
+              },
+              now
+            )
+
+            ticksSinceBackup++
+            if (ticksSinceBackup >= SAVE.AUTO_SAVE_INTERVAL) {
+              backupDue = true
+              ticksSinceBackup = 0
+            }
+
+            events.push(
+              ...result.events,
+              ...unlocked.map(achievement => ({
+                type: 'AchievementUnlocked' as const,
+                achievement,
+              }))
+            )
+          })
+          const lastResult = results[results.length - 1]
 
-        // Update state
-        set({
-          dc: state.dc + result.dcGenerated,
-          lifetimeDC: state.lifetimeDC + result.dcGenerated,
-          datasets: datasetsWithPrestige,
-          activeIncidents: [...result.updatedIncidents, ...result.newIncidents],
-          currentEvent: result.newEvent || state.currentEvent,
-          lastTickTime: Date.now(),
-        })
+          // Step 5: Update state (once per batch)
+          set({
+            dc: tickState.dc,
+            lifetimeDC: tickState.lifetimeDC,
+            unpaidTicks: tickState.unpaidTicks,
+            staff: tickState.staff,
+            datasets: tickState.datasets,
+            activeIncidents: tickState.activeIncidents,
+            currentEvent: tickState.currentEvent,
+            eventHistory: tickState.eventHistory,
+            rngSeed: tickState.rngSeed,
+            lastTickTime: now,
+            ticksSinceBackup,
+            enginePerformance: lastResult?.performance ?? state.enginePerformance,
+            achievementTracking,
+            statistics,
+            history,
+            achievements,
+          })
 
-        // Log performance warnings if tick was slow
-        if (result.performance.tickDurationMs > 100) {
-          console.warn(
-            `[GameStore] Slow tick: ${result.performance.tickDurationMs.toFixed(2)}ms`,
-            result.performance
-          )
+          // Rolling automatic backup
+          if (backupDue) {
+            void get().backupSave('auto')
+          }
+
+          // Tell the player when unpaid staff walk out
+          results.forEach(result => {
+            result.staffQuit.forEach(member => {
+              useUIStore
+                .getState()
+                .addNotification(`${member.name} quit after going unpaid`, 'error')
+            })
+          })
+
+          unlockedAchievements.forEach(achievement => {
+            useUIStore
+              .getState()
+              .addNotification(`Achievement unlocked: ${achievement.name}`, 'success')
+          })
+
+          // Log performance warnings if a tick was slow
+          results.forEach(result => {
+            if (result.performance.tickDurationMs > 100) {
+              console.warn(
+                `[GameStore] Slow tick: ${result.performance.tickDurationMs.toFixed(2)}ms`,
+                result.performance
+              )
+            }
+          })
+
+          // Step 6: Tell subscribers what happened (state is already updated)
+          emitDomainEvents(events)
+
+          // Step 7: Run the ticks queued meanwhile
+          runQueuedTicks()
         }
+
+        tickInFlight = true
+        submit()
+      },
+
+      /**
+       * Pause the game loop (ticks can still be stepped manually)
+       */
+      pause: () => {
+        set({ isPaused: true })
+      },
+
+      /**
+       * Resume the game loop
+       */
+      resume: () => {
+        set({ isPaused: false })
+      },
+
+      /**
+       * Set how many ticks the game loop runs per second
+       */
+      setSpeed: (speed: GameSpeed) => {
+        if (!GAME_SPEEDS.includes(speed)) {
+          console.warn('[GameStore] Unsupported game speed:', speed)
+          return
+        }
+        set({ speed })
+        console.log(`[GameStore] Game speed set to ${speed}x`)
+      },
+
+      /**
+       * Run ticks immediately, whether or not the loop is paused
+       * @param count Number of ticks to run (default 1, at most MAX_QUEUED_TICKS)
+       */
+      stepTicks: (count: number = 1) => {
+        get().tick(Math.min(count, MAX_QUEUED_TICKS))
       },
 
       /**
-       * Purchase a pipeline for a specific dataset
-       * Costs DC and applies pipeline effects
+       * Purchase a pipeline
+       * per_dataset pipelines are installed on one dataset (datasetId required);
+       * global pipelines are recorded in purchasedPipelines and installed on
+       * every current dataset, plus every dataset unlocked later
        */
-      purchasePipeline: (_pipelineId: string, _datasetId: string) => {
-        // Find the pipeline (in real implementation, this would load from pipelines.json)
-        // For now, we'll need to pass the full pipeline object or load it
-        // This is a placeholder - Phase 4 will add content loading
-        console.warn('[GameStore] purchasePipeline: Content loading not yet implemented')
-        return false
+      purchasePipeline: (pipelineId: string, datasetId?: string) => {
+        const state = get()
+        const fail = (reason: PipelinePurchaseFailure): PipelinePurchaseResult => {
+          console.warn('[GameStore] Cannot purchase pipeline:', pipelineId, reason)
+          return { success: false, reason }
+        }
+
+        const pipeline = getPipelineById(pipelineId)
+        if (!pipeline) return fail('unknown-pipeline')
+
+        // Check tech requirements
+        if (!state.getAvailablePipelines().some(p => p.id === pipelineId)) {
+          return fail('tech-locked')
+        }
+
+        if (pipeline.per_dataset) {
+          if (!datasetId) return fail('dataset-required')
 
-        // TODO: Implement in Phase 4 when we have pipelines.json
-        // const pipeline = loadPipeline(pipelineId)
-        // if (!pipeline || !state.canAfford(pipeline.cost_dc)) return false
-        //
-        // const dataset = state.datasets.find(d => d.id === datasetId)
-        // if (!dataset) return false
-        //
-        // // Check if already installed
-        // if (dataset.pipelines_installed.includes(pipelineId)) return false
-        //
-        // // Apply purchase
-        // set({
-        //   dc: state.dc - pipeline.cost_dc,
-        //   datasets: state.datasets.map(d =>
-        //     d.id === datasetId ? applyPipelineEffects(d, pipeline) : d
-        //   ),
-        //   purchasedPipelines: [...state.purchasedPipelines, pipelineId],
-        // })
-        //
-        // return true
+          const dataset = state.datasets.find(d => d.id === datasetId)
+          if (!dataset) return fail('unknown-dataset')
+          if (dataset.pipelines_installed.includes(pipelineId)) return fail('already-installed')
+        } else if (state.purchasedPipelines.includes(pipelineId)) {
+          return fail('already-installed')
+        }
+
+        if (!state.canAfford(pipeline.cost_dc)) return fail('insufficient-dc')
+
+        if (pipeline.per_dataset) {
+          set({
+            dc: state.dc - pipeline.cost_dc,
+            datasets: state.datasets.map(d =>
+              d.id === datasetId ? applyPipelineEffects(d, pipeline) : d
+            ),
+            statistics: recordDCSpent(state.statistics, 'pipelines', pipeline.cost_dc),
+          })
+        } else {
+          set({
+            dc: state.dc - pipeline.cost_dc,
+            datasets: state.datasets.map(d =>
+              d.pipelines_installed.includes(pipelineId) ? d : applyPipelineEffects(d, pipeline)
+            ),
+            purchasedPipelines: [...state.purchasedPipelines, pipelineId],
+            statistics: recordDCSpent(state.statistics, 'pipelines', pipeline.cost_dc),
+          })
+        }
+
+        console.log('[GameStore] Purchased pipeline:', pipeline.name)
+        return { success: true }
       },
 
       /**
@@ -209,6 +817,12 @@ export const useGameStore = create<GameState>()(
           return false
         }
 
+        // Check role is unlocked by the tech tree
+        if (!state.getAvailableStaff().some(s => s.id === staff.id)) {
+          console.warn('[GameStore] Staff role not unlocked:', staff.id)
+          return false
+        }
+
         // Check if can afford
         if (!state.canAfford(staff.cost_to_hire)) {
           console.warn('[GameStore] Cannot afford staff:', staff.cost_to_hire)
@@ -219,6 +833,7 @@ export const useGameStore = create<GameState>()(
         set({
           dc: state.dc - staff.cost_to_hire,
           staff: [...state.staff, staff],
+          statistics: recordDCSpent(state.statistics, 'staff', staff.cost_to_hire),
         })
 
         console.log('[GameStore] Hired staff:', staff.name)
@@ -257,10 +872,24 @@ export const useGameStore = create<GameState>()(
         set({
           dc: state.dc - tech.cost_dc,
           unlockedTechnologies: [...state.unlockedTechnologies, tech.id],
+          statistics: recordDCSpent(state.statistics, 'technologies', tech.cost_dc),
         })
 
-        // TODO: Apply technology unlocks (datasets, pipelines, staff, bonuses)
-        // This will be implemented in Phase 4 when we have content
+        // Global bonuses are derived from unlockedTechnologies on every tick
+        // (see calculateTechnologyBonuses), and availability of datasets,
+        // pipelines and staff is derived the same way - just tell the player
+        const cascade = getTechnologyUnlockCascade(tech, state.unlockedTechnologies)
+        const unlockedNames = [...cascade.datasets, ...cascade.pipelines, ...cascade.staff].map(
+          content => content.name
+        )
+        useUIStore
+          .getState()
+          .addNotification(
+            unlockedNames.length > 0
+              ? `${tech.name} researched! Now available: ${unlockedNames.join(', ')}`
+              : `${tech.name} researched!`,
+            'success'
+          )
 
         console.log('[GameStore] Unlocked technology:', tech.name)
         return true
@@ -317,11 +946,14 @@ export const useGameStore = create<GameState>()(
 
         // TODO: Handle spawn_incident effect in Phase 6
 
-        // Clear event and apply effects
+        // Clear event (showing the next queued one) and apply effects
         set({
-          currentEvent: null,
+          currentEvent: state.pendingEvents[0] ?? null,
+          pendingEvents: state.pendingEvents.slice(1),
           dc: newDC,
           datasets: newDatasets,
+          // Only choices that cost DC count as spending
+          statistics: recordDCSpent(state.statistics, 'events', -(effects.dc_change ?? 0)),
         })
 
         console.log('[GameStore] Resolved event:', event.id, 'with choice:', choiceId)
@@ -329,7 +961,9 @@ export const useGameStore = create<GameState>()(
 
       /**
        * Prestige reset
-       * Resets progress but keeps technologies and grants permanent bonus
+       * Converts lifetime DC into prestige points and starts a new run.
+       * Keeps prestige points, shop upgrades, achievements, lifetime statistics,
+       * history and whatever the carry-over policy keeps; the new run starts with the upgrades' DC and datasets
        */
       prestige: () => {
         const state = get()
@@ -339,14 +973,70 @@ export const useGameStore = create<GameState>()(
           return
         }
 
-        // Keep technologies, reset everything else
+        void get().backupSave('prestige')
+
+        const gain = calculatePrestigeCurrency(state.lifetimeDC)
+        const bonuses = state.getPrestigeBonuses()
+
+        // Keep the prestige shop, achievements and the carry-over fields, reset everything else
+        const carried = applyCarryOver(state)
+        const datasets = getStartingDatasets(
+          bonuses.startingDatasets,
+          carried.unlockedTechnologies ?? []
+        ).map(d => installGlobalPipelines(d, carried.purchasedPipelines ?? []))
+
         set({
           ...createInitialState(),
+          ...carried,
+          dc: bonuses.startingDC,
+          datasets,
           prestigeLevel: state.prestigeLevel + 1,
-          unlockedTechnologies: state.unlockedTechnologies,
+          prestigePoints: state.prestigePoints + gain,
+          prestigeUpgrades: state.prestigeUpgrades,
+          achievements: state.achievements,
+          achievementTracking: state.achievementTracking,
+          statistics: startNewRun(state.statistics),
+          history: state.history,
+          saveModified: state.saveModified,
         })
 
-        console.log('[GameStore] Prestige! New level:', state.prestigeLevel + 1)
+        console.log(
+          `[GameStore] Prestige! New level: ${state.prestigeLevel + 1}, +${gain} prestige points`
+        )
+      },
+
+      /**
+       * Buy the next level of a prestige shop upgrade
+       * Returns true if successful
+       */
+      purchasePrestigeUpgrade: (upgradeId: string) => {
+        const state = get()
+        const upgrade = getPrestigeUpgradeById(upgradeId)
+
+        if (!upgrade) {
+          console.warn('[GameStore] Unknown prestige upgrade:', upgradeId)
+          return false
+        }
+
+        const level = state.prestigeUpgrades[upgradeId] ?? 0
+        if (level >= upgrade.max_level) {
+          console.warn('[GameStore] Prestige upgrade already at max level:', upgradeId)
+          return false
+        }
+
+        const cost = calculateUpgradeCost(upgrade, level)
+        if (state.prestigePoints < cost) {
+          console.warn('[GameStore] Cannot afford prestige upgrade:', upgradeId)
+          return false
+        }
+
+        set({
+          prestigePoints: state.prestigePoints - cost,
+          prestigeUpgrades: { ...state.prestigeUpgrades, [upgradeId]: level + 1 },
+        })
+
+        console.log(`[GameStore] Bought ${upgrade.name} level ${level + 1}`)
+        return true
       },
 
       /**
@@ -362,7 +1052,7 @@ export const useGameStore = create<GameState>()(
         }
 
         set({
-          datasets: [...state.datasets, dataset],
+          datasets: [...state.datasets, installGlobalPipelines(dataset, state.purchasedPipelines)],
         })
 
         console.log('[GameStore] Unlocked dataset:', dataset.name)
@@ -373,7 +1063,7 @@ export const useGameStore = create<GameState>()(
        */
       getGlobalSLA: () => {
         const state = get()
-        return calculateGlobalSLA(state.datasets)
+        return calculateGlobalSLA(state.datasets, state.getGlobalBonuses().slaBonus)
       },
 
       /**
@@ -382,10 +1072,21 @@ export const useGameStore = create<GameState>()(
       getDatasetDCRate: (datasetId: string) => {
         const state = get()
         const dataset = state.datasets.find(d => d.id === datasetId)
-        if (!dataset) return 0
-
-        const staffMultiplier = calculateStaffMultiplier(state.staff)
-        return calculateDatasetDC(dataset, staffMultiplier)
+        if (!dataset) return { rate: 0, halted: false, haltedBy: [] }
+
+        const techBonuses = state.getGlobalBonuses()
+        const staff = getEffectiveStaff(state.staff, state.unpaidTicks)
+        const haltingIncidents = getHaltingIncidents(datasetId, state.activeIncidents)
+        const multiplier =
+          calculateStaffMultiplier(staff) *
+          techBonuses.dcMultiplier *
+          calculateIncidentDCMultiplier(datasetId, state.activeIncidents)
+
+        return {
+          rate: calculateDatasetDC(dataset, multiplier, techBonuses.slaBonus),
+          halted: haltingIncidents.length > 0,
+          haltedBy: haltingIncidents.map(incident => incident.id),
+        }
       },
 
       /**
@@ -393,7 +1094,91 @@ export const useGameStore = create<GameState>()(
        */
       getTotalDCRate: () => {
         const state = get()
-        return calculateTotalDC(state.datasets, state.staff)
+        return calculateTotalDC(
+          state.datasets,
+          getEffectiveStaff(state.staff, state.unpaidTicks),
+          state.getGlobalBonuses(),
+          state.activeIncidents
+        )
+      },
+
+      /**
+       * Get total staff salaries per second
+       */
+      getPayrollRate: () => {
+        return calculatePayroll(get().staff)
+      },
+
+      /**
+       * Get net DC rate (income minus payroll)
+       */
+      getNetDCRate: () => {
+        const state = get()
+        return state.getTotalDCRate() - state.getPayrollRate()
+      },
+
+      /**
+       * Get decay/incident modifier breakdown for a dataset
+       * Explains the dataset's effective decay rate and incident chance
+       */
+      getDatasetModifiers: (datasetId: string) => {
+        const state = get()
+        const dataset = state.datasets.find(d => d.id === datasetId)
+        if (!dataset) return null
+
+        return calculateDatasetModifiers(dataset, state.getGlobalBonuses())
+      },
+
+      /**
+       * Get combined global bonuses from unlocked technologies
+       */
+      getTechnologyBonuses: () => {
+        return calculateTechnologyBonuses(get().unlockedTechnologies)
+      },
+
+      /**
+       * Get combined bonuses from prestige level and shop upgrades
+       */
+      getPrestigeBonuses: () => {
+        const state = get()
+        return calculatePrestigeBonuses(state.prestigeLevel, state.prestigeUpgrades)
+      },
+
+      /**
+       * Get the global bonuses the engine applies (technologies + prestige + achievements)
+       */
+      getGlobalBonuses: () => {
+        const state = get()
+        return applyAchievementBonuses(
+          applyPrestigeBonuses(state.getTechnologyBonuses(), state.getPrestigeBonuses()),
+          state.achievements
+        )
+      },
+
+      /**
+       * Get datasets that can be unlocked right now (DC threshold + tech tree)
+       */
+      getAvailableDatasets: () => {
+        const state = get()
+        return getAvailableDatasets(
+          state.dc,
+          state.unlockedTechnologies,
+          state.datasets.map(d => d.id)
+        )
+      },
+
+      /**
+       * Get pipelines unlocked by the tech tree
+       */
+      getAvailablePipelines: () => {
+        return getAvailablePipelines(get().unlockedTechnologies)
+      },
+
+      /**
+       * Get staff roles unlocked by the tech tree
+       */
+      getAvailableStaff: () => {
+        return getAvailableStaff(get().unlockedTechnologies)
       },
 
       /**
@@ -405,106 +1190,353 @@ export const useGameStore = create<GameState>()(
 
       /**
        * Check if player can prestige
+       * Requirements scale with prestige level; SLA includes every global bonus but prestige's own
        */
       canPrestige: () => {
         const state = get()
-        return canPrestige(state.datasets, state.lifetimeDC)
+        return canPrestige(
+          state.datasets,
+          state.lifetimeDC,
+          state.prestigeLevel,
+          getRequirementSLABonus(state)
+        )
       },
 
       /**
-       * Apply offline progress when player returns
+       * Get prestige points a prestige right now would earn
        */
-      applyOfflineProgress: (secondsElapsed: number) => {
-        const state = get()
-
-        if (state.offlineProgressApplied) {
-          console.log('[GameStore] Offline progress already applied this session')
-          return
-        }
+      getPrestigeGain: () => {
+        return calculatePrestigeCurrency(get().lifetimeDC)
+      },
 
-        console.log(`[GameStore] Calculating offline progress for ${secondsElapsed} seconds`)
+      /**
+       * Get progress towards each prestige requirement, plus what a prestige
+       * would earn and what it would keep or reset
+       */
+      getPrestigeStatus: () => {
+        const state = get()
+        return calculatePrestigeStatus({
+          datasets: state.datasets,
+          lifetimeDC: state.lifetimeDC,
+          prestigeLevel: state.prestigeLevel,
+          slaBonus: getRequirementSLABonus(state),
+        })
+      },
 
-        const result = calculateOfflineProgress(
+      /**
+       * Get progress towards every achievement (unlocked ones included)
+       */
+      getAchievementProgress: () => {
+        const state = get()
+        return calculateAchievementProgress(
           {
-            datasets: state.datasets,
-            staff: state.staff,
-            activeIncidents: state.activeIncidents,
-            dc: state.dc,
             lifetimeDC: state.lifetimeDC,
             prestigeLevel: state.prestigeLevel,
+            unlockedTechnologies: state.unlockedTechnologies,
+            tracking: state.achievementTracking,
           },
-          secondsElapsed
+          state.achievements
         )
+      },
 
-        set({
-          dc: state.dc + result.dcEarned,
-          lifetimeDC: state.lifetimeDC + result.dcEarned,
-          datasets: result.finalDatasets,
-          activeIncidents: [], // Clear incidents after offline period
-          offlineProgressApplied: true,
-          lastTickTime: Date.now(),
+      /**
+       * Subscribe to domain events from ticks (incidents, status changes,
+       * SLA breaches, events, milestones)
+       * @param listener Called once per event, after the tick's state is applied
+       * @param types Only receive these event types (default all)
+       * @returns Unsubscribe function
+       */
+      subscribeToEvents: (listener: DomainEventListener, types?: DomainEventType[]) => {
+        const subscriber: DomainEventListener = types
+          ? event => {
+              if (types.includes(event.type)) listener(event)
+            }
+          : listener
+        eventListeners.add(subscriber)
+        return () => {
+          eventListeners.delete(subscriber)
+        }
+      },
+
+      /**
+       * Apply offline progress when player returns
+       * Stores a "while you were away" report for the UI and resolves with it.
+       * Only the leader tab applies it: while another tab is leader the game never stopped.
+       */
+      applyOfflineProgress: async (secondsElapsed: number) => {
+        if (get().offlineProgressApplied) {
+          console.log('[GameStore] Offline progress already applied this session')
+          return null
+        }
+        if (get().tabRole !== 'leader') {
+          console.log('[GameStore] Another tab is running the game, skipping offline progress')
+          set({ offlineProgressApplied: true })
+          return null
+        }
+
+        // Marked up front so a second call can't start while the first is running
+        set({ offlineProgressApplied: true })
+        return get().catchUp(secondsElapsed)
+      },
+
+      /**
+       * Simulate a gap in play with the offline simulator
+       * Used on return (applyOfflineProgress) and when a throttled tab wakes up
+       * too late to replay the missed ticks one by one. Ticks wait until the
+       * simulation is applied. Rejects if the engine fails.
+       */
+      catchUp: (secondsElapsed: number) => {
+        console.log(`[GameStore] Calculating offline progress for ${secondsElapsed} seconds`)
+
+        offlineInFlight = true
+
+        return new Promise<OfflineReport>((resolve, reject) => {
+          const applyResult = (result: OfflineProgressResult) => {
+            offlineInFlight = false
+            const state = get()
+
+            // Events that fired while offline wait for the player, one at a time
+            const queuedEvents = [...state.pendingEvents, ...result.queuedEvents]
+            const currentEvent = state.currentEvent ?? queuedEvents.shift() ?? null
+
+            const report = createOfflineReport(
+              state.datasets,
+              result,
+              secondsElapsed,
+              currentEvent ? [currentEvent, ...queuedEvents] : [],
+              state.getGlobalBonuses().slaBonus
+            )
+
+            // Offline gains count towards achievements too
+            const achievementTracking = updateOfflineAchievementTracking(
+              state.achievementTracking,
+              result.incidentsResolved.length
+            )
+            const unlockedAchievements = evaluateAchievements(
+              {
+                lifetimeDC: state.lifetimeDC + result.dcEarned,
+                prestigeLevel: state.prestigeLevel,
+                unlockedTechnologies: state.unlockedTechnologies,
+                tracking: achievementTracking,
+              },
+              state.achievements
+            )
+
+            set({
+              dc: state.dc + result.dcEarned - result.salariesPaid,
+              lifetimeDC: state.lifetimeDC + result.dcEarned,
+              unpaidTicks: result.unpaidTicks,
+              staff: result.finalStaff,
+              datasets: result.finalDatasets,
+              activeIncidents: result.finalIncidents,
+              currentEvent,
+              pendingEvents: queuedEvents,
+              eventHistory: result.eventHistory,
+              rngSeed: result.rngSeed,
+              offlineReport: report,
+              lastTickTime: Date.now(),
+              statistics: updateGameStatistics(state.statistics, stats =>
+                recordOfflineProgress(stats, {
+                  ticks: result.ticksSimulated,
+                  salariesPaid: result.salariesPaid,
+                  incidentsStarted: result.incidentsStarted,
+                  incidentsResolved: result.incidentsResolved,
+                })
+              ),
+              achievementTracking,
+              ...(unlockedAchievements.length > 0 && {
+                achievements: [...state.achievements, ...unlockedAchievements.map(a => a.id)],
+              }),
+            })
+
+            console.log(
+              `[GameStore] Offline progress applied: +${result.dcEarned} DC, -${Math.floor(result.salariesPaid)} DC salaries, ${result.incidentsStarted.length} incidents, ${result.queuedEvents.length} events over ${result.ticksSimulated} ticks`
+            )
+            resolve(report)
+
+            unlockedAchievements.forEach(achievement => {
+              useUIStore
+                .getState()
+                .addNotification(`Achievement unlocked: ${achievement.name}`, 'success')
+            })
+            emitDomainEvents(
+              unlockedAchievements.map(achievement => ({
+                type: 'AchievementUnlocked' as const,
+                achievement,
+              }))
+            )
+
+            // Ticks requested during the simulation
+            runQueuedTicks()
+          }
+
+          // Simulate again if the player changed the state meanwhile
+          const submit = () => {
+            const input = createOfflineProgressState(get())
+            engine.calculateOfflineProgress(
+              input,
+              secondsElapsed,
+              result => {
+                if (isCurrent(input, createOfflineProgressState(get()))) {
+                  applyResult(result)
+                } else {
+                  submit()
+                }
+              },
+              message => {
+                offlineInFlight = false
+                useUIStore
+                  .getState()
+                  .addNotification(`Offline progress failed: ${message}`, 'error')
+                reject(new Error(`Offline progress failed: ${message}`))
+                runQueuedTicks()
+              }
+            )
+          }
+
+          submit()
         })
+      },
 
-        console.log(
-          `[GameStore] Offline progress applied: +${result.dcEarned} DC over ${result.ticksSimulated} ticks`
-        )
+      /**
+       * Dismiss the "while you were away" report
+       */
+      dismissOfflineReport: () => {
+        set({ offlineReport: null })
       },
 
       /**
        * Export save data as JSON string
        */
       exportSave: () => {
-        const state = get()
-        const saveData = {
-          version: SAVE.VERSION,
-          timestamp: Date.now(),
-          state: {
-            dc: state.dc,
-            lifetimeDC: state.lifetimeDC,
-            prestigeLevel: state.prestigeLevel,
-            datasets: state.datasets,
-            purchasedPipelines: state.purchasedPipelines,
-            staff: state.staff,
-            unlockedTechnologies: state.unlockedTechnologies,
-            activeIncidents: state.activeIncidents,
-            lastTickTime: state.lastTickTime,
-          },
-        }
-        return JSON.stringify(saveData, null, 2)
+        return JSON.stringify(createSaveFile(get()), null, 2)
       },
 
       /**
-       * Import save data from JSON string
+       * Export save data as a compact, checksummed save code
        */
-      importSave: (saveData: string) => {
-        try {
-          const parsed = JSON.parse(saveData)
+      exportSaveCode: () => {
+        return encodeSaveCode(createSaveFile(get()))
+      },
 
-          // Validate version
-          if (parsed.version !== SAVE.VERSION) {
-            console.error('[GameStore] Invalid save version:', parsed.version)
-            return false
-          }
+      /**
+       * Import save data from a JSON string or save code (auto-detected)
+       * Migrates, validates and repairs the save before applying it
+       *
+       * Saves that fail their checksum (and plain JSON saves, which have none)
+       * are flagged as modified. The flag sticks to the game until reset.
+       */
+      importSave: (saveData: string, options: SaveImportOptions = {}) => {
+        const fail = (errors: SaveIssue[], repairs: SaveIssue[] = []): SaveImportResult => {
+          console.error('[GameStore] Failed to import save:', errors)
+          return { success: false, errors, repairs, modified: false }
+        }
 
-          // Apply loaded state
-          set({
-            ...parsed.state,
-            currentEvent: null, // Don't restore events
-            offlineProgressApplied: false, // Allow offline progress calculation
-          })
+        let migrated: unknown
+        let verified: boolean
+        try {
+          // Step 1: Decode the save (save code or plain JSON)
+          let version: unknown
+          let rawState: unknown
+          if (isSaveCode(saveData)) {
+            const decoded = decodeSaveCode(saveData)
+            version = decoded.version
+            rawState = decoded.state
+            verified = decoded.checksumValid
+          } else {
+            const parsed = JSON.parse(saveData)
+            version = parsed?.version
+            rawState = parsed?.state
+            verified = false
+          }
 
-          console.log('[GameStore] Save imported successfully')
-          return true
+          // Step 2: Upgrade older saves to the current schema (throws on unsupported versions)
+          migrated = migrateSave(rawState, version as number)
         } catch (error) {
-          console.error('[GameStore] Failed to import save:', error)
-          return false
+          const message = error instanceof Error ? error.message : String(error)
+          return fail([{ path: 'save', message }])
+        }
+
+        if (!verified && options.rejectModified) {
+          return fail([
+            { path: 'checksum', message: 'Save is modified or unverified (checksum mismatch)' },
+          ])
+        }
+
+        // Step 3: Check against the game types and content, repairing what we can
+        const { state, errors, repairs } = validateSave(migrated)
+        if (!state) {
+          return fail(errors, repairs)
+        }
+        if (repairs.length > 0) {
+          console.warn('[GameStore] Repaired imported save:', repairs)
+        }
+
+        // Step 4: Back up the current game, then apply loaded state
+        void get().backupSave('import')
+        const modified = state.saveModified || !verified
+        set({
+          ...state,
+          saveModified: modified,
+          offlineProgressApplied: false, // Allow offline progress calculation
+        })
+
+        console.log('[GameStore] Save imported successfully', modified ? '(modified)' : '')
+        return { success: true, errors: [], repairs, modified }
+      },
+
+      /**
+       * List save slots and backups, newest first
+       */
+      listSaves: () => saveSlots.list(),
+
+      /**
+       * Save the current game to a named slot (overwrites a slot with the same name)
+       */
+      saveToSlot: (name: string) => {
+        return saveSlots.save(name, get().exportSaveCode())
+      },
+
+      /**
+       * Load a save slot or backup
+       * Goes through importSave, so the current game is backed up first
+       */
+      restoreSave: async (slotId: string) => {
+        const payload = await saveSlots.read(slotId)
+        if (payload === null) {
+          console.error('[GameStore] Save slot not found:', slotId)
+          return {
+            success: false,
+            errors: [{ path: 'slot', message: `Save slot ${slotId} not found` }],
+            repairs: [],
+            modified: false,
+          }
         }
+        return get().importSave(payload)
+      },
+
+      /**
+       * Delete a save slot or backup
+       */
+      deleteSave: (slotId: string) => saveSlots.delete(slotId),
+
+      /**
+       * Back up the current game
+       * The snapshot is taken synchronously, so callers can change state right
+       * after calling this without waiting for the write
+       */
+      backupSave: (reason: BackupReason) => {
+        return saveSlots.backup(reason, get().exportSaveCode()).catch(error => {
+          console.error('[GameStore] Backup failed:', error)
+          return null
+        })
       },
 
       /**
        * Reset game to initial state (for testing/new game)
        */
       reset: () => {
+        void get().backupSave('reset')
         set(createInitialState())
         console.log('[GameStore] Game reset to initial state')
       },
@@ -512,18 +1544,12 @@ export const useGameStore = create<GameState>()(
     {
       name: SAVE.STORAGE_KEY, // 'data-empire-save'
       version: SAVE.VERSION,
+      // Upgrade saves written by older versions of the game
+      migrate: (persistedState, version) =>
+        migrateSave(persistedState, version) as unknown as GameState,
+      storage: createJSONStorage(() => leaderOnlyStorage),
       // Only persist game state, not derived functions
-      partialize: (state) => ({
-        dc: state.dc,
-        lifetimeDC: state.lifetimeDC,
-        prestigeLevel: state.prestigeLevel,
-        datasets: state.datasets,
-        purchasedPipelines: state.purchasedPipelines,
-        staff: state.staff,
-        unlockedTechnologies: state.unlockedTechnologies,
-        activeIncidents: state.activeIncidents,
-        lastTickTime: state.lastTickTime,
-      }),
+      partialize: state => getPersistedState(state),
     }
   )
 )
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { migrateSave, SAVE_MIGRATIONS } from './migrations'
+import { SAVE } from '@/game/balance'
+import { createGameStatistics } from '@/game/statistics'
+import { createHistory } from '@/game/history'
+import saveV1 from './fixtures/saves/v1.json'
+import saveV2 from './fixtures/saves/v2.json'
+import saveV3 from './fixtures/saves/v3.json'
+import saveV4 from './fixtures/saves/v4.json'
+import saveV5 from './fixtures/saves/v5.json'
+import saveV6 from './fixtures/saves/v6.json'
+
+// One fixture save per historical version (add one whenever SAVE.VERSION changes)
+const FIXTURES: Record<number, { version: number; state: Record<string, unknown> }> = {
+  1: saveV1,
+  2: saveV2,
+  3: saveV3,
+  4: saveV4,
+  5: saveV5,
+  6: saveV6,
+}
+
+describe('SAVE_MIGRATIONS', () => {
+  it('has a migration from every previous version', () => {
+    for (let version = 1; version < SAVE.VERSION; version++) {
+      expect(SAVE_MIGRATIONS[version]).toBeTypeOf('function')
+    }
+  })
+
+  it('has a fixture save for every version', () => {
+    for (let version = 1; version <= SAVE.VERSION; version++) {
+      expect(FIXTURES[version]?.version).toBe(version)
+    }
+  })
+})
+
+describe('migrateSave', () => {
+  const currentKeys = Object.keys(FIXTURES[SAVE.VERSION].state).sort()
+
+  it.each(Object.values(FIXTURES))('upgrades v$version saves to the current schema', save => {
+    const migrated = migrateSave(save.state, save.version)
+
+    expect(Object.keys(migrated).sort()).toEqual(currentKeys)
+    expect(migrated.dc).toBe(save.state.dc)
+    expect(migrated.datasets).toEqual(save.state.datasets)
+  })
+
+  it('leaves current saves unchanged', () => {
+    expect(migrateSave(saveV6.state, 6)).toEqual(saveV6.state)
+  })
+
+  it('fills defaults for fields added in v6', () => {
+    const migrated = migrateSave(saveV5.state, 5)
+
+    expect(migrated.history).toEqual(createHistory())
+  })
+
+  it('fills defaults for fields added in v5', () => {
+    const migrated = migrateSave(saveV4.state, 4)
+
+    expect(migrated.statistics).toEqual(createGameStatistics())
+  })
+
+  it('fills defaults for fields added in v4', () => {
+    const migrated = migrateSave(saveV3.state, 3)
+
+    expect(migrated.achievements).toEqual([])
+    expect(migrated.achievementTracking).toEqual({ incidentsResolved: 0, slaStreakSeconds: {} })
+  })
+
+  it('fills defaults for fields added in v2', () => {
+    const migrated = migrateSave(saveV1.state, 1)
+
+    expect(migrated.unpaidTicks).toBe(0)
+    expect(migrated.pendingEvents).toEqual([])
+    expect(migrated.eventHistory).toEqual({
+      ticksSinceLastEvent: 0,
+      lastEventId: null,
+      triggerCounts: {},
+    })
+    expect(migrated.rngSeed).toBeTypeOf('number')
+  })
+
+  it('does not modify the input', () => {
+    const state = { dc: 5 }
+    migrateSave(state, 1)
+    expect(state).toEqual({ dc: 5 })
+  })
+
+  it('rejects saves from a newer version', () => {
+    expect(() => migrateSave({}, SAVE.VERSION + 1)).toThrow(/newer than supported/)
+  })
+
+  it('rejects invalid versions and states', () => {
+    expect(() => migrateSave({}, 0)).toThrow(/Invalid save version/)
+    expect(() => migrateSave({}, NaN)).toThrow(/Invalid save version/)
+    expect(() => migrateSave(null, 1)).toThrow(/must be an object/)
+    expect(() => migrateSave([], 1)).toThrow(/must be an object/)
+  })
+
+  it('fails if a migration step is missing', () => {
+    expect(() => migrateSave({}, 1, SAVE.VERSION + 1)).toThrow(/No migration registered/)
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Save Migrations - Upgrade old saves to the current schema
+ * Used by both localStorage persistence (zustand `migrate`) and importSave
+ *
+ * Saves are upgraded one version at a time (v1 → v2 → v3 …), so each
+ * migration only needs to know about the schema change it introduces.
+ *
+ * To change the save schema:
+ * 1. Bump SAVE.VERSION
+ * 2. Register a migration from the previous version in SAVE_MIGRATIONS
+ * 3. Add a fixture save for the new version to fixtures/saves
+ */
+
+import { SAVE } from '@/game/balance'
+import { createAchievementTracking } from '@/game/achievements'
+import { createEventHistory } from '@/game/events'
+import { createGameStatistics } from '@/game/statistics'
+import { createHistory } from '@/game/history'
+import { createSeed } from '@/game/random'
+
+/**
+ * Persisted game state as stored in a save (shape depends on its version)
+ */
+export type SaveState = Record<string, unknown>
+
+/**
+ * Upgrade a save by exactly one version
+ */
+export type SaveMigration = (state: SaveState) => SaveState
+
+/**
+ * Registered migrations, keyed by the version they upgrade FROM
+ */
+export const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // v1 → v2: payroll debt, event scheduler, offline event queue, seeded RNG
+  1: state => ({
+    ...state,
+    unpaidTicks: state.unpaidTicks ?? 0,
+    eventHistory: state.eventHistory ?? createEventHistory(),
+    pendingEvents: state.pendingEvents ?? [],
+    rngSeed: state.rngSeed ?? createSeed(),
+  }),
+
+  // v2 → v3: prestige currency and shop
+  2: state => ({
+    ...state,
+    prestigePoints: state.prestigePoints ?? 0,
+    prestigeUpgrades: state.prestigeUpgrades ?? {},
+  }),
+
+  // v3 → v4: achievements
+  3: state => ({
+    ...state,
+    achievements: state.achievements ?? [],
+    achievementTracking: state.achievementTracking ?? createAchievementTracking(),
+  }),
+
+  // v4 → v5: run and lifetime statistics
+  4: state => ({
+    ...state,
+    statistics: state.statistics ?? createGameStatistics(),
+  }),
+
+  // v5 → v6: time-series history
+  5: state => ({
+    ...state,
+    history: state.history ?? createHistory(),
+  }),
+}
+
+/**
+ * Upgrade a save to the target version
+ *
+ * @param state Saved game state
+ * @param fromVersion Version the save was written with
+ * @param toVersion Version to upgrade to (default SAVE.VERSION)
+ * @returns Upgraded state
+ * @throws If the save isn't an object, its version is invalid or newer than
+ * supported, or a migration step is missing
+ */
+export function migrateSave(
+  state: unknown,
+  fromVersion: number,
+  toVersion: number = SAVE.VERSION
+): SaveState {
+  if (typeof state !== 'object' || state === null || Array.isArray(state)) {
+    throw new Error('Save state must be an object')
+  }
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new Error(`Invalid save version: ${fromVersion}`)
+  }
+  if (fromVersion > toVersion) {
+    throw new Error(`Save version ${fromVersion} is newer than supported version ${toVersion}`)
+  }
+
+  let migrated = { ...(state as SaveState) }
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migration = SAVE_MIGRATIONS[version]
+    if (!migration) {
+      throw new Error(`No migration registered from save version ${version}`)
+    }
+    migrated = migration(migrated)
+  }
+
+  return migrated
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateChecksum,
+  decodeSaveCode,
+  encodeSaveCode,
+  isSaveCode,
+  SAVE_CODE_PREFIX,
+} from './saveCode'
+import { compress, decompress, fromBase64Url, toBase64Url } from '@/utils/compression'
+import saveV2 from './fixtures/saves/v2.json'
+
+describe('compression', () => {
+  it.each([
+    ['empty', ''],
+    ['repetitive', 'abababababababababab'.repeat(50)],
+    ['unicode', 'Données — 数据 🚀'.repeat(10)],
+    ['save JSON', JSON.stringify(saveV2)],
+  ])('round-trips %s text', (_, text) => {
+    expect(decompress(compress(text))).toBe(text)
+  })
+
+  it('round-trips input larger than the dictionary', () => {
+    // Pseudo-random text fills the 16-bit dictionary and forces a clear
+    let seed = 1
+    const text = Array.from({ length: 300000 }, () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648
+      return String.fromCharCode(32 + (seed % 90))
+    }).join('')
+
+    expect(decompress(compress(text))).toBe(text)
+  })
+
+  it('shrinks save JSON', () => {
+    const json = JSON.stringify(saveV2, null, 2)
+    expect(compress(json).length).toBeLessThan(json.length * 0.6)
+  })
+
+  it('round-trips base64url without unsafe characters', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i)
+    const encoded = toBase64Url(bytes)
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(fromBase64Url(encoded)).toEqual(bytes)
+  })
+
+  it('rejects invalid base64url', () => {
+    expect(() => fromBase64Url('abc$')).toThrow('Invalid base64url data')
+  })
+})
+
+describe('save codes', () => {
+  const save = { version: saveV2.version, timestamp: saveV2.timestamp, state: saveV2.state }
+
+  it('encodes prefix, version and checksum', () => {
+    const code = encodeSaveCode(save)
+    const [prefix, version, checksum] = code.split('.')
+
+    expect(prefix).toBe(SAVE_CODE_PREFIX)
+    expect(version).toBe(String(saveV2.version))
+    expect(checksum).toBe(calculateChecksum(JSON.stringify(save)))
+    expect(isSaveCode(code)).toBe(true)
+    expect(isSaveCode(JSON.stringify(save))).toBe(false)
+  })
+
+  it('round-trips a save', () => {
+    expect(decodeSaveCode(encodeSaveCode(save))).toEqual({
+      version: saveV2.version,
+      state: saveV2.state,
+      checksumValid: true,
+    })
+  })
+
+  it('reports a checksum mismatch for edited codes', () => {
+    const [prefix, version, , payload] = encodeSaveCode(save).split('.')
+    const edited = toBase64Url(compress(JSON.stringify({ ...save, state: { dc: 1e12 } })))
+    const code = [prefix, version, calculateChecksum('original'), edited].join('.')
+
+    expect(decodeSaveCode(code).checksumValid).toBe(false)
+    expect(decodeSaveCode([prefix, version, '00000000', payload].join('.')).checksumValid).toBe(
+      false
+    )
+  })
+
+  it('rejects malformed codes', () => {
+    expect(() => decodeSaveCode('DE1.2.abc')).toThrow('Save code must look like')
+    expect(() => decodeSaveCode('DE1.x.00000000.AAAA')).toThrow('Invalid save code version')
+
+    const [prefix, , checksum, payload] = encodeSaveCode(save).split('.')
+    expect(() => decodeSaveCode([prefix, 1, checksum, payload].join('.'))).toThrow(
+      "doesn't match its data"
+    )
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Save Codes - Compact, shareable save format
+ * Alternative to the pretty-printed JSON export, safe to paste or put in a URL
+ *
+ * Format: DE1.<version>.<checksum>.<payload>
+ * - DE1: format prefix (bump if the code layout itself changes)
+ * - version: SAVE.VERSION the save was written with (used by migrateSave)
+ * - checksum: FNV-1a hash of the save JSON, as 8 hex digits
+ * - payload: the save JSON, compressed and base64url-encoded
+ *
+ * The checksum detects edited codes. It isn't a signature (anyone reading
+ * this file can recompute it), so it keeps casual comparisons honest rather
+ * than making tampering impossible.
+ */
+
+import { compress, decompress, fromBase64Url, toBase64Url } from '@/utils/compression'
+
+/**
+ * Format prefix of save codes
+ */
+export const SAVE_CODE_PREFIX = 'DE1'
+
+/**
+ * Save file as written by exportSave
+ */
+export interface SaveFile {
+  version: number
+  timestamp: number
+  state: Record<string, unknown>
+}
+
+/**
+ * Contents of a decoded save code
+ */
+export interface DecodedSaveCode {
+  /** Save version from the code header */
+  version: number
+  /** Saved game state (not yet migrated or validated) */
+  state: unknown
+  /** False if the payload doesn't match its checksum */
+  checksumValid: boolean
+}
+
+/**
+ * FNV-1a hash of a string, as 8 hex digits
+ */
+export function calculateChecksum(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Check whether text looks like a save code (rather than JSON)
+ */
+export function isSaveCode(text: string): boolean {
+  return text.trim().startsWith(`${SAVE_CODE_PREFIX}.`)
+}
+
+/**
+ * Encode a save file as a save code
+ * @param save Save file to encode
+ * @returns Save code string
+ */
+export function encodeSaveCode(save: SaveFile): string {
+  const json = JSON.stringify(save)
+  const payload = toBase64Url(compress(json))
+  return [SAVE_CODE_PREFIX, save.version, calculateChecksum(json), payload].join('.')
+}
+
+/**
+ * Decode a save code
+ * A checksum mismatch is reported rather than thrown, so callers can decide
+ * whether to load modified saves
+ *
+ * @param code Save code string
+ * @returns Decoded save
+ * @throws If the code is malformed or can't be decompressed
+ */
+export function decodeSaveCode(code: string): DecodedSaveCode {
+  const parts = code.trim().split('.')
+  if (parts.length !== 4 || parts[0] !== SAVE_CODE_PREFIX) {
+    throw new Error(`Save code must look like ${SAVE_CODE_PREFIX}.<version>.<checksum>.<data>`)
+  }
+
+  const [, versionText, checksum, payload] = parts
+  const version = Number(versionText)
+  if (!Number.isInteger(version)) {
+    throw new Error(`Invalid save code version: ${versionText}`)
+  }
+
+  const json = decompress(fromBase64Url(payload))
+  const save = JSON.parse(json)
+  if (save?.version !== version) {
+    throw new Error(`Save code header version ${version} doesn't match its data`)
+  }
+
+  return {
+    version,
+    state: save.state,
+    checksumValid: calculateChecksum(json) === checksum,
+  }
+}
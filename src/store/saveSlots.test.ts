@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createSaveSlotStore, type PayloadStore } from './saveSlots'
+import { SAVE } from '@/game/balance'
+
+// In-memory stand-in for IndexedDB
+const createMemoryPayloadStore = () => {
+  const data = new Map<string, string>()
+  const store: PayloadStore = {
+    get: async key => data.get(key) ?? null,
+    set: async (key, value) => {
+      data.set(key, value)
+    },
+    delete: async key => {
+      data.delete(key)
+    },
+  }
+  return { data, store }
+}
+
+describe('createSaveSlotStore', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('saves, lists and reads named slots', async () => {
+    const slots = createSaveSlotStore({ largePayloads: null })
+
+    await slots.save('Main run', 'payload-1', 1000)
+    await slots.save('Experiment', 'payload-2', 2000)
+
+    expect(slots.list().map(s => s.name)).toEqual(['Experiment', 'Main run'])
+    expect(slots.list()[1]).toEqual({
+      id: 'slot-Main run',
+      name: 'Main run',
+      kind: 'manual',
+      createdAt: 1000,
+      size: 9,
+      storage: 'local',
+    })
+    expect(await slots.read('slot-Main run')).toBe('payload-1')
+  })
+
+  it('overwrites slots with the same name', async () => {
+    const slots = createSaveSlotStore({ largePayloads: null })
+
+    await slots.save('Main run', 'old', 1000)
+    await slots.save(' Main run ', 'new', 2000)
+
+    expect(slots.list()).toHaveLength(1)
+    expect(await slots.read('slot-Main run')).toBe('new')
+  })
+
+  it('requires a slot name', async () => {
+    const slots = createSaveSlotStore({ largePayloads: null })
+    await expect(slots.save('  ', 'payload')).rejects.toThrow('Save slot name is required')
+  })
+
+  it('keeps a rolling window of backups', async () => {
+    const slots = createSaveSlotStore({ largePayloads: null })
+    await slots.save('Main run', 'manual', 0)
+
+    for (let i = 1; i <= SAVE.MAX_BACKUPS + 3; i++) {
+      await slots.backup('auto', `backup-${i}`, i * 1000)
+    }
+
+    const backups = slots.list().filter(s => s.kind === 'backup')
+    expect(backups).toHaveLength(SAVE.MAX_BACKUPS)
+    expect(backups[0]).toMatchObject({ reason: 'auto', createdAt: (SAVE.MAX_BACKUPS + 3) * 1000 })
+    expect(backups.at(-1)?.createdAt).toBe(4000)
+    // Manual slots are never rotated out
+    expect(slots.list().some(s => s.kind === 'manual')).toBe(true)
+    // Expired payloads are deleted too
+    expect(Object.keys(localStorage).filter(key => key.includes(':backup-'))).toHaveLength(
+      SAVE.MAX_BACKUPS
+    )
+  })
+
+  it('stores large payloads in the large payload store', async () => {
+    const { data, store } = createMemoryPayloadStore()
+    const slots = createSaveSlotStore({ largePayloads: store })
+    const large = 'x'.repeat(SAVE.LOCAL_SLOT_MAX_SIZE + 1)
+
+    const small = await slots.save('Small', 'tiny')
+    const big = await slots.save('Big', large)
+
+    expect(small.storage).toBe('local')
+    expect(big.storage).toBe('indexeddb')
+    expect(data.get(big.id)).toBe(large)
+    expect(await slots.read(big.id)).toBe(large)
+
+    // Shrinking the save moves it back to localStorage
+    await slots.save('Big', 'tiny again')
+    expect(data.has(big.id)).toBe(false)
+    expect(await slots.read(big.id)).toBe('tiny again')
+  })
+
+  it('deletes slots', async () => {
+    const slots = createSaveSlotStore({ largePayloads: null })
+    const slot = await slots.save('Main run', 'payload')
+
+    expect(await slots.delete(slot.id)).toBe(true)
+    expect(await slots.delete(slot.id)).toBe(false)
+    expect(slots.list()).toEqual([])
+    expect(await slots.read(slot.id)).toBeNull()
+  })
+
+  it('recovers from a corrupt index', () => {
+    localStorage.setItem(SAVE.SLOT_INDEX_KEY, '{broken')
+    expect(createSaveSlotStore({ largePayloads: null }).list()).toEqual([])
+  })
+})
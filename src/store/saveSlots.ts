@@ -0,0 +1,233 @@
+/**
+ * Save Slots - Named saves and rolling automatic backups
+ * Lets players keep several games and recover from a bad import or reset
+ *
+ * The slot index (names, timestamps, sizes) lives in localStorage so it can
+ * be listed synchronously. Payloads are save codes (see saveCode.ts): small
+ * ones sit next to the index in localStorage, larger ones go to IndexedDB
+ * when the browser has it.
+ */
+
+import { SAVE } from '@/game/balance'
+
+/**
+ * Why a backup was taken
+ */
+export type BackupReason = 'auto' | 'prestige' | 'reset' | 'import'
+
+/**
+ * Where a slot's payload is stored
+ */
+export type SlotStorage = 'local' | 'indexeddb'
+
+/**
+ * Save slot metadata (payload is stored separately)
+ */
+export interface SaveSlotInfo {
+  id: string
+  name: string
+  kind: 'manual' | 'backup'
+  /** Why the backup was taken (backups only) */
+  reason?: BackupReason
+  createdAt: number
+  /** Payload length in characters */
+  size: number
+  storage: SlotStorage
+}
+
+/**
+ * Async key/value store for slot payloads
+ */
+export interface PayloadStore {
+  get: (key: string) => Promise<string | null>
+  set: (key: string, value: string) => Promise<void>
+  delete: (key: string) => Promise<void>
+}
+
+/**
+ * Save slot API used by the game store
+ */
+export interface SaveSlotStore {
+  /** All slots, newest first */
+  list: () => SaveSlotInfo[]
+  /** Write a named slot (overwrites a slot with the same name) */
+  save: (name: string, payload: string, now?: number) => Promise<SaveSlotInfo>
+  /** Write a backup, deleting the oldest beyond SAVE.MAX_BACKUPS */
+  backup: (reason: BackupReason, payload: string, now?: number) => Promise<SaveSlotInfo>
+  /** Read a slot's payload (null if missing) */
+  read: (id: string) => Promise<string | null>
+  /** Delete a slot (false if it doesn't exist) */
+  delete: (id: string) => Promise<boolean>
+}
+
+/**
+ * Storage backends for a save slot store
+ */
+export interface SaveSlotBackends {
+  /** Holds the slot index and small payloads (default localStorage) */
+  storage?: Storage
+  /** Holds large payloads (default IndexedDB, null to keep everything local) */
+  largePayloads?: PayloadStore | null
+}
+
+/**
+ * Payload store backed by a Web Storage object
+ */
+export function createLocalPayloadStore(storage: Storage): PayloadStore {
+  const storageKey = (key: string) => `${SAVE.SLOT_INDEX_KEY}:${key}`
+
+  return {
+    get: async key => storage.getItem(storageKey(key)),
+    set: async (key, value) => storage.setItem(storageKey(key), value),
+    delete: async key => storage.removeItem(storageKey(key)),
+  }
+}
+
+/**
+ * Payload store backed by IndexedDB
+ * The database is opened on first use
+ */
+export function createIndexedDBPayloadStore(
+  databaseName: string = SAVE.SLOT_DATABASE
+): PayloadStore {
+  const STORE_NAME = 'payloads'
+  let database: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    return database
+  }
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open()
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  return {
+    get: async key => (await run('readonly', store => store.get(key))) ?? null,
+    set: async (key, value) => {
+      await run('readwrite', store => store.put(value, key))
+    },
+    delete: async key => {
+      await run('readwrite', store => store.delete(key))
+    },
+  }
+}
+
+/**
+ * Create a save slot store
+ *
+ * @param backends Storage backends (defaults to localStorage + IndexedDB)
+ * @returns Save slot API
+ */
+export function createSaveSlotStore(backends: SaveSlotBackends = {}): SaveSlotStore {
+  const storage = backends.storage ?? localStorage
+  const local = createLocalPayloadStore(storage)
+  const largePayloads =
+    backends.largePayloads !== undefined
+      ? backends.largePayloads
+      : typeof indexedDB !== 'undefined'
+        ? createIndexedDBPayloadStore()
+        : null
+
+  const payloadStore = (slot: SaveSlotInfo) =>
+    slot.storage === 'indexeddb' && largePayloads ? largePayloads : local
+
+  const readIndex = (): SaveSlotInfo[] => {
+    try {
+      const index = JSON.parse(storage.getItem(SAVE.SLOT_INDEX_KEY) ?? '[]')
+      return Array.isArray(index) ? index : []
+    } catch {
+      console.error('[SaveSlots] Slot index is corrupt, starting a new one')
+      return []
+    }
+  }
+
+  const writeIndex = (index: SaveSlotInfo[]) => {
+    storage.setItem(SAVE.SLOT_INDEX_KEY, JSON.stringify(index))
+  }
+
+  const removeSlot = async (slot: SaveSlotInfo) => {
+    writeIndex(readIndex().filter(s => s.id !== slot.id))
+    await payloadStore(slot).delete(slot.id)
+  }
+
+  const write = async (slot: Omit<SaveSlotInfo, 'size' | 'storage'>, payload: string) => {
+    const storageType: SlotStorage =
+      payload.length > SAVE.LOCAL_SLOT_MAX_SIZE && largePayloads ? 'indexeddb' : 'local'
+    const info: SaveSlotInfo = { ...slot, size: payload.length, storage: storageType }
+
+    // Payload first, so the index never points at missing data
+    const previous = readIndex().find(s => s.id === info.id)
+    await payloadStore(info).set(info.id, payload)
+    if (previous && previous.storage !== info.storage) {
+      await payloadStore(previous).delete(previous.id)
+    }
+
+    writeIndex([info, ...readIndex().filter(s => s.id !== info.id)])
+    return info
+  }
+
+  return {
+    list: () => [...readIndex()].sort((a, b) => b.createdAt - a.createdAt),
+
+    save: async (name, payload, now = Date.now()) => {
+      const slotName = name.trim()
+      if (!slotName) {
+        throw new Error('Save slot name is required')
+      }
+      return write(
+        { id: `slot-${slotName}`, name: slotName, kind: 'manual', createdAt: now },
+        payload
+      )
+    },
+
+    backup: async (reason, payload, now = Date.now()) => {
+      const info = await write(
+        {
+          id: `backup-${now}-${Math.random().toString(36).substring(2, 9)}`,
+          name: `${reason} backup`,
+          kind: 'backup',
+          reason,
+          createdAt: now,
+        },
+        payload
+      )
+
+      // Rolling window: drop the oldest backups
+      const expired = readIndex()
+        .filter(slot => slot.kind === 'backup')
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(SAVE.MAX_BACKUPS)
+      for (const slot of expired) {
+        await removeSlot(slot)
+      }
+
+      return info
+    },
+
+    read: async id => {
+      const slot = readIndex().find(s => s.id === id)
+      return slot ? payloadStore(slot).get(slot.id) : null
+    },
+
+    delete: async id => {
+      const slot = readIndex().find(s => s.id === id)
+      if (!slot) return false
+      await removeSlot(slot)
+      return true
+    },
+  }
+}
@@ -0,0 +1,267 @@
+import { describe, it, expect } from 'vitest'
+import { validateSave } from './saveValidation'
+import { migrateSave } from './migrations'
+import { createStatistics } from '@/game/statistics'
+import { getDatasetById, getEventById, getStaffById } from '@/data/contentLoader'
+import saveV1 from './fixtures/saves/v1.json'
+import saveV6 from './fixtures/saves/v6.json'
+
+const NOW = 1763136060000
+
+// A fresh copy of the v6 fixture state, safe to corrupt
+const createSave = () =>
+  structuredClone(saveV6.state) as Record<string, unknown> & typeof saveV6.state
+
+describe('validateSave', () => {
+  it('accepts valid saves without repairs', () => {
+    const result = validateSave(createSave(), NOW)
+
+    expect(result.errors).toEqual([])
+    expect(result.repairs).toEqual([])
+    expect(result.state?.dc).toBe(-42.5)
+    expect(result.state?.activeIncidents).toHaveLength(1)
+  })
+
+  it('repairs prestige upgrades', () => {
+    const save = {
+      ...createSave(),
+      prestigePoints: -3,
+      prestigeUpgrades: { 'seed-funding': 99, 'not-an-upgrade': 1 },
+    }
+    const { state, repairs } = validateSave(save, NOW)
+
+    expect(state?.prestigePoints).toBe(0)
+    expect(state?.prestigeUpgrades).toEqual({ 'seed-funding': 10 })
+    expect(repairs.map(r => r.path)).toEqual([
+      'prestigeUpgrades.seed-funding',
+      'prestigeUpgrades.not-an-upgrade',
+      'prestigePoints',
+    ])
+  })
+
+  it('repairs achievements', () => {
+    const save = {
+      ...createSave(),
+      achievements: ['first-responder', 'not-an-achievement'],
+      achievementTracking: { incidentsResolved: -4, slaStreakSeconds: { 95: 'soon' } },
+    }
+    const { state, repairs } = validateSave(save, NOW)
+
+    expect(state?.achievements).toEqual(['first-responder'])
+    expect(state?.achievementTracking).toEqual({
+      incidentsResolved: 0,
+      slaStreakSeconds: { 95: 0 },
+    })
+    expect(repairs.map(r => r.path)).toEqual([
+      'achievements[1]',
+      'achievementTracking.slaStreakSeconds.95',
+      'achievementTracking.incidentsResolved',
+    ])
+  })
+
+  it('repairs statistics', () => {
+    const save = createSave()
+    const statistics = {
+      run: {
+        ...save.statistics.run,
+        ticksPlayed: -1,
+        incidentsSpawned: { 'data-delay': 2, meteor: 1 },
+        dcSpent: { pipelines: 10 },
+      },
+      lifetime: 'lots',
+    }
+    const { state, repairs } = validateSave({ ...save, statistics }, NOW)
+
+    expect(state?.statistics.run.ticksPlayed).toBe(0)
+    expect(state?.statistics.run.incidentsSpawned).toEqual({ 'data-delay': 2 })
+    expect(state?.statistics.run.dcSpent).toEqual({
+      pipelines: 10,
+      staff: 0,
+      technologies: 0,
+      events: 0,
+    })
+    expect(state?.statistics.lifetime).toEqual(createStatistics())
+    expect(repairs.map(r => r.path)).toEqual([
+      'statistics.run.ticksPlayed',
+      'statistics.run.incidentsSpawned.meteor',
+      'statistics.lifetime',
+    ])
+  })
+
+  it('repairs history', () => {
+    const save = createSave()
+    const history = {
+      ...save.history,
+      ticksSinceSample: 500,
+      minutes: [
+        { ...save.history.minutes[0], globalSLA: 140 },
+        'junk',
+        { ...save.history.minutes[1], datasets: { meteor: { T: 1, A: 1, C: 1 } } },
+      ],
+      hours: Array.from({ length: 80 }, () => save.history.hours[0]),
+    }
+    const { state, repairs } = validateSave({ ...save, history }, NOW)
+
+    expect(state?.history.ticksSinceSample).toBe(59)
+    expect(state?.history.minutes.map(s => s.globalSLA)).toEqual([100, 97.2])
+    expect(state?.history.minutes[1].datasets).toEqual({})
+    expect(state?.history.hours).toHaveLength(72)
+    expect(repairs.map(r => r.path)).toEqual([
+      'history.ticksSinceSample',
+      'history.minutes[0].globalSLA',
+      'history.minutes[1]',
+      'history.minutes[2].datasets.meteor',
+      'history.hours',
+    ])
+  })
+
+  it('accepts migrated v1 saves', () => {
+    const result = validateSave(migrateSave(saveV1.state, 1), NOW)
+
+    expect(result.errors).toEqual([])
+    expect(result.state?.staff.map(s => s.id)).toEqual(['data-engineer'])
+  })
+
+  it('rejects saves that are not objects', () => {
+    expect(validateSave(null, NOW)).toEqual({
+      state: null,
+      errors: [{ path: 'state', message: 'Save state must be an object' }],
+      repairs: [],
+    })
+  })
+
+  it('rejects saves without a usable dataset', () => {
+    const save = { ...createSave(), datasets: [{ id: 'unknown-dataset' }, 'junk'] }
+    const result = validateSave(save, NOW)
+
+    expect(result.state).toBeNull()
+    expect(result.errors).toEqual([{ path: 'datasets', message: 'Save has no valid datasets' }])
+    expect(result.repairs.map(r => r.path)).toEqual(['datasets[0]', 'datasets[1]'])
+  })
+
+  it('repairs invalid resource numbers', () => {
+    const save = { ...createSave(), dc: 'NaN', lifetimeDC: -5, prestigeLevel: 1.7 }
+    const { state, repairs } = validateSave(save, NOW)
+
+    expect(state).toMatchObject({ dc: 0, lifetimeDC: 0, prestigeLevel: 1 })
+    // Prestige is read before datasets (its SLA bonus feeds the recomputed SLA)
+    expect(repairs.map(r => r.path)).toEqual(['prestigeLevel', 'dc', 'lifetimeDC'])
+  })
+
+  it('clamps metrics and recomputes SLA and status', () => {
+    const save = createSave()
+    save.datasets[0].current_metrics = { T: 250, A: -10, C: 50 }
+    save.datasets[0].currentSLA = 100
+    save.datasets[0].status = 'ok'
+
+    const dataset = validateSave(save, NOW).state?.datasets[0]
+
+    expect(dataset?.current_metrics).toEqual({ T: 100, A: 0, C: 50 })
+    expect(dataset?.currentSLA).toBeLessThan(100)
+    expect(dataset?.status).not.toBe('ok')
+  })
+
+  it('restores content fields and drops unknown IDs', () => {
+    const save = createSave()
+    save.datasets[0].base_dc = 1e9
+    save.datasets[0].pipelines_installed = ['data-validation', 'fake-pipeline']
+    save.datasets.push(structuredClone(save.datasets[0]))
+
+    const { state, repairs } = validateSave(
+      { ...save, purchasedPipelines: ['fake-pipeline'], unlockedTechnologies: ['fake-tech'] },
+      NOW
+    )
+
+    expect(state?.datasets).toHaveLength(1)
+    expect(state?.datasets[0].base_dc).toBe(getDatasetById('customer-transactions')?.base_dc)
+    expect(state?.datasets[0].pipelines_installed).toEqual(['data-validation'])
+    expect(state?.purchasedPipelines).toEqual([])
+    expect(state?.unlockedTechnologies).toEqual([])
+    expect(repairs.map(r => r.message)).toContain('Duplicate dataset customer-transactions removed')
+  })
+
+  it('restores staff from content and drops unknown or duplicate staff', () => {
+    const save = createSave()
+    const staff: unknown[] = [
+      { id: 'data-engineer', name: 'Data Engineer' },
+      { id: 'data-engineer' },
+      { id: 'wizard' },
+    ]
+
+    const { state, repairs } = validateSave({ ...save, staff }, NOW)
+
+    expect(state?.staff).toEqual([getStaffById('data-engineer')])
+    expect(repairs.map(r => r.message)).toEqual([
+      expect.stringContaining('effects'),
+      expect.stringContaining('effects'),
+      'Duplicate staff data-engineer removed',
+      'Unknown staff wizard removed',
+    ])
+  })
+
+  it('drops incidents on missing datasets and clamps their progress', () => {
+    const save = createSave()
+    const [incident] = save.activeIncidents
+    save.activeIncidents = [
+      { ...incident, resolution_progress: 7 },
+      { ...incident, id: 'orphan', dataset_id: 'missing' },
+      { ...incident, id: 'bad-type', type: 'meteor-strike' },
+    ]
+
+    const { state, repairs } = validateSave(save, NOW)
+
+    expect(state?.activeIncidents.map(i => i.id)).toEqual([incident.id])
+    expect(state?.activeIncidents[0].resolution_progress).toBe(1)
+    expect(repairs.map(r => r.path)).toEqual([
+      'activeIncidents[0].resolution_progress',
+      'activeIncidents[1]',
+      'activeIncidents[2]',
+    ])
+  })
+
+  it('restores pending events from content', () => {
+    const event = getEventById('budget-approval')
+    const save = {
+      ...createSave(),
+      pendingEvents: [{ id: 'budget-approval', choices: [] }, { id: 'fake-event' }],
+    }
+
+    const { state, repairs } = validateSave(save, NOW)
+
+    expect(state?.pendingEvents).toEqual([event])
+    expect(repairs).toEqual([
+      { path: 'pendingEvents[1]', message: 'Unknown event fake-event removed' },
+    ])
+  })
+
+  it('restores the active event from content, if any', () => {
+    const event = getEventById('budget-approval')
+    const restored = validateSave({ ...createSave(), currentEvent: { id: 'budget-approval' } }, NOW)
+
+    expect(restored.state?.currentEvent).toEqual(event)
+    expect(validateSave(createSave(), NOW).state?.currentEvent).toBeNull()
+
+    const { state, repairs } = validateSave({ ...createSave(), currentEvent: { id: 'fake' } }, NOW)
+    expect(state?.currentEvent).toBeNull()
+    expect(repairs).toEqual([{ path: 'currentEvent', message: 'Unknown event fake removed' }])
+  })
+
+  it('repairs event history, timestamps and seed', () => {
+    const save = {
+      ...createSave(),
+      eventHistory: { ticksSinceLastEvent: -3, lastEventId: 'fake-event', triggerCounts: {} },
+      lastTickTime: NOW + 60000,
+      rngSeed: 'abc',
+    }
+
+    const { state } = validateSave(save, NOW)
+
+    expect(state?.eventHistory).toEqual({
+      ticksSinceLastEvent: 0,
+      lastEventId: null,
+      triggerCounts: {},
+    })
+    expect(state?.lastTickTime).toBe(NOW)
+    expect(state?.rngSeed).toBeTypeOf('number')
+  })
+})
@@ -0,0 +1,838 @@
+/**
+ * Save Validation - Check and repair imported save data
+ * Runs after migrateSave, so it only has to understand the current schema
+ *
+ * Every field is checked against the game types and cross-checked against
+ * content IDs from contentLoader. Each problem is either:
+ * - repaired: the value is clamped, defaulted, dropped or restored from
+ *   content, and the import continues
+ * - an error: the save can't be used (e.g. no valid datasets) and the
+ *   import fails
+ *
+ * Static content fields (dataset base_dc, staff effects, event choices…)
+ * are always taken from the content files, so a hand-edited save can only
+ * change progress, never the game rules.
+ */
+
+import type {
+  AchievementTracking,
+  Dataset,
+  Event,
+  EventHistory,
+  GameStatistics,
+  History,
+  HistorySample,
+  Incident,
+  IncidentType,
+  Metrics,
+  Staff,
+  Statistics,
+} from '@/types'
+import { calculateDatasetStatus, calculateEffectiveSLA } from '@/game/formulas'
+import { calculateTechnologyBonuses } from '@/game/modifiers'
+import { createEventHistory } from '@/game/events'
+import { applyAchievementBonuses, createAchievementTracking } from '@/game/achievements'
+import { createGameStatistics, createStatistics } from '@/game/statistics'
+import { createHistory } from '@/game/history'
+import {
+  applyPrestigeBonuses,
+  calculatePrestigeBonuses,
+  type PrestigeUpgradeLevels,
+} from '@/game/prestige'
+import { createSeed } from '@/game/random'
+import { HISTORY, INCIDENT } from '@/game/balance'
+import {
+  getAchievementById,
+  getAllIncidentTemplates,
+  getDatasetById,
+  getEventById,
+  getIncidentTemplateById,
+  getPipelineById,
+  getPrestigeUpgradeById,
+  getStaffById,
+  getTechnologyById,
+} from '@/data/contentLoader'
+
+/**
+ * Game state as stored in a save (see partialize in gameStore)
+ */
+export interface SaveGameState {
+  dc: number
+  lifetimeDC: number
+  prestigeLevel: number
+  prestigePoints: number
+  prestigeUpgrades: PrestigeUpgradeLevels
+  achievements: string[]
+  achievementTracking: AchievementTracking
+  statistics: GameStatistics
+  history: History
+  unpaidTicks: number
+  datasets: Dataset[]
+  purchasedPipelines: string[]
+  staff: Staff[]
+  unlockedTechnologies: string[]
+  activeIncidents: Incident[]
+  currentEvent: Event | null
+  pendingEvents: Event[]
+  eventHistory: EventHistory
+  lastTickTime: number
+  rngSeed: number
+  saveModified: boolean
+}
+
+/**
+ * A problem found in a save
+ */
+export interface SaveIssue {
+  /** Where the problem is (e.g. "datasets[0].current_metrics.T") */
+  path: string
+  /** What was wrong (and how it was repaired) */
+  message: string
+}
+
+/**
+ * Result of validating a save
+ */
+export interface SaveValidationResult {
+  /** Repaired state (null if the save can't be used) */
+  state: SaveGameState | null
+  /** Problems that make the save unusable */
+  errors: SaveIssue[]
+  /** Problems that were repaired */
+  repairs: SaveIssue[]
+}
+
+/**
+ * Fields copied from datasets.json rather than trusted from the save
+ */
+const DATASET_CONTENT_FIELDS = [
+  'name',
+  'description',
+  'base_dc',
+  'volume',
+  'risk_rating',
+  'sla_targets',
+] as const
+
+/**
+ * Fields copied from staff.json rather than trusted from the save
+ */
+const STAFF_CONTENT_FIELDS = [
+  'name',
+  'role',
+  'description',
+  'cost_to_hire',
+  'salary_per_minute',
+  'effects',
+] as const
+
+/**
+ * Collects repairs while validating
+ */
+type RepairLog = SaveIssue[]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Read a finite number, clamping it to a range
+ */
+function readNumber(
+  value: unknown,
+  path: string,
+  fallback: number,
+  repairs: RepairLog,
+  { min = -Infinity, max = Infinity, integer = false } = {}
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    repairs.push({ path, message: `Invalid number ${String(value)}, reset to ${fallback}` })
+    return fallback
+  }
+
+  const rounded = integer ? Math.floor(value) : value
+  const clamped = Math.max(min, Math.min(max, rounded))
+  if (clamped !== value) {
+    repairs.push({ path, message: `${value} is out of range, set to ${clamped}` })
+  }
+  return clamped
+}
+
+/**
+ * Read a list of content IDs, dropping unknown and duplicate entries
+ */
+function readIdList(
+  value: unknown,
+  path: string,
+  kind: string,
+  isKnown: (id: string) => boolean,
+  repairs: RepairLog
+): string[] {
+  if (!Array.isArray(value)) {
+    repairs.push({ path, message: `Expected a list of ${kind} IDs, reset to empty` })
+    return []
+  }
+
+  const ids: string[] = []
+  value.forEach((id, index) => {
+    if (typeof id !== 'string' || !isKnown(id)) {
+      repairs.push({ path: `${path}[${index}]`, message: `Unknown ${kind} ${String(id)} removed` })
+    } else if (ids.includes(id)) {
+      repairs.push({ path: `${path}[${index}]`, message: `Duplicate ${kind} ${id} removed` })
+    } else {
+      ids.push(id)
+    }
+  })
+  return ids
+}
+
+/**
+ * Validate each entry of a list, dropping entries the validator rejects
+ */
+function readList<T>(
+  value: unknown,
+  path: string,
+  repairs: RepairLog,
+  validate: (entry: unknown, path: string) => T | null
+): T[] {
+  if (!Array.isArray(value)) {
+    repairs.push({ path, message: 'Expected a list, reset to empty' })
+    return []
+  }
+
+  return value
+    .map((entry, index) => validate(entry, `${path}[${index}]`))
+    .filter((entry): entry is T => entry !== null)
+}
+
+/**
+ * Report saved fields that differ from their content definition
+ */
+function checkContentFields(
+  value: Record<string, unknown>,
+  content: object,
+  fields: readonly string[],
+  path: string,
+  repairs: RepairLog
+): void {
+  const changed = fields.filter(
+    field =>
+      JSON.stringify(value[field]) !== JSON.stringify((content as Record<string, unknown>)[field])
+  )
+  if (changed.length > 0) {
+    repairs.push({ path, message: `Restored from content: ${changed.join(', ')}` })
+  }
+}
+
+/**
+ * Read T/A/C metrics clamped to 0-100
+ */
+function readMetrics(value: unknown, path: string, fallback: Metrics, repairs: RepairLog): Metrics {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Missing metrics, reset to defaults' })
+    return { ...fallback }
+  }
+
+  return {
+    T: readNumber(value.T, `${path}.T`, fallback.T, repairs, { min: 0, max: 100 }),
+    A: readNumber(value.A, `${path}.A`, fallback.A, repairs, { min: 0, max: 100 }),
+    C: readNumber(value.C, `${path}.C`, fallback.C, repairs, { min: 0, max: 100 }),
+  }
+}
+
+function validateDataset(
+  value: unknown,
+  path: string,
+  slaBonus: number,
+  repairs: RepairLog
+): Dataset | null {
+  if (!isRecord(value) || typeof value.id !== 'string') {
+    repairs.push({ path, message: 'Invalid dataset removed' })
+    return null
+  }
+
+  const content = getDatasetById(value.id)
+  if (!content) {
+    repairs.push({ path, message: `Unknown dataset ${value.id} removed` })
+    return null
+  }
+  checkContentFields(value, content, DATASET_CONTENT_FIELDS, path, repairs)
+
+  const dataset: Dataset = {
+    ...content,
+    current_metrics: readMetrics(
+      value.current_metrics,
+      `${path}.current_metrics`,
+      content.current_metrics,
+      repairs
+    ),
+    pipelines_installed: readIdList(
+      value.pipelines_installed,
+      `${path}.pipelines_installed`,
+      'pipeline',
+      id => getPipelineById(id) !== undefined,
+      repairs
+    ),
+  }
+
+  // Derived fields are recomputed rather than trusted
+  return {
+    ...dataset,
+    currentSLA: calculateEffectiveSLA(dataset.current_metrics, slaBonus),
+    status: calculateDatasetStatus(dataset, slaBonus),
+  }
+}
+
+function validateStaff(value: unknown, path: string, repairs: RepairLog): Staff | null {
+  if (!isRecord(value) || typeof value.id !== 'string') {
+    repairs.push({ path, message: 'Invalid staff member removed' })
+    return null
+  }
+
+  const content = getStaffById(value.id)
+  if (!content) {
+    repairs.push({ path, message: `Unknown staff ${value.id} removed` })
+    return null
+  }
+  checkContentFields(value, content, STAFF_CONTENT_FIELDS, path, repairs)
+
+  return content
+}
+
+function validateIncident(
+  value: unknown,
+  path: string,
+  datasetIds: string[],
+  now: number,
+  repairs: RepairLog
+): Incident | null {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid incident removed' })
+    return null
+  }
+
+  const { id, type, title, description, dataset_id, metric_impact } = value
+  if (
+    typeof id !== 'string' ||
+    typeof title !== 'string' ||
+    typeof description !== 'string' ||
+    typeof dataset_id !== 'string'
+  ) {
+    repairs.push({ path, message: 'Incident missing id, title, description or dataset_id removed' })
+    return null
+  }
+
+  const incidentTypes = getAllIncidentTemplates().map(template => template.type)
+  if (!incidentTypes.includes(type as IncidentType)) {
+    repairs.push({ path, message: `Incident with unknown type ${String(type)} removed` })
+    return null
+  }
+  if (!datasetIds.includes(dataset_id)) {
+    repairs.push({ path, message: `Incident on unknown dataset ${dataset_id} removed` })
+    return null
+  }
+  if (!isRecord(metric_impact)) {
+    repairs.push({ path, message: 'Incident missing metric_impact removed' })
+    return null
+  }
+
+  const impactPath = `${path}.metric_impact`
+  const incident: Incident = {
+    id,
+    type: type as IncidentType,
+    title,
+    description,
+    dataset_id,
+    metric_impact: {
+      T: readNumber(metric_impact.T, `${impactPath}.T`, 0, repairs, { min: -100, max: 0 }),
+      A: readNumber(metric_impact.A, `${impactPath}.A`, 0, repairs, { min: -100, max: 0 }),
+      C: readNumber(metric_impact.C, `${impactPath}.C`, 0, repairs, { min: -100, max: 0 }),
+    },
+    base_resolution_time: readNumber(
+      value.base_resolution_time,
+      `${path}.base_resolution_time`,
+      INCIDENT.RESOLUTION_TIME.MODERATE,
+      repairs,
+      { min: 1 }
+    ),
+    resolution_progress: readNumber(
+      value.resolution_progress,
+      `${path}.resolution_progress`,
+      0,
+      repairs,
+      { min: 0, max: 1 }
+    ),
+    started_at: readNumber(value.started_at, `${path}.started_at`, now, repairs, {
+      min: 0,
+      max: now,
+    }),
+    halts_dc_generation: value.halts_dc_generation === true,
+  }
+
+  if (typeof value.halts_dc_generation !== 'boolean') {
+    repairs.push({ path: `${path}.halts_dc_generation`, message: 'Invalid flag, set to false' })
+  }
+  if (value.ticks_active !== undefined) {
+    incident.ticks_active = readNumber(value.ticks_active, `${path}.ticks_active`, 0, repairs, {
+      min: 0,
+      integer: true,
+    })
+  }
+  if (value.template_id !== undefined) {
+    if (typeof value.template_id === 'string' && getIncidentTemplateById(value.template_id)) {
+      incident.template_id = value.template_id
+    } else {
+      repairs.push({
+        path: `${path}.template_id`,
+        message: `Unknown incident template ${String(value.template_id)} removed`,
+      })
+    }
+  }
+
+  return incident
+}
+
+function validateEvent(value: unknown, path: string, repairs: RepairLog): Event | null {
+  const id = isRecord(value) ? value.id : undefined
+  const content = typeof id === 'string' ? getEventById(id) : undefined
+  if (!content) {
+    repairs.push({ path, message: `Unknown event ${String(id)} removed` })
+    return null
+  }
+
+  // Choices and effects always come from events.json
+  return content
+}
+
+function validateEventHistory(value: unknown, path: string, repairs: RepairLog): EventHistory {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Missing event history, reset' })
+    return createEventHistory()
+  }
+
+  let lastEventId: string | null = null
+  if (typeof value.lastEventId === 'string' && getEventById(value.lastEventId)) {
+    lastEventId = value.lastEventId
+  } else if (value.lastEventId !== null) {
+    repairs.push({
+      path: `${path}.lastEventId`,
+      message: `Unknown event ${String(value.lastEventId)} cleared`,
+    })
+  }
+
+  const triggerCounts: Record<string, number> = {}
+  if (isRecord(value.triggerCounts)) {
+    Object.entries(value.triggerCounts).forEach(([eventId, count]) => {
+      if (!getEventById(eventId)) {
+        repairs.push({
+          path: `${path}.triggerCounts.${eventId}`,
+          message: `Unknown event ${eventId} removed`,
+        })
+        return
+      }
+      triggerCounts[eventId] = readNumber(count, `${path}.triggerCounts.${eventId}`, 0, repairs, {
+        min: 0,
+        integer: true,
+      })
+    })
+  } else {
+    repairs.push({ path: `${path}.triggerCounts`, message: 'Invalid trigger counts, reset' })
+  }
+
+  return {
+    ticksSinceLastEvent: readNumber(
+      value.ticksSinceLastEvent,
+      `${path}.ticksSinceLastEvent`,
+      0,
+      repairs,
+      { min: 0, integer: true }
+    ),
+    lastEventId,
+    triggerCounts,
+  }
+}
+
+function validatePrestigeUpgrades(
+  value: unknown,
+  path: string,
+  repairs: RepairLog
+): PrestigeUpgradeLevels {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid prestige upgrades, reset to none' })
+    return {}
+  }
+
+  const upgrades: PrestigeUpgradeLevels = {}
+  Object.entries(value).forEach(([upgradeId, level]) => {
+    const upgrade = getPrestigeUpgradeById(upgradeId)
+    if (!upgrade) {
+      repairs.push({
+        path: `${path}.${upgradeId}`,
+        message: `Unknown upgrade ${upgradeId} removed`,
+      })
+      return
+    }
+    upgrades[upgradeId] = readNumber(level, `${path}.${upgradeId}`, 0, repairs, {
+      min: 0,
+      max: upgrade.max_level,
+      integer: true,
+    })
+  })
+  return upgrades
+}
+
+function validateAchievementTracking(
+  value: unknown,
+  path: string,
+  repairs: RepairLog
+): AchievementTracking {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid achievement tracking, reset' })
+    return createAchievementTracking()
+  }
+
+  const slaStreakSeconds: Record<string, number> = {}
+  if (isRecord(value.slaStreakSeconds)) {
+    Object.entries(value.slaStreakSeconds).forEach(([threshold, seconds]) => {
+      slaStreakSeconds[threshold] = readNumber(
+        seconds,
+        `${path}.slaStreakSeconds.${threshold}`,
+        0,
+        repairs,
+        { min: 0 }
+      )
+    })
+  } else {
+    repairs.push({ path: `${path}.slaStreakSeconds`, message: 'Invalid SLA streaks, reset' })
+  }
+
+  return {
+    incidentsResolved: readNumber(
+      value.incidentsResolved,
+      `${path}.incidentsResolved`,
+      0,
+      repairs,
+      { min: 0, integer: true }
+    ),
+    slaStreakSeconds,
+  }
+}
+
+/**
+ * Read a map of non-negative counters, dropping unknown keys
+ */
+function readCounts(
+  value: unknown,
+  path: string,
+  isKnown: (key: string) => boolean,
+  repairs: RepairLog
+): Record<string, number> {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid counters, reset' })
+    return {}
+  }
+
+  const counts: Record<string, number> = {}
+  Object.entries(value).forEach(([key, count]) => {
+    if (!isKnown(key)) {
+      repairs.push({ path: `${path}.${key}`, message: `Unknown key ${key} removed` })
+      return
+    }
+    counts[key] = readNumber(count, `${path}.${key}`, 0, repairs, { min: 0 })
+  })
+  return counts
+}
+
+function validateStatistics(value: unknown, path: string, repairs: RepairLog): Statistics {
+  const empty = createStatistics()
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid statistics, reset' })
+    return empty
+  }
+
+  const incidentTypes: string[] = getAllIncidentTemplates().map(template => template.type)
+  const isIncidentType = (key: string) => incidentTypes.includes(key)
+  // Every key of a fixed-key counter must be present; missing ones read as 0
+  const readFixedCounts = <K extends string>(
+    counts: Record<K, number>,
+    field: 'dcSpent' | 'statusSeconds'
+  ): Record<K, number> => {
+    const read = readCounts(value[field], `${path}.${field}`, key => key in counts, repairs)
+    return { ...counts, ...read }
+  }
+  const readCounter = (field: keyof Statistics, integer = false) =>
+    readNumber(value[field], `${path}.${field}`, 0, repairs, { min: 0, integer })
+
+  return {
+    ticksPlayed: readCounter('ticksPlayed', true),
+    incidentsSpawned: readCounts(
+      value.incidentsSpawned,
+      `${path}.incidentsSpawned`,
+      isIncidentType,
+      repairs
+    ),
+    incidentsResolved: readCounts(
+      value.incidentsResolved,
+      `${path}.incidentsResolved`,
+      isIncidentType,
+      repairs
+    ),
+    resolutionSeconds: readCounter('resolutionSeconds'),
+    timedResolutions: readCounter('timedResolutions', true),
+    dcEarnedByDataset: readCounts(
+      value.dcEarnedByDataset,
+      `${path}.dcEarnedByDataset`,
+      id => getDatasetById(id) !== undefined,
+      repairs
+    ),
+    dcSpent: readFixedCounts(empty.dcSpent, 'dcSpent'),
+    statusSeconds: readFixedCounts(empty.statusSeconds, 'statusSeconds'),
+    peakDCPerSecond: readCounter('peakDCPerSecond'),
+  }
+}
+
+function validateGameStatistics(value: unknown, path: string, repairs: RepairLog): GameStatistics {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid statistics, reset' })
+    return createGameStatistics()
+  }
+
+  return {
+    run: validateStatistics(value.run, `${path}.run`, repairs),
+    lifetime: validateStatistics(value.lifetime, `${path}.lifetime`, repairs),
+  }
+}
+
+function validateHistorySample(
+  value: unknown,
+  path: string,
+  now: number,
+  repairs: RepairLog
+): HistorySample | null {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid history sample removed' })
+    return null
+  }
+
+  const datasets: Record<string, Metrics> = {}
+  if (!isRecord(value.datasets)) {
+    repairs.push({ path: `${path}.datasets`, message: 'Invalid dataset metrics, reset' })
+  } else {
+    Object.entries(value.datasets).forEach(([datasetId, metrics]) => {
+      if (!getDatasetById(datasetId)) {
+        repairs.push({
+          path: `${path}.datasets.${datasetId}`,
+          message: `Unknown dataset ${datasetId} removed`,
+        })
+        return
+      }
+      datasets[datasetId] = readMetrics(
+        metrics,
+        `${path}.datasets.${datasetId}`,
+        { T: 0, A: 0, C: 0 },
+        repairs
+      )
+    })
+  }
+
+  return {
+    time: readNumber(value.time, `${path}.time`, now, repairs, { min: 0, max: now }),
+    globalSLA: readNumber(value.globalSLA, `${path}.globalSLA`, 0, repairs, { min: 0, max: 100 }),
+    dcRate: readNumber(value.dcRate, `${path}.dcRate`, 0, repairs, { min: 0 }),
+    dc: readNumber(value.dc, `${path}.dc`, 0, repairs),
+    datasets,
+  }
+}
+
+function validateHistory(value: unknown, path: string, now: number, repairs: RepairLog): History {
+  if (!isRecord(value)) {
+    repairs.push({ path, message: 'Invalid history, reset' })
+    return createHistory()
+  }
+
+  // Keep the newest samples if a buffer is over capacity
+  const readSamples = (field: 'minutes' | 'hours', capacity: number) => {
+    const samples = readList(value[field], `${path}.${field}`, repairs, (sample, samplePath) =>
+      validateHistorySample(sample, samplePath, now, repairs)
+    )
+    if (samples.length > capacity) {
+      repairs.push({
+        path: `${path}.${field}`,
+        message: `${samples.length} samples is over capacity, kept the newest ${capacity}`,
+      })
+    }
+    return samples.slice(-capacity)
+  }
+
+  return {
+    ticksSinceSample: readNumber(value.ticksSinceSample, `${path}.ticksSinceSample`, 0, repairs, {
+      min: 0,
+      max: HISTORY.SAMPLE_INTERVAL_TICKS - 1,
+      integer: true,
+    }),
+    minutesSinceHour: readNumber(value.minutesSinceHour, `${path}.minutesSinceHour`, 0, repairs, {
+      min: 0,
+      max: HISTORY.MINUTES_PER_HOUR - 1,
+      integer: true,
+    }),
+    minutes: readSamples('minutes', HISTORY.MAX_MINUTE_SAMPLES),
+    hours: readSamples('hours', HISTORY.MAX_HOUR_SAMPLES),
+  }
+}
+
+/**
+ * Validate and repair a (migrated) save
+ *
+ * @param raw Saved game state at the current SAVE.VERSION
+ * @param now Current time, used to repair timestamps (default Date.now())
+ * @returns Repaired state plus every error and repair found
+ */
+export function validateSave(raw: unknown, now: number = Date.now()): SaveValidationResult {
+  const errors: SaveIssue[] = []
+  const repairs: RepairLog = []
+
+  if (!isRecord(raw)) {
+    errors.push({ path: 'state', message: 'Save state must be an object' })
+    return { state: null, errors, repairs }
+  }
+  if (!Array.isArray(raw.datasets)) {
+    errors.push({ path: 'datasets', message: 'Save has no dataset list' })
+    return { state: null, errors, repairs }
+  }
+
+  // Technologies, prestige and achievements first: their SLA bonus feeds the recomputed dataset SLA
+  const unlockedTechnologies = readIdList(
+    raw.unlockedTechnologies,
+    'unlockedTechnologies',
+    'technology',
+    id => getTechnologyById(id) !== undefined,
+    repairs
+  )
+  const prestigeLevel = readNumber(raw.prestigeLevel, 'prestigeLevel', 0, repairs, {
+    min: 0,
+    integer: true,
+  })
+  const prestigeUpgrades = validatePrestigeUpgrades(
+    raw.prestigeUpgrades,
+    'prestigeUpgrades',
+    repairs
+  )
+  const achievements = readIdList(
+    raw.achievements,
+    'achievements',
+    'achievement',
+    id => getAchievementById(id) !== undefined,
+    repairs
+  )
+  const { slaBonus } = applyAchievementBonuses(
+    applyPrestigeBonuses(
+      calculateTechnologyBonuses(unlockedTechnologies),
+      calculatePrestigeBonuses(prestigeLevel, prestigeUpgrades)
+    ),
+    achievements
+  )
+
+  const datasets: Dataset[] = []
+  raw.datasets.forEach((value, index) => {
+    const dataset = validateDataset(value, `datasets[${index}]`, slaBonus, repairs)
+    if (dataset && datasets.some(d => d.id === dataset.id)) {
+      repairs.push({
+        path: `datasets[${index}]`,
+        message: `Duplicate dataset ${dataset.id} removed`,
+      })
+    } else if (dataset) {
+      datasets.push(dataset)
+    }
+  })
+  if (datasets.length === 0) {
+    errors.push({ path: 'datasets', message: 'Save has no valid datasets' })
+    return { state: null, errors, repairs }
+  }
+  const datasetIds = datasets.map(dataset => dataset.id)
+
+  const staffIds = new Set<string>()
+  const staff = readList(raw.staff, 'staff', repairs, (value, path) => {
+    const member = validateStaff(value, path, repairs)
+    if (member && staffIds.has(member.id)) {
+      repairs.push({ path, message: `Duplicate staff ${member.id} removed` })
+      return null
+    }
+    if (member) staffIds.add(member.id)
+    return member
+  })
+
+  const incidentIds = new Set<string>()
+  const activeIncidents = readList(
+    raw.activeIncidents,
+    'activeIncidents',
+    repairs,
+    (value, path) => {
+      const incident = validateIncident(value, path, datasetIds, now, repairs)
+      if (incident && incidentIds.has(incident.id)) {
+        repairs.push({ path, message: `Duplicate incident ${incident.id} removed` })
+        return null
+      }
+      if (incident) incidentIds.add(incident.id)
+      return incident
+    }
+  )
+
+  const dc = readNumber(raw.dc, 'dc', 0, repairs)
+
+  const state: SaveGameState = {
+    dc,
+    lifetimeDC: readNumber(raw.lifetimeDC, 'lifetimeDC', Math.max(0, dc), repairs, { min: 0 }),
+    prestigeLevel,
+    prestigePoints: readNumber(raw.prestigePoints, 'prestigePoints', 0, repairs, {
+      min: 0,
+      integer: true,
+    }),
+    prestigeUpgrades,
+    achievements,
+    achievementTracking: validateAchievementTracking(
+      raw.achievementTracking,
+      'achievementTracking',
+      repairs
+    ),
+    statistics: validateGameStatistics(raw.statistics, 'statistics', repairs),
+    history: validateHistory(raw.history, 'history', now, repairs),
+    unpaidTicks: readNumber(raw.unpaidTicks, 'unpaidTicks', 0, repairs, { min: 0, integer: true }),
+    datasets,
+    purchasedPipelines: readIdList(
+      raw.purchasedPipelines,
+      'purchasedPipelines',
+      'pipeline',
+      id => getPipelineById(id) !== undefined,
+      repairs
+    ),
+    staff,
+    unlockedTechnologies,
+    activeIncidents,
+    // Saves written before the active event was persisted have none
+    currentEvent:
+      raw.currentEvent === undefined || raw.currentEvent === null
+        ? null
+        : validateEvent(raw.currentEvent, 'currentEvent', repairs),
+    pendingEvents: readList(raw.pendingEvents, 'pendingEvents', repairs, (value, path) =>
+      validateEvent(value, path, repairs)
+    ),
+    eventHistory: validateEventHistory(raw.eventHistory, 'eventHistory', repairs),
+    lastTickTime: readNumber(raw.lastTickTime, 'lastTickTime', now, repairs, { min: 0, max: now }),
+    rngSeed:
+      typeof raw.rngSeed === 'number' && Number.isInteger(raw.rngSeed)
+        ? raw.rngSeed >>> 0
+        : createSeed(),
+    saveModified: raw.saveModified !== undefined && raw.saveModified !== false,
+  }
+
+  // A save that was already flagged stays flagged
+  if (raw.saveModified !== undefined && typeof raw.saveModified !== 'boolean') {
+    repairs.push({ path: 'saveModified', message: 'Invalid flag, set to true' })
+  }
+
+  if (typeof raw.rngSeed !== 'number' || !Number.isInteger(raw.rngSeed)) {
+    repairs.push({ path: 'rngSeed', message: `Invalid seed ${String(raw.rngSeed)}, regenerated` })
+  }
+
+  return { state, errors, repairs }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createTabCoordinator, type SyncChannel, type TabRole } from './tabSync'
+import { TAB_SYNC } from '@/game/balance'
+import type { Clock } from '@/game/clock'
+
+// Synchronous stand-in for BroadcastChannel: delivers to every other channel
+const createChannelBus = () => {
+  const channels: SyncChannel[] = []
+  return () => {
+    const channel: SyncChannel = {
+      onmessage: null,
+      postMessage: message => {
+        channels
+          .filter(other => other !== channel)
+          .forEach(other => other.onmessage?.({ data: message } as MessageEvent))
+      },
+      close: () => {
+        channels.splice(channels.indexOf(channel), 1)
+      },
+    }
+    channels.push(channel)
+    return channel
+  }
+}
+
+describe('createTabCoordinator', () => {
+  let time: number
+  const clock: Clock = { now: () => time, performanceNow: () => 0 }
+  let openChannel: () => SyncChannel
+
+  const openTab = (tabId: string) => {
+    const roles: TabRole[] = []
+    const states: number[] = []
+    const tab = createTabCoordinator<number>({
+      tabId,
+      clock,
+      channel: openChannel(),
+      onRoleChange: role => roles.push(role),
+      onState: state => states.push(state),
+    })
+    return { tab, roles, states }
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+    time = 1000
+    openChannel = createChannelBus()
+  })
+
+  it('makes the first tab leader and later tabs followers', () => {
+    const a = openTab('a')
+    const b = openTab('b')
+
+    a.tab.heartbeat()
+    b.tab.heartbeat()
+
+    expect(a.tab.getRole()).toBe('leader')
+    expect(b.tab.getRole()).toBe('follower')
+    expect(JSON.parse(localStorage.getItem(TAB_SYNC.LEASE_KEY) ?? '')).toEqual({
+      tabId: 'a',
+      expiresAt: 1000 + TAB_SYNC.LEASE_DURATION_MS,
+    })
+  })
+
+  it('mirrors leader state to followers only', () => {
+    const a = openTab('a')
+    const b = openTab('b')
+    a.tab.heartbeat()
+    b.tab.heartbeat()
+
+    a.tab.publishState(42)
+    b.tab.publishState(7)
+
+    expect(b.states).toEqual([42])
+    expect(a.states).toEqual([])
+  })
+
+  it('hands over to a follower when the leader closes', () => {
+    const a = openTab('a')
+    const b = openTab('b')
+    a.tab.heartbeat()
+    b.tab.heartbeat()
+
+    a.tab.close()
+
+    expect(b.tab.getRole()).toBe('leader')
+    expect(b.roles).toEqual(['leader'])
+  })
+
+  it('takes over when the leader stops renewing its lease', () => {
+    const a = openTab('a')
+    const b = openTab('b')
+    a.tab.heartbeat()
+
+    time += TAB_SYNC.LEASE_DURATION_MS - 1
+    b.tab.heartbeat()
+    expect(b.tab.getRole()).toBe('follower')
+
+    time += 1
+    b.tab.heartbeat()
+    expect(b.tab.getRole()).toBe('leader')
+    // The frozen leader steps down as soon as it hears about it
+    expect(a.tab.getRole()).toBe('follower')
+  })
+
+  it('keeps the lease while the leader renews it', () => {
+    const a = openTab('a')
+    const b = openTab('b')
+
+    for (let i = 0; i < 10; i++) {
+      a.tab.heartbeat()
+      b.tab.heartbeat()
+      time += TAB_SYNC.HEARTBEAT_MS
+    }
+
+    expect(a.roles).toEqual(['leader'])
+    expect(b.roles).toEqual([])
+  })
+
+  it('lets a follower take over on demand', () => {
+    const a = openTab('a')
+    const b = openTab('b')
+    a.tab.heartbeat()
+
+    b.tab.takeOver()
+    a.tab.heartbeat()
+
+    expect(b.tab.getRole()).toBe('leader')
+    expect(a.roles).toEqual(['leader', 'follower'])
+  })
+})
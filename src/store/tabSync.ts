@@ -0,0 +1,181 @@
+/**
+ * Tab Sync - Single-writer coordination between browser tabs
+ * Stops two open tabs from both ticking and overwriting each other's save
+ *
+ * One tab (the leader) holds a lease in localStorage, renewed every
+ * heartbeat. Only the leader runs the game loop and persists; it broadcasts
+ * its state over a BroadcastChannel so other tabs (followers) can mirror it
+ * read-only. When the leader closes it releases the lease, and when it
+ * freezes the lease expires - either way a follower claims it and takes over.
+ */
+
+import { TAB_SYNC } from '@/game/balance'
+import { systemClock, type Clock } from '@/game/clock'
+
+/**
+ * Role of a tab
+ */
+export type TabRole = 'leader' | 'follower'
+
+/**
+ * Leader lease stored in localStorage
+ */
+export interface TabLease {
+  tabId: string
+  expiresAt: number
+}
+
+/**
+ * Messages exchanged between tabs
+ */
+export type TabSyncMessage<S> =
+  | { type: 'state'; tabId: string; state: S }
+  | { type: 'leader-claimed'; tabId: string }
+  | { type: 'leader-released'; tabId: string }
+
+/**
+ * The part of BroadcastChannel used for syncing
+ */
+export interface SyncChannel {
+  postMessage: (message: unknown) => void
+  onmessage: ((event: MessageEvent) => void) | null
+  close: () => void
+}
+
+/**
+ * Options for a tab coordinator
+ */
+export interface TabCoordinatorOptions<S> {
+  /** Unique ID of this tab (random by default) */
+  tabId?: string
+  /** Holds the lease (default localStorage) */
+  storage?: Storage
+  /** Channel to other tabs (default BroadcastChannel, null if unsupported) */
+  channel?: SyncChannel | null
+  /** Time source for lease expiry */
+  clock?: Clock
+  /** Called when this tab becomes leader or follower */
+  onRoleChange?: (role: TabRole) => void
+  /** Called on followers with the leader's latest state */
+  onState?: (state: S) => void
+}
+
+/**
+ * Coordinates this tab with other open tabs
+ */
+export interface TabCoordinator<S> {
+  readonly tabId: string
+  getRole: () => TabRole
+  /** Renew the lease (leader) or claim it if expired (follower) */
+  heartbeat: () => void
+  /** Claim the lease now, demoting the current leader */
+  takeOver: () => void
+  /** Send state to followers (ignored unless leader) */
+  publishState: (state: S) => void
+  /** Release the lease (if held) and stop listening */
+  close: () => void
+}
+
+/**
+ * Create a tab coordinator
+ * Starts as a follower - call heartbeat() to claim a free lease. Timers are
+ * left to the caller (see useTabSync).
+ *
+ * @param options Coordinator options
+ * @returns Tab coordinator
+ */
+export function createTabCoordinator<S>(options: TabCoordinatorOptions<S> = {}): TabCoordinator<S> {
+  const {
+    tabId = `tab-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    storage = localStorage,
+    clock = systemClock,
+    onRoleChange,
+    onState,
+  } = options
+  const channel =
+    options.channel !== undefined
+      ? options.channel
+      : typeof BroadcastChannel !== 'undefined'
+        ? new BroadcastChannel(TAB_SYNC.CHANNEL)
+        : null
+
+  let role: TabRole = 'follower'
+
+  const setRole = (next: TabRole) => {
+    if (next === role) return
+    role = next
+    console.log(`[TabSync] This tab is now ${next}`)
+    onRoleChange?.(next)
+  }
+
+  const post = (message: TabSyncMessage<S>) => channel?.postMessage(message)
+
+  const readLease = (): TabLease | null => {
+    try {
+      const lease = JSON.parse(storage.getItem(TAB_SYNC.LEASE_KEY) ?? 'null')
+      return typeof lease?.tabId === 'string' && typeof lease?.expiresAt === 'number' ? lease : null
+    } catch {
+      return null
+    }
+  }
+
+  const claim = () => {
+    const lease: TabLease = { tabId, expiresAt: clock.now() + TAB_SYNC.LEASE_DURATION_MS }
+    storage.setItem(TAB_SYNC.LEASE_KEY, JSON.stringify(lease))
+    if (role !== 'leader') {
+      setRole('leader')
+      post({ type: 'leader-claimed', tabId })
+    }
+  }
+
+  const heartbeat = () => {
+    const lease = readLease()
+    if (!lease || lease.tabId === tabId || lease.expiresAt <= clock.now()) {
+      claim()
+    } else {
+      // Someone else holds a live lease
+      setRole('follower')
+    }
+  }
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent) => {
+      const message = event.data as TabSyncMessage<S>
+      if (message.tabId === tabId) return
+
+      switch (message.type) {
+        case 'state':
+          if (role === 'follower') onState?.(message.state)
+          break
+        case 'leader-claimed':
+          // Another tab took over (or won a race for an expired lease)
+          if (readLease()?.tabId !== tabId) setRole('follower')
+          break
+        case 'leader-released':
+          heartbeat()
+          break
+      }
+    }
+  }
+
+  return {
+    tabId,
+    getRole: () => role,
+    heartbeat,
+    takeOver: claim,
+    publishState: state => {
+      if (role === 'leader') post({ type: 'state', tabId, state })
+    },
+    close: () => {
+      if (role === 'leader' && readLease()?.tabId === tabId) {
+        storage.removeItem(TAB_SYNC.LEASE_KEY)
+        post({ type: 'leader-released', tabId })
+      }
+      setRole('follower')
+      if (channel) {
+        channel.onmessage = null
+        channel.close()
+      }
+    },
+  }
+}
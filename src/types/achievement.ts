@@ -0,0 +1,76 @@
+/**
+ * Achievement Type Definitions
+ * Long-term goals, kept across prestige resets, with small permanent rewards
+ */
+
+import type { TechnologyUnlocks } from './technology'
+
+/**
+ * What an achievement requires
+ */
+export type AchievementCondition =
+  | {
+      /** Hold global SLA at or above min_sla for `seconds` in a row */
+      type: 'global_sla_held'
+      min_sla: number
+      seconds: number
+    }
+  | {
+      /** Resolve `count` incidents (all runs combined) */
+      type: 'incidents_resolved'
+      count: number
+    }
+  | {
+      /** Unlock every technology of a tier */
+      type: 'technology_tier_unlocked'
+      tier: number
+    }
+  | {
+      /** Reach a prestige level */
+      type: 'prestige_level'
+      level: number
+    }
+  | {
+      /** Earn `amount` DC in a single run */
+      type: 'lifetime_dc'
+      amount: number
+    }
+
+/**
+ * Achievement - Goal defined in achievements.json
+ */
+export interface Achievement {
+  /** Unique identifier */
+  id: string
+  /** Display name */
+  name: string
+  /** Description of the goal */
+  description: string
+  /** What unlocks the achievement */
+  condition: AchievementCondition
+  /** Permanent global bonuses, same shape as technology bonuses */
+  reward?: TechnologyUnlocks['global_bonuses']
+}
+
+/**
+ * Achievement tracking - counters that outlive a single tick
+ * Kept across prestige resets
+ */
+export interface AchievementTracking {
+  /** Incidents resolved, all runs combined */
+  incidentsResolved: number
+  /** Seconds global SLA has been held at or above each threshold, keyed by threshold */
+  slaStreakSeconds: Record<string, number>
+}
+
+/**
+ * Progress towards one achievement
+ */
+export interface AchievementProgress {
+  achievement: Achievement
+  current: number
+  target: number
+  /** Progress towards the target (0-1, 1 once unlocked) */
+  progress: number
+  unlocked: boolean
+}
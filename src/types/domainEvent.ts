@@ -0,0 +1,59 @@
+/**
+ * Domain Event Type Definitions
+ * Things that happened during a tick, emitted by processTick so the UI
+ * (notifications, sounds, logs) can react without diffing state
+ */
+
+import type { Achievement } from './achievement'
+import type { DatasetStatus } from './dataset'
+import type { Event, Incident } from './event'
+
+/**
+ * Progress counters that trigger milestones (thresholds in balance.ts)
+ */
+export type MilestoneMetric = 'lifetimeDC'
+
+/**
+ * Domain Event - One thing that happened during a tick
+ */
+export type DomainEvent =
+  | {
+      type: 'IncidentStarted'
+      incident: Incident
+    }
+  | {
+      type: 'IncidentResolved'
+      incident: Incident
+    }
+  | {
+      type: 'DatasetStatusChanged'
+      datasetId: string
+      from: DatasetStatus
+      to: DatasetStatus
+    }
+  | {
+      /** A dataset's effective SLA dropped below its target */
+      type: 'SLABreached'
+      datasetId: string
+      sla: number
+      target: number
+    }
+  | {
+      type: 'EventTriggered'
+      event: Event
+    }
+  | {
+      type: 'MilestoneReached'
+      metric: MilestoneMetric
+      threshold: number
+    }
+  | {
+      /** Emitted by the store, which tracks achievements across ticks */
+      type: 'AchievementUnlocked'
+      achievement: Achievement
+    }
+
+/**
+ * Names of the domain event types
+ */
+export type DomainEventType = DomainEvent['type']
@@ -3,6 +3,8 @@
  * Based on Functional Specification Section 3.6 and 3.8
  */
 
+import type { RiskRating } from './dataset'
+
 export type EventType = 'audit' | 'incident' | 'bonus' | 'choice'
 export type IncidentType =
   | 'pipeline-failure'
@@ -102,6 +104,70 @@ export interface Incident {
   resolution_progress: number
   /** When incident started (timestamp) */
   started_at: number
+  /** Ticks of resolution progress so far (game time, unlike started_at) */
+  ticks_active?: number
   /** If true, DC generation is halted for this dataset */
   halts_dc_generation: boolean
+  /** ID of the incidents.json template this was spawned from */
+  template_id?: string
+}
+
+/**
+ * Incident Template - Catalogue entry from incidents.json
+ * Instantiated into an Incident when spawned on a dataset
+ */
+export interface IncidentTemplate {
+  /** Unique template identifier */
+  id: string
+  /** Type of incident */
+  type: IncidentType
+  /** Title for display */
+  title: string
+  /** Description */
+  description: string
+  /** Metric impact (negative values) */
+  metric_impact: {
+    T: number
+    A: number
+    C: number
+  }
+  /** Base time to resolve (ticks) */
+  base_resolution_time: number
+  /** If true, DC generation is halted for the affected dataset */
+  halts_dc_generation: boolean
+  /** Relative selection weight before dataset modifiers (default 1) */
+  weight?: number
+  /** Restricts which datasets this incident can hit (omit = any dataset) */
+  applies_to?: {
+    /** Only these dataset IDs */
+    dataset_ids?: string[]
+    /** Only datasets with one of these risk ratings */
+    risk_ratings?: RiskRating[]
+    /** Only datasets with at least this volume */
+    min_volume?: number
+  }
+  /** Weight multiplier per dataset risk rating (default 1) */
+  risk_weights?: Partial<Record<RiskRating, number>>
+  /** How strongly dataset volume increases the weight (0 = not at all) */
+  volume_weight?: number
+  /** Pipelines/technologies that make this incident less likely */
+  mitigated_by?: {
+    /** Pipeline IDs installed on the dataset */
+    pipelines?: string[]
+    /** Unlocked technology IDs */
+    technologies?: string[]
+  }
+}
+
+/**
+ * Event History - Scheduler bookkeeping for random events
+ * Persisted so cooldowns survive page reloads
+ */
+export interface EventHistory {
+  /** Ticks elapsed since the last event fired */
+  ticksSinceLastEvent: number
+  /** ID of the most recently fired event (cannot fire again back to back) */
+  lastEventId: string | null
+  /** Number of times each event has fired, keyed by event ID */
+  triggerCounts: Record<string, number>
 }
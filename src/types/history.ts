@@ -0,0 +1,40 @@
+/**
+ * History Type Definitions
+ * Time-series of the dashboard numbers, for sparklines and charts
+ */
+
+import type { Metrics } from './dataset'
+
+/**
+ * One point of the time-series
+ */
+export interface HistorySample {
+  /** When the sample was taken (for hour buckets: the last minute in the bucket) */
+  time: number
+  globalSLA: number
+  /** DC generated per second (before salaries) */
+  dcRate: number
+  /** DC balance */
+  dc: number
+  /** Each dataset's metrics, keyed by dataset ID */
+  datasets: Record<string, Metrics>
+}
+
+/**
+ * History - Ring buffers of samples, newest last
+ * Minute samples are averaged into hour buckets as they arrive, so older
+ * data survives at a lower resolution
+ */
+export interface History {
+  /** Ticks since the last minute sample */
+  ticksSinceSample: number
+  /** Minute samples not yet averaged into an hour bucket */
+  minutesSinceHour: number
+  minutes: HistorySample[]
+  hours: HistorySample[]
+}
+
+/**
+ * History resolution
+ */
+export type HistoryResolution = 'minutes' | 'hours'
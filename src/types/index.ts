@@ -24,6 +24,7 @@ export type {
 
 export type {
   Technology,
+  TechnologyBonuses,
   TechnologyUnlocks,
 } from './technology'
 
@@ -32,13 +33,58 @@ export type {
   EventChoice,
   EventEffects,
   EventType,
+  EventHistory,
   Incident,
+  IncidentTemplate,
   IncidentType,
 } from './event'
 
+export type {
+  DatasetSLAChange,
+  OfflineReport,
+} from './offline'
+
+export type {
+  PrestigeUpgrade,
+  PrestigeUpgradeEffect,
+  PrestigeBonuses,
+  PrestigeRequirements,
+  PrestigeRequirementProgress,
+  PrestigeStatus,
+  CarryOverField,
+  CarryOverRule,
+  CarryOverPolicy,
+} from './prestige'
+
+export type {
+  Achievement,
+  AchievementCondition,
+  AchievementProgress,
+  AchievementTracking,
+} from './achievement'
+
+export type {
+  GameStatistics,
+  SpendingCategory,
+  Statistics,
+} from './statistics'
+
+export type {
+  History,
+  HistoryResolution,
+  HistorySample,
+} from './history'
+
+export type {
+  DomainEvent,
+  DomainEventType,
+  MilestoneMetric,
+} from './domainEvent'
+
 import type { Dataset } from './dataset'
 import type { Staff } from './staff'
-import type { Incident, Event } from './event'
+import type { Incident, Event, EventHistory } from './event'
+import type { OfflineReport } from './offline'
 
 /**
  * Game State - Complete state of the game
@@ -68,8 +114,18 @@ export interface GameState {
   activeIncidents: Incident[]
   /** Current event awaiting player choice (null if none) */
   currentEvent: Event | null
+  /** Events queued while offline, shown after currentEvent */
+  pendingEvents: Event[]
+  /** Random event scheduler state (cooldowns, per-event history) */
+  eventHistory: EventHistory
   /** Last tick timestamp (for offline progress) */
   lastTickTime: number
+  /** Engine random generator state (persisted so ticks are reproducible) */
+  rngSeed: number
+  /** True if loaded from a save that failed (or lacked) its checksum */
+  saveModified: boolean
+  /** "While you were away" report awaiting dismissal (null if none) */
+  offlineReport: OfflineReport | null
 
   // Game Loop Actions
   /** Main game tick - called every second */
@@ -90,8 +146,8 @@ export interface GameState {
   // Queries (Derived State)
   /** Calculate global SLA across all datasets */
   getGlobalSLA: () => number
-  /** Calculate DC generation rate for specific dataset */
-  getDatasetDCRate: (datasetId: string) => number
+  /** Calculate DC generation rate for specific dataset (and whether it is halted) */
+  getDatasetDCRate: (datasetId: string) => { rate: number; halted: boolean; haltedBy: string[] }
   /** Calculate total DC generation rate */
   getTotalDCRate: () => number
 }
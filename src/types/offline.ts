@@ -0,0 +1,47 @@
+/**
+ * Offline Report Type Definitions
+ * "While you were away" summary shown when the player returns
+ */
+
+import type { Event, Incident } from './event'
+import type { Staff } from './staff'
+
+/**
+ * How a dataset's SLA moved while the player was away
+ */
+export interface DatasetSLAChange {
+  datasetId: string
+  name: string
+  /** Effective SLA when the player left */
+  startSLA: number
+  /** Effective SLA on return */
+  endSLA: number
+}
+
+/**
+ * Offline Report - What happened during offline progress
+ */
+export interface OfflineReport {
+  /** Seconds the player was away */
+  secondsAway: number
+  /** Seconds actually simulated (capped at OFFLINE.MAX_SIMULATION_TIME) */
+  secondsSimulated: number
+  /** True if time away exceeded the simulation cap */
+  capped: boolean
+  /** DC generated while away (after offline efficiency) */
+  dcEarned: number
+  /** DC spent on salaries while away */
+  dcSpent: number
+  /** Per-dataset SLA at the start and end of the period */
+  datasets: DatasetSLAChange[]
+  /** Incidents that started while away */
+  incidentsStarted: Incident[]
+  /** Incidents resolved while away */
+  incidentsResolved: Incident[]
+  /** Events waiting for a decision, in the order they will be shown */
+  pendingEvents: Event[]
+  /** Staff who quit because they weren't paid */
+  staffQuit: Staff[]
+  /** When the report was created */
+  createdAt: number
+}
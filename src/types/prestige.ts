@@ -0,0 +1,110 @@
+/**
+ * Prestige Type Definitions
+ * Permanent upgrades bought with prestige points, kept across prestige resets
+ */
+
+/**
+ * What a prestige upgrade improves
+ */
+export type PrestigeUpgradeEffect =
+  | 'starting_dc'
+  | 'offline_efficiency'
+  | 'decay_reduction'
+  | 'starting_datasets'
+
+/**
+ * Prestige Upgrade - Permanent upgrade in the prestige shop
+ * Each level adds value_per_level and costs more than the last
+ */
+export interface PrestigeUpgrade {
+  /** Unique identifier */
+  id: string
+  /** Display name */
+  name: string
+  /** Description of benefits */
+  description: string
+  /** What the upgrade improves */
+  effect: PrestigeUpgradeEffect
+  /** Effect added per level (DC, efficiency, reduction 0-1 or datasets) */
+  value_per_level: number
+  /** Highest level that can be bought */
+  max_level: number
+  /** Prestige point cost of the first level */
+  base_cost: number
+  /** Cost multiplier per level already owned */
+  cost_growth: number
+}
+
+/**
+ * Run state a carry-over policy can keep across a prestige reset
+ */
+export type CarryOverField = 'unlockedTechnologies' | 'purchasedPipelines' | 'staff'
+
+/**
+ * Whether a field survives a prestige reset
+ */
+export type CarryOverRule = 'keep' | 'reset'
+
+/**
+ * Carry-over policy - what survives a prestige reset
+ */
+export type CarryOverPolicy = Record<CarryOverField, CarryOverRule>
+
+/**
+ * Requirements for the next prestige (scale with prestige level)
+ */
+export interface PrestigeRequirements {
+  minDatasets: number
+  /** Global SLA including technology and prestige bonuses */
+  minGlobalSLA: number
+  minLifetimeDC: number
+}
+
+/**
+ * Progress towards one prestige requirement
+ */
+export interface PrestigeRequirementProgress {
+  id: 'datasets' | 'globalSLA' | 'lifetimeDC'
+  /** Display name */
+  label: string
+  current: number
+  required: number
+  met: boolean
+  /** Progress towards the requirement (0-1) */
+  progress: number
+}
+
+/**
+ * Prestige status - requirement progress and a preview of the reset
+ */
+export interface PrestigeStatus {
+  /** True when every requirement is met */
+  canPrestige: boolean
+  requirements: PrestigeRequirementProgress[]
+  /** What a prestige right now would earn */
+  gain: {
+    prestigePoints: number
+    prestigeLevel: number
+  }
+  /** Run state kept by the carry-over policy */
+  keeps: CarryOverField[]
+  /** Run state reset by the carry-over policy */
+  resets: CarryOverField[]
+}
+
+/**
+ * Combined bonuses from prestige level and upgrades
+ * Derived from prestigeLevel and prestigeUpgrades, never persisted
+ */
+export interface PrestigeBonuses {
+  /** SLA bonus points from prestige level */
+  slaBonus: number
+  /** Decay multiplier from upgrades (1.0 = no reduction) */
+  decayMultiplier: number
+  /** Share of DC generated while offline (replaces OFFLINE.EFFICIENCY_MULTIPLIER) */
+  offlineEfficiency: number
+  /** DC each new run starts with */
+  startingDC: number
+  /** Extra datasets each new run starts with */
+  startingDatasets: number
+}
@@ -0,0 +1,45 @@
+/**
+ * Statistics Type Definitions
+ * Counters recorded as the game runs, per run and for all runs combined
+ */
+
+import type { DatasetStatus } from './dataset'
+import type { IncidentType } from './event'
+
+/**
+ * What DC was spent on
+ * Staff covers both hiring and salaries; events covers negative event choices
+ */
+export type SpendingCategory = 'pipelines' | 'staff' | 'technologies' | 'events'
+
+/**
+ * Statistics - Counters for one run, or for all runs combined
+ */
+export interface Statistics {
+  /** Ticks processed (online and offline) */
+  ticksPlayed: number
+  /** Incidents spawned, by type */
+  incidentsSpawned: Partial<Record<IncidentType, number>>
+  /** Incidents resolved, by type */
+  incidentsResolved: Partial<Record<IncidentType, number>>
+  /** Seconds from spawn to resolution, summed over incidents resolved online */
+  resolutionSeconds: number
+  /** Incidents resolved online (offline resolutions aren't timed) */
+  timedResolutions: number
+  /** DC earned online, keyed by dataset ID */
+  dcEarnedByDataset: Record<string, number>
+  /** DC spent, by category */
+  dcSpent: Record<SpendingCategory, number>
+  /** Dataset-seconds spent in each status (two datasets for 1s = 2) */
+  statusSeconds: Record<DatasetStatus, number>
+  /** Highest DC generated per second */
+  peakDCPerSecond: number
+}
+
+/**
+ * Statistics for the current run (reset on prestige) and all runs combined
+ */
+export interface GameStatistics {
+  run: Statistics
+  lifetime: Statistics
+}
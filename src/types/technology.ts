@@ -48,3 +48,18 @@ export interface Technology {
   /** Category for grouping */
   category: 'infrastructure' | 'processing' | 'governance' | 'automation' | 'advanced'
 }
+
+/**
+ * Combined global bonuses from all unlocked technologies
+ * Derived from unlockedTechnologies, never persisted
+ */
+export interface TechnologyBonuses {
+  /** Combined DC multiplier (product of every dc_multiplier) */
+  dcMultiplier: number
+  /** Total SLA bonus points (sum of every sla_bonus) */
+  slaBonus: number
+  /** Combined decay multiplier (1.0 = no reduction) */
+  decayMultiplier: number
+  /** Combined incident chance multiplier (1.0 = no reduction) */
+  incidentMultiplier: number
+}
@@ -0,0 +1,161 @@
+/**
+ * Compression Utilities
+ * Small synchronous LZW compressor and base64url encoding for save codes
+ *
+ * Text is compressed as UTF-8 bytes using variable-width codes (9-16 bits).
+ * When the dictionary fills up it is cleared, so memory stays bounded for
+ * any input size.
+ */
+
+const CLEAR_CODE = 256
+const FIRST_CODE = 257
+const MAX_BITS = 16
+const DICTIONARY_LIMIT = 1 << MAX_BITS
+
+/**
+ * Width of the nth code written since the last clear
+ * Encoder and decoder derive it the same way, so no extra data is stored
+ */
+function codeWidth(codesSinceClear: number): number {
+  return Math.min(MAX_BITS, 32 - Math.clz32(FIRST_CODE + codesSinceClear))
+}
+
+/**
+ * Compress a string
+ * @param input Text to compress
+ * @returns Compressed bytes
+ */
+export function compress(input: string): Uint8Array {
+  const bytes = new TextEncoder().encode(input)
+  const output: number[] = []
+  const dictionary = new Map<number, number>()
+  let nextCode = FIRST_CODE
+  let codesSinceClear = 0
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeWidth(codesSinceClear)
+    codesSinceClear++
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  let prefix = -1
+  for (const byte of bytes) {
+    if (prefix === -1) {
+      prefix = byte
+      continue
+    }
+
+    const key = prefix * 256 + byte
+    const code = dictionary.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode < DICTIONARY_LIMIT) {
+      dictionary.set(key, nextCode++)
+    } else {
+      emit(CLEAR_CODE)
+      dictionary.clear()
+      nextCode = FIRST_CODE
+      codesSinceClear = 0
+    }
+    prefix = byte
+  }
+
+  if (prefix !== -1) emit(prefix)
+  if (bitCount > 0) output.push(bitBuffer & 0xff)
+
+  return Uint8Array.from(output)
+}
+
+/**
+ * Decompress bytes produced by compress()
+ * @param data Compressed bytes
+ * @returns Original text
+ * @throws If the data is corrupt
+ */
+export function decompress(data: Uint8Array): string {
+  const output: number[] = []
+  let entries: number[][] = []
+  let previous: number[] | null = null
+  let codesSinceClear = 0
+  let bitBuffer = 0
+  let bitCount = 0
+  let offset = 0
+
+  for (;;) {
+    const width = codeWidth(codesSinceClear)
+    while (bitCount < width && offset < data.length) {
+      bitBuffer |= data[offset++] << bitCount
+      bitCount += 8
+    }
+    // Leftover padding bits are always shorter than a code
+    if (bitCount < width) break
+
+    const code = bitBuffer & ((1 << width) - 1)
+    bitBuffer >>>= width
+    bitCount -= width
+    codesSinceClear++
+
+    if (code === CLEAR_CODE) {
+      entries = []
+      previous = null
+      codesSinceClear = 0
+      continue
+    }
+
+    let entry: number[]
+    if (code < CLEAR_CODE) {
+      entry = [code]
+    } else if (code - FIRST_CODE < entries.length) {
+      entry = entries[code - FIRST_CODE]
+    } else if (code - FIRST_CODE === entries.length && previous) {
+      // Code defined by this very step (the "cScSc" case)
+      entry = [...previous, previous[0]]
+    } else {
+      throw new Error(`Corrupt compressed data: unknown code ${code}`)
+    }
+
+    output.push(...entry)
+    if (previous && FIRST_CODE + entries.length < DICTIONARY_LIMIT) {
+      entries.push([...previous, entry[0]])
+    }
+    previous = entry
+  }
+
+  return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(output))
+}
+
+/**
+ * Encode bytes as URL-safe base64 (no padding)
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode URL-safe base64 produced by toBase64Url()
+ * @throws If the text isn't valid base64url
+ */
+export function fromBase64Url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) {
+    throw new Error('Invalid base64url data')
+  }
+  const padded =
+    text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4)
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0))
+}
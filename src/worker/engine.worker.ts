@@ -0,0 +1,11 @@
+/**
+ * Engine Worker
+ * Runs game ticks and offline simulation off the main thread
+ */
+
+import { handleEngineCommand } from './engineHost'
+import type { EngineCommand } from './protocol'
+
+self.onmessage = (event: MessageEvent<EngineCommand>) => {
+  self.postMessage(handleEngineCommand(event.data))
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createMainThreadEngineClient,
+  createWorkerEngineClient,
+  type EngineWorker,
+} from './engineClient'
+import { handleEngineCommand } from './engineHost'
+import type { EngineCommand, EngineResponse } from './protocol'
+import type { TickResult, TickState } from '@/game/engine'
+import { getStarterDataset } from '@/data/contentLoader'
+
+// Stand-in for a Web Worker: queues commands until flush() answers them
+const createFakeWorker = (respond = handleEngineCommand) => {
+  const queue: EngineCommand[] = []
+  const worker: EngineWorker = {
+    onmessage: null,
+    onerror: null,
+    postMessage: command => {
+      queue.push(command)
+    },
+    terminate: vi.fn(),
+  }
+  const flush = () => {
+    queue.splice(0).forEach(command => {
+      worker.onmessage?.({ data: respond(command) } as MessageEvent<EngineResponse>)
+    })
+  }
+  return { worker, queue, flush }
+}
+
+// Everything but timing is deterministic
+const withoutPerformance = (result: TickResult) => ({ ...result, performance: null })
+
+describe('engine client', () => {
+  let state: TickState
+  const onError = vi.fn()
+
+  beforeEach(() => {
+    onError.mockClear()
+    state = {
+      datasets: [getStarterDataset()],
+      staff: [],
+      activeIncidents: [],
+      currentEvent: null,
+      dc: 100,
+      lifetimeDC: 100,
+      prestigeLevel: 0,
+      rngSeed: 42,
+    }
+  })
+
+  it('runs commands synchronously on the main thread', () => {
+    const results: TickResult[] = []
+
+    createMainThreadEngineClient().tick(state, 2, batch => results.push(...batch), onError)
+
+    expect(results).toHaveLength(2)
+    expect(results[0].dcGenerated).toBeGreaterThan(0)
+    expect(results[0].performance.tickDurationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('returns the same result from the worker as from the main thread', () => {
+    const { worker, flush } = createFakeWorker()
+    const client = createWorkerEngineClient(worker)
+    const workerResults: TickResult[] = []
+    const mainResults: TickResult[] = []
+
+    client.tick(state, 3, batch => workerResults.push(...batch), onError)
+    expect(workerResults).toEqual([])
+
+    flush()
+    createMainThreadEngineClient().tick(state, 3, batch => mainResults.push(...batch), onError)
+
+    expect(workerResults).toHaveLength(3)
+    expect(workerResults.map(withoutPerformance)).toEqual(mainResults.map(withoutPerformance))
+  })
+
+  it('routes each response to its own request', () => {
+    const { worker, queue, flush } = createFakeWorker()
+    const client = createWorkerEngineClient(worker)
+    const calls: string[] = []
+
+    client.tick(state, 1, () => calls.push('tick'), onError)
+    client.calculateOfflineProgress(
+      { ...state, lastTickTime: 0 },
+      60,
+      result => calls.push(`offline ${result.ticksSimulated}`),
+      onError
+    )
+    // Answer out of order
+    queue.reverse()
+    flush()
+
+    expect(calls).toEqual(['offline 60', 'tick'])
+  })
+
+  it('re-runs failed worker commands on the main thread', () => {
+    const { worker, flush } = createFakeWorker(command => ({
+      type: 'error',
+      requestId: command.requestId,
+      message: 'boom',
+    }))
+    const client = createWorkerEngineClient(worker)
+    const results: TickResult[] = []
+
+    client.tick(state, 1, batch => results.push(...batch), onError)
+    flush()
+
+    expect(results).toHaveLength(1)
+  })
+
+  it('falls back to the main thread when the worker crashes', () => {
+    const { worker } = createFakeWorker()
+    const client = createWorkerEngineClient(worker)
+    const results: TickResult[] = []
+
+    client.tick(state, 1, batch => results.push(...batch), onError)
+    worker.onerror?.({ message: 'Script error' } as ErrorEvent)
+    client.tick(state, 1, batch => results.push(...batch), onError)
+
+    expect(results).toHaveLength(2)
+  })
+
+  it('reports commands that fail on the main thread as well', () => {
+    const { worker, flush } = createFakeWorker(command => ({
+      type: 'error',
+      requestId: command.requestId,
+      message: 'boom',
+    }))
+    const client = createWorkerEngineClient(worker)
+    const onResult = vi.fn()
+
+    client.tick(null as unknown as TickState, 1, onResult, onError)
+    flush()
+    createMainThreadEngineClient().tick(null as unknown as TickState, 1, onResult, onError)
+
+    expect(onResult).not.toHaveBeenCalled()
+    expect(onError).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('handleEngineCommand', () => {
+  it('returns engine errors as an error response', () => {
+    const response = handleEngineCommand({
+      type: 'tick',
+      requestId: 7,
+      state: null as unknown as TickState,
+      count: 1,
+    })
+
+    expect(response.type).toBe('error')
+    expect(response.requestId).toBe(7)
+  })
+})
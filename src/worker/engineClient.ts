@@ -0,0 +1,183 @@
+/**
+ * Engine Client - Main-thread side of the engine worker
+ * Sends commands to the engine and routes responses back to their callers
+ *
+ * Two implementations share one interface:
+ * - worker: commands run in a Web Worker, callbacks fire asynchronously
+ * - main-thread: commands run inline and callbacks fire synchronously
+ *   (used where Worker is unavailable, e.g. tests)
+ *
+ * Commands that fail in the worker, or are pending when the worker crashes,
+ * are re-run on the main thread. Commands that fail there too are reported
+ * to the caller's onError callback.
+ */
+
+import type { TickResult, TickState } from '@/game/engine'
+import type { OfflineProgressResult, OfflineProgressState } from '@/game/offline'
+import { handleEngineCommand } from './engineHost'
+import type { EngineCommand, EngineResponse } from './protocol'
+
+/**
+ * The part of Worker used by the client
+ */
+export interface EngineWorker {
+  postMessage: (command: EngineCommand) => void
+  onmessage: ((event: MessageEvent<EngineResponse>) => void) | null
+  onerror: ((event: ErrorEvent) => void) | null
+  terminate: () => void
+}
+
+/**
+ * Runs engine commands for the game store
+ */
+export interface EngineClient {
+  readonly mode: 'worker' | 'main-thread'
+  /** Process a batch of ticks (fewer if an event triggers, see processTicks) */
+  tick: (
+    state: TickState,
+    count: number,
+    onResult: (results: TickResult[]) => void,
+    onError: (message: string) => void
+  ) => void
+  /** Simulate time away */
+  calculateOfflineProgress: (
+    state: OfflineProgressState,
+    secondsElapsed: number,
+    onResult: (result: OfflineProgressResult) => void,
+    onError: (message: string) => void
+  ) => void
+  /** Stop the worker (pending callbacks never fire) */
+  terminate: () => void
+}
+
+/**
+ * Build an engine client around a command runner
+ */
+function createClient(
+  mode: EngineClient['mode'],
+  send: (command: EngineCommand, onResponse: (response: EngineResponse) => void) => void,
+  terminate: () => void
+): EngineClient {
+  let nextRequestId = 1
+
+  const run = <T extends EngineResponse['type']>(
+    command: EngineCommand,
+    type: T,
+    onResult: (response: Extract<EngineResponse, { type: T }>) => void,
+    onError: (message: string) => void
+  ) => {
+    send(command, response => {
+      if (response.type === 'error') {
+        console.error('[EngineClient] Engine command failed:', command.type, response.message)
+        onError(response.message)
+      } else if (response.type === type) {
+        onResult(response as Extract<EngineResponse, { type: T }>)
+      }
+    })
+  }
+
+  return {
+    mode,
+    tick: (state, count, onResult, onError) => {
+      run(
+        { type: 'tick', requestId: nextRequestId++, state, count },
+        'tick',
+        response => onResult(response.results),
+        onError
+      )
+    },
+    calculateOfflineProgress: (state, secondsElapsed, onResult, onError) => {
+      run(
+        { type: 'offline-progress', requestId: nextRequestId++, state, secondsElapsed },
+        'offline-progress',
+        response => onResult(response.result),
+        onError
+      )
+    },
+    terminate,
+  }
+}
+
+/**
+ * Engine client that runs commands inline on the main thread
+ */
+export function createMainThreadEngineClient(): EngineClient {
+  return createClient(
+    'main-thread',
+    (command, onResponse) => {
+      onResponse(handleEngineCommand(command))
+    },
+    () => {}
+  )
+}
+
+/**
+ * Engine client backed by a Web Worker
+ *
+ * @param worker Worker running engine.worker.ts
+ * @returns Engine client
+ */
+export function createWorkerEngineClient(worker: EngineWorker): EngineClient {
+  const pending = new Map<
+    number,
+    { command: EngineCommand; onResponse: (response: EngineResponse) => void }
+  >()
+  let crashed = false
+
+  worker.onmessage = event => {
+    const request = pending.get(event.data.requestId)
+    if (!request) return
+    pending.delete(event.data.requestId)
+
+    if (event.data.type === 'error') {
+      console.warn(
+        '[EngineClient] Worker command failed, retrying on main thread:',
+        event.data.message
+      )
+      request.onResponse(handleEngineCommand(request.command))
+    } else {
+      request.onResponse(event.data)
+    }
+  }
+  worker.onerror = event => {
+    console.error('[EngineClient] Engine worker crashed, running on main thread:', event.message)
+    crashed = true
+    const requests = [...pending.values()]
+    pending.clear()
+    requests.forEach(({ command, onResponse }) => onResponse(handleEngineCommand(command)))
+  }
+
+  return createClient(
+    'worker',
+    (command, onResponse) => {
+      if (crashed) {
+        onResponse(handleEngineCommand(command))
+        return
+      }
+      pending.set(command.requestId, { command, onResponse })
+      worker.postMessage(command)
+    },
+    () => {
+      pending.clear()
+      worker.terminate()
+    }
+  )
+}
+
+/**
+ * Create the engine client for this environment
+ * Uses a Web Worker where available, otherwise runs on the main thread
+ */
+export function createEngineClient(): EngineClient {
+  if (typeof Worker === 'undefined') {
+    return createMainThreadEngineClient()
+  }
+
+  try {
+    const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' })
+    return createWorkerEngineClient(worker as unknown as EngineWorker)
+  } catch (error) {
+    console.warn('[EngineClient] Engine worker unavailable, running on main thread:', error)
+    return createMainThreadEngineClient()
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Engine Host - Runs engine commands
+ * Shared by the Web Worker and the main-thread fallback, so both produce
+ * exactly the same results
+ */
+
+import { processTicks, calculateOfflineProgress } from '@/game/engine'
+import type { EngineCommand, EngineResponse } from './protocol'
+
+/**
+ * Run an engine command
+ * Errors are returned as an 'error' response rather than thrown
+ *
+ * @param command Command from the game store
+ * @returns Response for the game store
+ */
+export function handleEngineCommand(command: EngineCommand): EngineResponse {
+  try {
+    switch (command.type) {
+      case 'tick':
+        return {
+          type: 'tick',
+          requestId: command.requestId,
+          results: processTicks(command.state, command.count),
+        }
+      case 'offline-progress':
+        return {
+          type: 'offline-progress',
+          requestId: command.requestId,
+          result: calculateOfflineProgress(command.state, command.secondsElapsed),
+        }
+    }
+  } catch (error) {
+    return {
+      type: 'error',
+      requestId: command.requestId,
+      message: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
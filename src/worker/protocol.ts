@@ -0,0 +1,38 @@
+/**
+ * Engine Worker Protocol
+ * Typed messages between the game store (main thread) and the engine worker
+ *
+ * The worker runs every simulation; the main thread only applies results.
+ * Commands carry a snapshot of the state the engine needs and responses carry
+ * the engine's results (one per tick, with performance metrics), so the worker
+ * keeps no state between commands. If the player changes the state while a
+ * command is running, the store sends the command again from the new state
+ * rather than simulating on the main thread. Commands only run on the main
+ * thread where the worker is unavailable or fails (see engineClient.ts).
+ *
+ * Ticks are sent in batches (fast-forward and catch-up ticks go in one
+ * command), so a batch costs one snapshot, one message and one store update.
+ */
+
+import type { TickResult, TickState } from '@/game/engine'
+import type { OfflineProgressResult, OfflineProgressState } from '@/game/offline'
+
+/**
+ * Main thread → worker
+ */
+export type EngineCommand =
+  | { type: 'tick'; requestId: number; state: TickState; count: number }
+  | {
+      type: 'offline-progress'
+      requestId: number
+      state: OfflineProgressState
+      secondsElapsed: number
+    }
+
+/**
+ * Worker → main thread
+ */
+export type EngineResponse =
+  | { type: 'tick'; requestId: number; results: TickResult[] }
+  | { type: 'offline-progress'; requestId: number; result: OfflineProgressResult }
+  | { type: 'error'; requestId: number; message: string }